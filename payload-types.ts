@@ -70,8 +70,12 @@ export interface Config {
     users: User;
     pages: Page;
     resources: Resource;
+    tags: Tag;
     curriculum_modules: CurriculumModule;
     animated_examples: AnimatedExample;
+    quizzes: Quiz;
+    progress: Progress;
+    search_index: SearchIndex;
     "payload-kv": PayloadKv;
     "payload-locked-documents": PayloadLockedDocument;
     "payload-preferences": PayloadPreference;
@@ -82,12 +86,16 @@ export interface Config {
     users: UsersSelect<false> | UsersSelect<true>;
     pages: PagesSelect<false> | PagesSelect<true>;
     resources: ResourcesSelect<false> | ResourcesSelect<true>;
+    tags: TagsSelect<false> | TagsSelect<true>;
     curriculum_modules:
       | CurriculumModulesSelect<false>
       | CurriculumModulesSelect<true>;
     animated_examples:
       | AnimatedExamplesSelect<false>
       | AnimatedExamplesSelect<true>;
+    quizzes: QuizzesSelect<false> | QuizzesSelect<true>;
+    progress: ProgressSelect<false> | ProgressSelect<true>;
+    search_index: SearchIndexSelect<false> | SearchIndexSelect<true>;
     "payload-kv": PayloadKvSelect<false> | PayloadKvSelect<true>;
     "payload-locked-documents":
       | PayloadLockedDocumentsSelect<false>
@@ -165,6 +173,10 @@ export interface Page {
   title: string;
   slug: string;
   status: "draft" | "published";
+  /**
+   * Used for search results and social previews
+   */
+  description?: string | null;
   content?: {
     root: {
       type: string;
@@ -191,6 +203,7 @@ export interface Resource {
   id: string;
   title: string;
   resourceNumber: number;
+  category?: ("article" | "talk" | "spec" | "book") | null;
   summary?: string | null;
   body?: {
     root: {
@@ -217,6 +230,20 @@ export interface Resource {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "tags".
+ */
+export interface Tag {
+  id: string;
+  label: string;
+  /**
+   * Used in /topics filter URLs (e.g., 'performance')
+   */
+  slug: string;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "curriculum_modules".
@@ -231,6 +258,12 @@ export interface CurriculumModule {
    * Estimated reading time in minutes
    */
   readingTimeMins?: number | null;
+  difficulty?: ("beginner" | "intermediate" | "advanced") | null;
+  tags?: (string | Tag)[] | null;
+  /**
+   * Modules learners should finish first (must not form a cycle)
+   */
+  prerequisites?: (string | CurriculumModule)[] | null;
   sections: {
     /**
      * Unique key within this module (e.g., 'overview', 'mental_model')
@@ -281,6 +314,7 @@ export interface CurriculumModule {
   }[];
   updatedAt: string;
   createdAt: string;
+  _status?: ("draft" | "published") | null;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -300,7 +334,16 @@ export interface AnimatedExample {
   placementHint?:
     | ("mentalModel" | "coreConcepts" | "tradeoffs" | "caseStudy")
     | null;
-  kind: "timeline2d" | "flow2d" | "diff2d";
+  kind:
+    | "timeline2d"
+    | "flow2d"
+    | "diff2d"
+    | "sequence2d"
+    | "statechart"
+    | "waterfall2d"
+    | "tree2d"
+    | "treemap2d"
+    | "code2d";
   description: string;
   controls: {
     mode: "stepper" | "toggle" | "play";
@@ -330,6 +373,95 @@ export interface AnimatedExample {
     | null;
   updatedAt: string;
   createdAt: string;
+  _status?: ("draft" | "published") | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "quizzes".
+ */
+export interface Quiz {
+  id: string;
+  title: string;
+  /**
+   * The quiz is shown at the end of this module
+   */
+  module: string | CurriculumModule;
+  /**
+   * Percentage of correct answers needed to pass
+   */
+  passingScore?: number | null;
+  questions: {
+    type: "single" | "multiple" | "ordering";
+    prompt: string;
+    /**
+     * For ordering questions, list options in the correct order (they are shuffled for learners)
+     */
+    options: {
+      text: string;
+      /**
+       * Ignored for ordering questions
+       */
+      isCorrect?: boolean | null;
+      /**
+       * Shown when a learner picks this option wrongly
+       */
+      explanation?: string | null;
+      id?: string | null;
+    }[];
+    /**
+     * Shown after answering, whether right or wrong
+     */
+    explanation?: string | null;
+    id?: string | null;
+  }[];
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Per-learner module progress, synced from the site for signed-in users
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "progress".
+ */
+export interface Progress {
+  id: string;
+  user: string | User;
+  module: string | CurriculumModule;
+  /**
+   * Keys of sections the learner has completed
+   */
+  completedSections?: string[] | null;
+  /**
+   * Section the learner was last reading
+   */
+  lastSectionKey?: string | null;
+  completedAt?: string | null;
+  /**
+   * Best quiz score for this module, as a percentage
+   */
+  quizBestScore?: number | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Derived search entries, maintained automatically by module and example hooks
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search_index".
+ */
+export interface SearchIndex {
+  id: string;
+  entryType: "section" | "callout" | "example";
+  module: string | CurriculumModule;
+  moduleSlug: string;
+  moduleTitle: string;
+  sectionKey: string;
+  sectionHeading: string;
+  title: string;
+  body?: string | null;
+  href: string;
+  updatedAt: string;
+  createdAt: string;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -367,6 +499,10 @@ export interface PayloadLockedDocument {
         relationTo: "resources";
         value: string | Resource;
       } | null)
+    | ({
+        relationTo: "tags";
+        value: string | Tag;
+      } | null)
     | ({
         relationTo: "curriculum_modules";
         value: string | CurriculumModule;
@@ -374,6 +510,18 @@ export interface PayloadLockedDocument {
     | ({
         relationTo: "animated_examples";
         value: string | AnimatedExample;
+      } | null)
+    | ({
+        relationTo: "quizzes";
+        value: string | Quiz;
+      } | null)
+    | ({
+        relationTo: "progress";
+        value: string | Progress;
+      } | null)
+    | ({
+        relationTo: "search_index";
+        value: string | SearchIndex;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -447,6 +595,7 @@ export interface PagesSelect<T extends boolean = true> {
   title?: T;
   slug?: T;
   status?: T;
+  description?: T;
   content?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -458,6 +607,7 @@ export interface PagesSelect<T extends boolean = true> {
 export interface ResourcesSelect<T extends boolean = true> {
   title?: T;
   resourceNumber?: T;
+  category?: T;
   summary?: T;
   body?: T;
   references?:
@@ -470,6 +620,16 @@ export interface ResourcesSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "tags_select".
+ */
+export interface TagsSelect<T extends boolean = true> {
+  label?: T;
+  slug?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "curriculum_modules_select".
@@ -480,6 +640,9 @@ export interface CurriculumModulesSelect<T extends boolean = true> {
   title?: T;
   summary?: T;
   readingTimeMins?: T;
+  difficulty?: T;
+  tags?: T;
+  prerequisites?: T;
   sections?:
     | T
     | {
@@ -505,6 +668,7 @@ export interface CurriculumModulesSelect<T extends boolean = true> {
       };
   updatedAt?: T;
   createdAt?: T;
+  _status?: T;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -538,6 +702,65 @@ export interface AnimatedExamplesSelect<T extends boolean = true> {
   spec?: T;
   updatedAt?: T;
   createdAt?: T;
+  _status?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "quizzes_select".
+ */
+export interface QuizzesSelect<T extends boolean = true> {
+  title?: T;
+  module?: T;
+  passingScore?: T;
+  questions?:
+    | T
+    | {
+        type?: T;
+        prompt?: T;
+        options?:
+          | T
+          | {
+              text?: T;
+              isCorrect?: T;
+              explanation?: T;
+              id?: T;
+            };
+        explanation?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "progress_select".
+ */
+export interface ProgressSelect<T extends boolean = true> {
+  user?: T;
+  module?: T;
+  completedSections?: T;
+  lastSectionKey?: T;
+  completedAt?: T;
+  quizBestScore?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search_index_select".
+ */
+export interface SearchIndexSelect<T extends boolean = true> {
+  entryType?: T;
+  module?: T;
+  moduleSlug?: T;
+  moduleTitle?: T;
+  sectionKey?: T;
+  sectionHeading?: T;
+  title?: T;
+  body?: T;
+  href?: T;
+  updatedAt?: T;
+  createdAt?: T;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
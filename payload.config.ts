@@ -4,6 +4,18 @@ import { mongooseAdapter } from "@payloadcms/db-mongodb";
 import path from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
+import {
+  indexExampleAfterChange,
+  indexModuleAfterChange,
+  removeExampleFromIndex,
+  removeModuleFromIndex,
+} from "./src/modules/search/indexer";
+import { validatePrerequisites } from "./src/modules/curriculum/prerequisites";
+import {
+  logSpecWarnings,
+  validateAnimatedExampleSpec,
+} from "./src/modules/animatedExamples/specValidation";
+import { isHttpUrl } from "./src/lib/resources";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -50,6 +62,13 @@ export default buildConfig({
           defaultValue: "draft",
           required: true,
         },
+        {
+          name: "description",
+          type: "textarea",
+          admin: {
+            description: "Used for search results and social previews",
+          },
+        },
         {
           name: "content",
           type: "richText",
@@ -71,6 +90,19 @@ export default buildConfig({
           required: true,
           unique: true,
         },
+        {
+          name: "category",
+          type: "select",
+          // Optional: resources created before categories existed have none
+          // and are listed under "Other"
+          options: [
+            { label: "Article", value: "article" },
+            { label: "Talk", value: "talk" },
+            { label: "Spec", value: "spec" },
+            { label: "Book", value: "book" },
+          ],
+          defaultValue: "article",
+        },
         {
           name: "summary",
           type: "textarea",
@@ -93,13 +125,51 @@ export default buildConfig({
               name: "url",
               type: "text",
               required: true,
+              validate: (value: unknown) =>
+                isHttpUrl(value) ||
+                "Enter a full http(s) URL, e.g. https://example.com",
             },
           ],
         },
       ],
     },
+    {
+      slug: "tags",
+      admin: {
+        useAsTitle: "label",
+      },
+      fields: [
+        {
+          name: "label",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "slug",
+          type: "text",
+          required: true,
+          unique: true,
+          admin: {
+            description: "Used in /topics filter URLs (e.g., 'performance')",
+          },
+        },
+      ],
+    },
     {
       slug: "curriculum_modules",
+      versions: {
+        drafts: true,
+      },
+      hooks: {
+        afterChange: [indexModuleAfterChange],
+        afterDelete: [removeModuleFromIndex],
+      },
+      admin: {
+        preview: (doc) =>
+          `/api/preview?secret=${encodeURIComponent(
+            process.env.PREVIEW_SECRET || ""
+          )}&slug=${encodeURIComponent(String(doc.slug))}`,
+      },
       fields: [
         {
           name: "order",
@@ -130,6 +200,32 @@ export default buildConfig({
             description: "Estimated reading time in minutes",
           },
         },
+        {
+          name: "difficulty",
+          type: "select",
+          options: [
+            { label: "Beginner", value: "beginner" },
+            { label: "Intermediate", value: "intermediate" },
+            { label: "Advanced", value: "advanced" },
+          ],
+        },
+        {
+          name: "tags",
+          type: "relationship",
+          relationTo: "tags",
+          hasMany: true,
+        },
+        {
+          name: "prerequisites",
+          type: "relationship",
+          relationTo: "curriculum_modules",
+          hasMany: true,
+          validate: validatePrerequisites,
+          admin: {
+            description:
+              "Modules learners should finish first (must not form a cycle)",
+          },
+        },
         {
           name: "sections",
           type: "array",
@@ -217,6 +313,35 @@ export default buildConfig({
     },
     {
       slug: "animated_examples",
+      versions: {
+        drafts: true,
+      },
+      hooks: {
+        beforeChange: [logSpecWarnings],
+        afterChange: [indexExampleAfterChange],
+        afterDelete: [removeExampleFromIndex],
+      },
+      admin: {
+        // Examples have no page of their own; preview the module embedding them
+        preview: async (doc, { req }) => {
+          const moduleRef = doc.module as string | { slug?: string } | null;
+          const module =
+            typeof moduleRef === "string"
+              ? await req.payload.findByID({
+                  collection: "curriculum_modules",
+                  id: moduleRef,
+                  depth: 0,
+                  draft: true,
+                })
+              : moduleRef;
+
+          if (!module?.slug) return null;
+
+          return `/api/preview?secret=${encodeURIComponent(
+            process.env.PREVIEW_SECRET || ""
+          )}&slug=${encodeURIComponent(module.slug)}`;
+        },
+      },
       fields: [
         {
           name: "exampleId",
@@ -260,6 +385,12 @@ export default buildConfig({
             { label: "Timeline 2D", value: "timeline2d" },
             { label: "Flow 2D", value: "flow2d" },
             { label: "Diff 2D", value: "diff2d" },
+            { label: "Sequence 2D", value: "sequence2d" },
+            { label: "Statechart", value: "statechart" },
+            { label: "Waterfall 2D", value: "waterfall2d" },
+            { label: "Tree 2D", value: "tree2d" },
+            { label: "Treemap 2D", value: "treemap2d" },
+            { label: "Code 2D", value: "code2d" },
           ],
         },
         {
@@ -318,11 +449,275 @@ export default buildConfig({
           name: "spec",
           type: "json",
           required: true,
+          validate: validateAnimatedExampleSpec,
           admin: {
             description:
-              "Renderer configuration (validated by Zod on frontend)",
+              "Renderer configuration for the selected kind; checked on save, including references between its parts and the step count",
+          },
+        },
+      ],
+    },
+    {
+      slug: "quizzes",
+      admin: {
+        useAsTitle: "title",
+        defaultColumns: ["title", "module", "updatedAt"],
+      },
+      fields: [
+        {
+          name: "title",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "module",
+          type: "relationship",
+          relationTo: "curriculum_modules",
+          required: true,
+          unique: true,
+          admin: {
+            description: "The quiz is shown at the end of this module",
+          },
+        },
+        {
+          name: "passingScore",
+          type: "number",
+          min: 0,
+          max: 100,
+          defaultValue: 70,
+          admin: {
+            description: "Percentage of correct answers needed to pass",
           },
         },
+        {
+          name: "questions",
+          type: "array",
+          required: true,
+          minRows: 1,
+          fields: [
+            {
+              name: "type",
+              type: "select",
+              required: true,
+              options: [
+                { label: "Multiple Choice", value: "single" },
+                { label: "Multi-select", value: "multiple" },
+                { label: "Ordering", value: "ordering" },
+              ],
+              defaultValue: "single",
+            },
+            {
+              name: "prompt",
+              type: "textarea",
+              required: true,
+            },
+            {
+              name: "options",
+              type: "array",
+              required: true,
+              minRows: 2,
+              admin: {
+                description:
+                  "For ordering questions, list options in the correct order (they are shuffled for learners)",
+              },
+              validate: (
+                value: unknown,
+                { siblingData }: { siblingData: { type?: string } }
+              ) => {
+                if (!Array.isArray(value) || siblingData.type === "ordering") {
+                  return true;
+                }
+                const correct = value.filter(
+                  (option: { isCorrect?: boolean }) => option?.isCorrect
+                ).length;
+                if (siblingData.type === "single" && correct !== 1) {
+                  return "Multiple choice questions need exactly one correct option";
+                }
+                if (siblingData.type === "multiple" && correct < 1) {
+                  return "Multi-select questions need at least one correct option";
+                }
+                return true;
+              },
+              fields: [
+                {
+                  name: "text",
+                  type: "text",
+                  required: true,
+                },
+                {
+                  name: "isCorrect",
+                  type: "checkbox",
+                  defaultValue: false,
+                  admin: {
+                    description: "Ignored for ordering questions",
+                  },
+                },
+                {
+                  name: "explanation",
+                  type: "textarea",
+                  admin: {
+                    description:
+                      "Shown when a learner picks this option wrongly",
+                  },
+                },
+              ],
+            },
+            {
+              name: "explanation",
+              type: "textarea",
+              admin: {
+                description: "Shown after answering, whether right or wrong",
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      slug: "progress",
+      admin: {
+        description:
+          "Per-learner module progress, synced from the site for signed-in users",
+        defaultColumns: ["user", "module", "completedAt", "updatedAt"],
+      },
+      // Learners can only see and change their own progress
+      access: {
+        create: ({ req }) => Boolean(req.user),
+        read: ({ req }) =>
+          req.user ? { user: { equals: req.user.id } } : false,
+        update: ({ req }) =>
+          req.user ? { user: { equals: req.user.id } } : false,
+        delete: ({ req }) =>
+          req.user ? { user: { equals: req.user.id } } : false,
+      },
+      indexes: [{ fields: ["user", "module"], unique: true }],
+      hooks: {
+        // Runs before validation so the required user field is filled in
+        beforeValidate: [
+          ({ data, req, operation }) => {
+            if (operation === "create" && req.user) {
+              return { ...data, user: req.user.id };
+            }
+            return data;
+          },
+        ],
+      },
+      fields: [
+        {
+          name: "user",
+          type: "relationship",
+          relationTo: "users",
+          required: true,
+          index: true,
+          // Set from the signed-in user on create and never reassigned
+          access: {
+            update: () => false,
+          },
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: "module",
+          type: "relationship",
+          relationTo: "curriculum_modules",
+          required: true,
+        },
+        {
+          name: "completedSections",
+          type: "text",
+          hasMany: true,
+          admin: {
+            description: "Keys of sections the learner has completed",
+          },
+        },
+        {
+          name: "lastSectionKey",
+          type: "text",
+          admin: {
+            description: "Section the learner was last reading",
+          },
+        },
+        {
+          name: "completedAt",
+          type: "date",
+        },
+        {
+          name: "quizBestScore",
+          type: "number",
+          min: 0,
+          max: 100,
+          // Written by the quiz grading route only, never by the learner
+          access: {
+            create: () => false,
+            update: () => false,
+          },
+          admin: {
+            description: "Best quiz score for this module, as a percentage",
+          },
+        },
+      ],
+    },
+    {
+      slug: "search_index",
+      admin: {
+        description:
+          "Derived search entries, maintained automatically by module and example hooks",
+        useAsTitle: "title",
+        defaultColumns: ["title", "entryType", "moduleTitle"],
+      },
+      fields: [
+        {
+          name: "entryType",
+          type: "select",
+          required: true,
+          options: [
+            { label: "Section", value: "section" },
+            { label: "Callout", value: "callout" },
+            { label: "Example", value: "example" },
+          ],
+        },
+        {
+          name: "module",
+          type: "relationship",
+          relationTo: "curriculum_modules",
+          required: true,
+          index: true,
+        },
+        {
+          name: "moduleSlug",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "moduleTitle",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "sectionKey",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "sectionHeading",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "title",
+          type: "text",
+          required: true,
+        },
+        {
+          name: "body",
+          type: "textarea",
+        },
+        {
+          name: "href",
+          type: "text",
+          required: true,
+        },
       ],
     },
   ],
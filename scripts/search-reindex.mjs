@@ -0,0 +1,62 @@
+import { getPayload } from "payload";
+import { config as dotenvConfig } from "dotenv";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+
+// Load environment variables from .env.local
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenvConfig({ path: join(__dirname, "..", ".env.local") });
+
+/**
+ * Rebuilds the search_index collection for every curriculum module.
+ * Hooks keep the index fresh on save; run this once after deploying search
+ * or after bulk imports that bypass hooks.
+ */
+async function reindex() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is not set");
+  }
+
+  if (!process.env.PAYLOAD_SECRET) {
+    throw new Error("PAYLOAD_SECRET environment variable is not set");
+  }
+
+  const configModule = await import("../payload.config.ts");
+  const { reindexModule } = await import("../src/modules/search/indexer.ts");
+  const config = configModule.default;
+  const payload = await getPayload({ config });
+
+  console.log("🔎 Rebuilding search index...\n");
+
+  let total = 0;
+  let moduleCount = 0;
+  let page = 1;
+  let hasNextPage = true;
+  while (hasNextPage) {
+    const modules = await payload.find({
+      collection: "curriculum_modules",
+      limit: 100,
+      page,
+      depth: 0,
+    });
+
+    for (const moduleDoc of modules.docs) {
+      const count = await reindexModule(payload, moduleDoc.id);
+      total += count;
+      console.log(`✓ ${moduleDoc.slug}: ${count} entries`);
+    }
+
+    moduleCount += modules.docs.length;
+    hasNextPage = modules.hasNextPage;
+    page++;
+  }
+
+  console.log(`\n✅ Indexed ${total} entries across ${moduleCount} modules`);
+  process.exit(0);
+}
+
+reindex().catch((error) => {
+  console.error("❌ Error rebuilding search index:", error);
+  process.exit(1);
+});
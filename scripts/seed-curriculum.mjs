@@ -84,6 +84,7 @@ const modulesData = [
     title: "Frontend System Design Foundations: Requirements, Constraints, and Architecture Thinking",
     summary: "Learn how to translate business requirements and technical constraints into frontend architecture decisions.",
     readingTimeMins: 45,
+    difficulty: "beginner",
     sections: [
       {
         key: "overview",
@@ -203,6 +204,7 @@ const modulesData = [
     title: "Rendering Strategies & Data Lifecycles: CSR, SSR, SSG, ISR, Streaming, Hydration, Routing, Fetching, Caching, Revalidation",
     summary: "Master rendering strategies and data lifecycle management for optimal performance and user experience.",
     readingTimeMins: 60,
+    difficulty: "beginner",
     sections: [
       {
         key: "overview",
@@ -310,6 +312,7 @@ const modulesData = [
     title: "State Management at Scale: Server State vs Client State, Async Orchestration, Optimistic Updates, and Offline",
     summary: "Learn to manage state effectively at scale, distinguishing between server and client state, handling async operations, optimistic updates, and offline scenarios.",
     readingTimeMins: 55,
+    difficulty: "intermediate",
     sections: [
       {
         key: "overview",
@@ -417,6 +420,7 @@ const modulesData = [
     title: "Performance System Design: Core Web Vitals, Loading Strategies, Bundles, Caching, Images/Video, CPU/Memory, and Long Tasks",
     summary: "Design frontend systems that meet performance budgets through strategic optimization of Core Web Vitals, loading strategies, bundles, caching, and resource management.",
     readingTimeMins: 70,
+    difficulty: "intermediate",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers Core Web Vitals (LCP, INP, CLS), loading strategies, bundle optimization, caching strategies, image/video optimization, CPU/memory management, and handling long tasks.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Basic understanding of web performance, browser DevTools, and HTTP caching.") },
@@ -436,6 +440,7 @@ const modulesData = [
     title: "Component & UI Architecture: Design Systems, Theming, Tokens, Micro-frontends, and Module Federation Trade-offs",
     summary: "Build scalable UI architectures with design systems, theming, tokens, and understand micro-frontend patterns and module federation trade-offs.",
     readingTimeMins: 65,
+    difficulty: "intermediate",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers design systems, theming strategies, design tokens, micro-frontend architectures, and module federation trade-offs.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("React component patterns, CSS-in-JS or CSS modules, understanding of build tools.") },
@@ -455,6 +460,7 @@ const modulesData = [
     title: "Deployment & Delivery for Frontend Systems: CI/CD, Feature Flags, A/B Testing, Canary, Rollback, CDN Strategy, Edge",
     summary: "Master deployment and delivery strategies including CI/CD, feature flags, A/B testing, canary releases, rollback procedures, CDN strategies, and edge deployment.",
     readingTimeMins: 50,
+    difficulty: "intermediate",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers CI/CD pipelines, feature flags, A/B testing, canary deployments, rollback strategies, CDN configuration, and edge deployment patterns.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Basic understanding of Git, build tools, and deployment concepts.") },
@@ -474,6 +480,7 @@ const modulesData = [
     title: "Testing Strategy for Frontend Systems: Unit, Integration, E2E, Contract Testing, and Visual Regression",
     summary: "Design comprehensive testing strategies covering unit, integration, E2E, contract, and visual regression testing for frontend systems.",
     readingTimeMins: 55,
+    difficulty: "intermediate",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers unit testing, integration testing, end-to-end (E2E) testing, contract testing, and visual regression testing strategies.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Basic understanding of testing concepts, familiarity with testing frameworks (Jest, React Testing Library).") },
@@ -493,6 +500,7 @@ const modulesData = [
     title: "Observability for Frontend Systems: Logging, Metrics, Tracing, Session Replay Considerations, Error Boundaries, Monitoring Strategy",
     summary: "Implement comprehensive observability for frontend systems through logging, metrics, tracing, session replay, error boundaries, and monitoring strategies.",
     readingTimeMins: 60,
+    difficulty: "intermediate",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers logging strategies, metrics collection, distributed tracing, session replay considerations, error boundary patterns, and monitoring strategies.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Understanding of browser DevTools, basic knowledge of error handling.") },
@@ -512,6 +520,7 @@ const modulesData = [
     title: "Security & Privacy for Frontend Systems: XSS/CSRF/CSP, Auth Flows, Token Storage, Clickjacking, Dependency Risk, PII Handling, GDPR-like Principles",
     summary: "Secure frontend systems against common vulnerabilities and implement privacy-compliant practices for user data handling.",
     readingTimeMins: 65,
+    difficulty: "advanced",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers XSS/CSRF/CSP defenses, authentication flows, secure token storage, clickjacking prevention, dependency risk management, PII handling, and GDPR compliance principles.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Basic understanding of web security concepts, HTTP, and browser security model.") },
@@ -531,6 +540,7 @@ const modulesData = [
     title: "Real-time Frontend Systems: WebSockets vs SSE, Sync Models, Conflict Handling, Backpressure, and Resilience",
     summary: "Build real-time frontend systems using WebSockets and SSE, implement sync models, handle conflicts, manage backpressure, and ensure resilience.",
     readingTimeMins: 55,
+    difficulty: "advanced",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers WebSockets vs Server-Sent Events (SSE), synchronization models, conflict resolution strategies, backpressure handling, and resilience patterns.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Understanding of HTTP, basic knowledge of WebSockets or SSE.") },
@@ -550,6 +560,7 @@ const modulesData = [
     title: "Large-scale UX Systems: Virtualization, Pagination vs Infinite Scroll, Search, Forms, Validation, Autosave",
     summary: "Design large-scale UX systems with virtualization, navigation patterns, search, form handling, validation, and autosave capabilities.",
     readingTimeMins: 50,
+    difficulty: "advanced",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This module covers virtualization techniques, pagination vs infinite scroll trade-offs, search implementation, form handling, validation strategies, and autosave patterns.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("React basics, understanding of DOM performance, basic accessibility awareness.") },
@@ -569,6 +580,7 @@ const modulesData = [
     title: "Capstone Frontend System Designs: E-commerce PDP/Checkout, Dashboard/Analytics, Chat/Collab, Media Streaming UI",
     summary: "Apply all concepts through comprehensive capstone designs for e-commerce, dashboards, chat/collaboration, and media streaming interfaces.",
     readingTimeMins: 80,
+    difficulty: "advanced",
     sections: [
       { key: "overview", heading: "What You Will Learn", kind: "overview", body: createRichText("This capstone module covers end-to-end system designs for e-commerce product detail pages and checkout flows, analytics dashboards, chat/collaboration interfaces, and media streaming UIs.") },
       { key: "prerequisites", heading: "Prerequisites", kind: "prerequisites", body: createRichText("Completion of previous modules, React + TypeScript, Core Web Vitals familiarity, WebSocket/SSE basics.") },
@@ -626,14 +638,14 @@ const examplesData = {
       spec: {
         lanes: ["Planning", "Architecture", "Implementation"],
         steps: [
-          { id: "s1", label: "Goals", lane: "Planning", time: 0 },
-          { id: "s2", label: "Constraints", lane: "Planning", time: 1 },
-          { id: "s3", label: "Rendering", lane: "Architecture", time: 2 },
-          { id: "s4", label: "Data Strategy", lane: "Architecture", time: 3 },
-          { id: "s5", label: "State Boundaries", lane: "Architecture", time: 4 },
-          { id: "s6", label: "Resilience", lane: "Implementation", time: 5 },
-          { id: "s7", label: "Security", lane: "Implementation", time: 6 },
-          { id: "s8", label: "Delivery", lane: "Implementation", time: 7 },
+          { id: "s1", label: "Goals", lane: "Planning", explanation: "Start from user and business goals: who the product serves and what success looks like." },
+          { id: "s2", label: "Constraints", lane: "Planning", explanation: "Pin down the constraints: devices, networks, team size, SEO and compliance." },
+          { id: "s3", label: "Rendering", lane: "Architecture", explanation: "Pick a rendering strategy (CSR, SSR, SSG or a mix) per route." },
+          { id: "s4", label: "Data Strategy", lane: "Architecture", explanation: "Decide where data is fetched, cached and revalidated." },
+          { id: "s5", label: "State Boundaries", lane: "Architecture", explanation: "Separate server state, URL state and local UI state." },
+          { id: "s6", label: "Resilience", lane: "Implementation", explanation: "Plan for failure: loading and error states, retries and fallbacks." },
+          { id: "s7", label: "Security", lane: "Implementation", explanation: "Cover authentication, XSS and CSRF, and content security policy." },
+          { id: "s8", label: "Delivery", lane: "Implementation", explanation: "Ship with performance budgets, monitoring and observability." },
         ],
       },
     },
@@ -652,25 +664,45 @@ const examplesData = {
       ],
       controls: { mode: "toggle", toggleLabels: [{ label: "CSR" }, { label: "SSR" }] },
       spec: {
+        leftTitle: "CSR",
+        rightTitle: "SSR",
         left: {
-          title: "CSR",
-          steps: [
-            { id: "1", label: "Request HTML", lane: "client" },
-            { id: "2", label: "Load JS", lane: "client" },
-            { id: "3", label: "Execute JS", lane: "client" },
-            { id: "4", label: "Fetch Data", lane: "client" },
-            { id: "5", label: "Render", lane: "client" },
+          type: "tree",
+          nodes: [
+            { id: "request", label: "Request HTML", detail: "client" },
+            { id: "load-js", label: "Load JS", detail: "client" },
+            { id: "execute-js", label: "Execute JS", detail: "client" },
+            { id: "fetch-data", label: "Fetch Data", detail: "client" },
+            { id: "render", label: "Render", detail: "client" },
           ],
         },
         right: {
-          title: "SSR",
-          steps: [
-            { id: "1", label: "Request HTML", lane: "client" },
-            { id: "2", label: "Server Renders", lane: "server" },
-            { id: "3", label: "Send HTML", lane: "server" },
-            { id: "4", label: "Hydrate", lane: "client" },
+          type: "tree",
+          nodes: [
+            { id: "request", label: "Request HTML", detail: "client" },
+            { id: "server-render", label: "Server Renders", detail: "server" },
+            { id: "send-html", label: "Send HTML", detail: "server" },
+            { id: "hydrate", label: "Hydrate", detail: "client" },
           ],
         },
+        toggles: [
+          {
+            label: "CSR",
+            explanation: "The browser gets an empty shell; nothing meaningful paints until the JavaScript has loaded, run and fetched its data.",
+            leftHighlights: [
+              { region: "execute-js", label: "Blank screen" },
+              { region: "render", label: "First content" },
+            ],
+          },
+          {
+            label: "SSR",
+            explanation: "The server sends rendered HTML, so content paints right away; JavaScript hydrates it afterwards to make it interactive.",
+            rightHighlights: [
+              { region: "send-html", label: "First content" },
+              { region: "hydrate", label: "Interactive" },
+            ],
+          },
+        ],
       },
     },
   ],
@@ -717,7 +749,7 @@ async function seedCurriculum() {
             payload.update({
               collection: "curriculum_modules",
               id: existing.docs[0].id,
-              data: moduleData,
+              data: { ...moduleData, _status: "published" },
             })
           );
           moduleId = updated.id;
@@ -730,7 +762,7 @@ async function seedCurriculum() {
         const created = await retryOperation(() =>
           payload.create({
             collection: "curriculum_modules",
-            data: moduleData,
+            data: { ...moduleData, _status: "published" },
           })
         );
         moduleId = created.id;
@@ -764,6 +796,7 @@ async function seedCurriculum() {
         const examplePayload = {
           ...exampleData,
           module: moduleId,
+          _status: "published",
         };
 
         if (existing.docs.length > 0) {
@@ -1,7 +1,9 @@
 "use client";
 
 import Link from "next/link";
-import { BookOpen, Target, Code, Rocket } from "lucide-react";
+import { BookOpen, Target, Code, Rocket, PlayCircle } from "lucide-react";
+import { useProgress } from "@/components/progress/ProgressProvider";
+import { getCompletionRatio, getResumeTarget } from "@/lib/progress";
 import type { TopicListItem } from "@/lib/types";
 
 interface HomePageClientProps {
@@ -10,6 +12,12 @@ interface HomePageClientProps {
 }
 
 export function HomePageClient({ topics, error }: HomePageClientProps) {
+  const { progress } = useProgress();
+  const resume = getResumeTarget(progress);
+  const resumeTopic = resume
+    ? topics.find((topic) => topic.id === resume.moduleId)
+    : null;
+
   return (
     <div className="space-y-16 max-w-5xl mx-auto">
       {/* Hero Section */}
@@ -38,6 +46,35 @@ export function HomePageClient({ topics, error }: HomePageClientProps) {
         </div>
       </section>
 
+      {/* Continue where you left off */}
+      {resume && resumeTopic && (
+        <section>
+          <Link
+            href={`/topics/${resumeTopic.slug}${
+              resume.lastSectionKey ? `#section-${resume.lastSectionKey}` : ""
+            }`}
+            className="group flex items-center gap-4 p-6 border border-blue-200 dark:border-blue-800 rounded-xl bg-blue-50 dark:bg-blue-900/20 hover:shadow-md transition-all"
+          >
+            <PlayCircle className="flex-shrink-0 w-10 h-10 text-blue-600 dark:text-blue-400" />
+            <div className="flex-1 min-w-0">
+              <span className="text-xs font-semibold uppercase tracking-wider text-blue-700 dark:text-blue-300">
+                Continue where you left off
+              </span>
+              <h2 className="font-semibold text-lg group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors truncate">
+                {resumeTopic.title}
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {Math.round(
+                  getCompletionRatio(resume, resumeTopic.sectionCount ?? 0) *
+                    100
+                )}
+                % complete
+              </p>
+            </div>
+          </Link>
+        </section>
+      )}
+
       {/* Value Propositions */}
       <section className="grid md:grid-cols-3 gap-8">
         <div className="space-y-3">
@@ -1,5 +1,38 @@
 import { notFound } from "next/navigation";
-import { getPageBySlug } from "@/lib/content";
+import type { Metadata } from "next";
+import type { SerializedEditorState } from "lexical";
+import { getPageBySlug, listPublishedPages } from "@/lib/content";
+import { extractHeadings } from "@/lib/toc";
+import { RichTextRenderer } from "@/components/content/RichTextRenderer";
+import { Prose } from "@/components/content/Prose";
+import { TableOfContents } from "@/components/ui/TableOfContents";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string[] }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const page = await getPageBySlug(slug.join("/"));
+
+  if (!page) {
+    return {
+      title: "Page Not Found",
+    };
+  }
+
+  return {
+    title: `${page.title} | Frontend System Design`,
+    description: page.description || undefined,
+  };
+}
+
+export async function generateStaticParams() {
+  const pages = await listPublishedPages();
+  return pages.map((page) => ({
+    slug: page.slug.split("/"),
+  }));
+}
 
 export default async function PageBySlug({
   params,
@@ -15,17 +48,45 @@ export default async function PageBySlug({
     notFound();
   }
 
+  // Lexical JSON from Payload matches the serialized editor state shape
+  const content = page.content as SerializedEditorState | null | undefined;
+  const hasToc = extractHeadings(content).length > 0;
+
   return (
-    <article className="space-y-6">
-      <h1 className="text-4xl font-bold">{page.title}</h1>
-      {page.content && (
-        <div className="prose dark:prose-invert max-w-none">
-          <p className="text-gray-500 dark:text-gray-400 italic">
-            Rich text content will be rendered here. For now, this is a
-            placeholder.
-          </p>
+    <div
+      className={
+        hasToc
+          ? "grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-6 xl:gap-8"
+          : "max-w-4xl mx-auto"
+      }
+    >
+      <article className="min-w-0 space-y-6">
+        <div className="space-y-3">
+          <h1 className="text-4xl md:text-5xl font-bold leading-tight">
+            {page.title}
+          </h1>
+          {page.description && (
+            <p className="text-xl text-gray-600 dark:text-gray-400 leading-relaxed">
+              {page.description}
+            </p>
+          )}
         </div>
+
+        {content && (
+          <Prose>
+            <RichTextRenderer content={content} />
+          </Prose>
+        )}
+      </article>
+
+      {/* Right Rail: Table of Contents (Desktop) */}
+      {hasToc && (
+        <aside className="hidden lg:block">
+          <div className="sticky top-24">
+            <TableOfContents content={content} />
+          </div>
+        </aside>
       )}
-    </article>
+    </div>
   );
 }
@@ -1,18 +1,26 @@
 import type { ReactNode } from "react";
+import { draftMode } from "next/headers";
 import { Header } from "@/components/layout/Header";
+import { PreviewBanner } from "@/components/layout/PreviewBanner";
+import { ProgressProvider } from "@/components/progress/ProgressProvider";
 
 export default async function SiteLayout({
   children,
 }: {
   children: ReactNode;
 }) {
+  const { isEnabled: isPreview } = await draftMode();
+
   return (
     <div className="min-h-screen flex flex-col bg-white dark:bg-gray-950">
+      {isPreview && <PreviewBanner />}
       <Header />
 
       {/* Main Content */}
       <main className="flex-1 min-w-0">
-        <div className="container mx-auto px-4 py-8 max-w-7xl">{children}</div>
+        <div className="container mx-auto px-4 py-8 max-w-7xl">
+          <ProgressProvider>{children}</ProgressProvider>
+        </div>
       </main>
     </div>
   );
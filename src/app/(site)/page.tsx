@@ -15,6 +15,7 @@ export default async function HomePage() {
     slug: string;
     order: number;
     summary: string | null;
+    sectionCount: number;
   }> = [];
   let error: string | null = null;
 
@@ -26,6 +27,7 @@ export default async function HomePage() {
       slug: m.slug,
       order: m.order,
       summary: m.summary ?? null,
+      sectionCount: m.sections?.length ?? 0,
     }));
   } catch (e) {
     error = "Failed to load modules";
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import { Search, ChevronRight } from "lucide-react";
+import type { ResourceCategory, ResourceListItem } from "@/lib/types";
+import { RESOURCE_CATEGORY_LABELS, getCategoryColor } from "@/lib/resources";
+
+interface ResourcesIndexClientProps {
+  resources: ResourceListItem[];
+}
+
+export function ResourcesIndexClient({ resources }: ResourcesIndexClientProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [category, setCategory] = useState<ResourceCategory | null>(null);
+
+  // Only offer categories that actually have resources
+  const availableCategories = useMemo(
+    () =>
+      (Object.keys(RESOURCE_CATEGORY_LABELS) as ResourceCategory[]).filter(
+        (c) => resources.some((r) => r.category === c)
+      ),
+    [resources]
+  );
+
+  const filteredResources = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return resources.filter((resource) => {
+      if (category && resource.category !== category) return false;
+      if (!query) return true;
+      return (
+        resource.title.toLowerCase().includes(query) ||
+        resource.summary?.toLowerCase().includes(query) ||
+        resource.resourceNumber.toString().includes(query)
+      );
+    });
+  }, [resources, searchQuery, category]);
+
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="space-y-4">
+        <h1 className="text-4xl md:text-5xl font-bold">Resources</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          A reading library to go deeper than the curriculum: articles, talks,
+          specs, and books we keep coming back to.
+        </p>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search resources..."
+          className="w-full pl-12 pr-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
+        />
+      </div>
+
+      {/* Category filter */}
+      {availableCategories.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setCategory(null)}
+            aria-pressed={category === null}
+            className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+              category === null
+                ? "bg-blue-600 text-white border-blue-600"
+                : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+          >
+            All
+          </button>
+          {availableCategories.map((c) => (
+            <button
+              key={c}
+              onClick={() => setCategory(c)}
+              aria-pressed={category === c}
+              className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+                category === c
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+            >
+              {RESOURCE_CATEGORY_LABELS[c]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Resources List */}
+      {filteredResources.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">
+            {searchQuery
+              ? `No resources found matching "${searchQuery}"`
+              : "No resources in this category yet"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredResources.map((resource) => (
+            <Link
+              key={resource.id}
+              href={`/resources/${resource.resourceNumber}`}
+              className="group block p-6 border border-gray-200 dark:border-gray-800 rounded-xl hover:border-blue-300 dark:hover:border-blue-700 hover:shadow-md transition-all bg-white dark:bg-gray-900"
+            >
+              <div className="flex items-start gap-4">
+                {/* Number Badge */}
+                <div className="flex-shrink-0 w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center font-bold text-lg text-gray-600 dark:text-gray-400 group-hover:bg-blue-50 dark:group-hover:bg-blue-900/30 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                  {resource.resourceNumber}
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between gap-3 mb-2">
+                    <h3 className="font-semibold text-xl group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                      {resource.title}
+                    </h3>
+                    <span
+                      className={`flex-shrink-0 px-2 py-1 text-xs font-medium rounded ${getCategoryColor(
+                        resource.category
+                      )}`}
+                    >
+                      {RESOURCE_CATEGORY_LABELS[resource.category]}
+                    </span>
+                  </div>
+                  {resource.summary && (
+                    <p className="text-gray-600 dark:text-gray-400 mb-3">
+                      {resource.summary}
+                    </p>
+                  )}
+                </div>
+
+                {/* Arrow */}
+                <ChevronRight className="flex-shrink-0 w-5 h-5 text-gray-400 dark:text-gray-600 group-hover:text-blue-600 dark:group-hover:text-blue-400 group-hover:translate-x-1 transition-all" />
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Count */}
+      <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+        Showing {filteredResources.length} of {resources.length} resources
+      </div>
+    </div>
+  );
+}
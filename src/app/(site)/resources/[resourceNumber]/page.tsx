@@ -0,0 +1,137 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import type { SerializedEditorState } from "lexical";
+import { ChevronLeft, ExternalLink } from "lucide-react";
+import { getResourceByNumber, listResources } from "@/lib/content";
+import {
+  RESOURCE_CATEGORY_LABELS,
+  getCategoryColor,
+  isHttpUrl,
+} from "@/lib/resources";
+import { RichTextRenderer } from "@/components/content/RichTextRenderer";
+import { Prose } from "@/components/content/Prose";
+
+function parseResourceNumber(value: string) {
+  const resourceNumber = Number(value);
+  return Number.isInteger(resourceNumber) ? resourceNumber : null;
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ resourceNumber: string }>;
+}): Promise<Metadata> {
+  const { resourceNumber } = await params;
+  const parsed = parseResourceNumber(resourceNumber);
+  const resource = parsed !== null ? await getResourceByNumber(parsed) : null;
+
+  if (!resource) {
+    return {
+      title: "Resource Not Found",
+    };
+  }
+
+  return {
+    title: `${resource.title} | Frontend System Design`,
+    description: resource.summary || `Resource #${resource.resourceNumber}`,
+  };
+}
+
+export async function generateStaticParams() {
+  const resources = await listResources();
+  return resources.map((resource) => ({
+    resourceNumber: resource.resourceNumber.toString(),
+  }));
+}
+
+export default async function ResourcePage({
+  params,
+}: {
+  params: Promise<{ resourceNumber: string }>;
+}) {
+  const { resourceNumber } = await params;
+  const parsed = parseResourceNumber(resourceNumber);
+
+  if (parsed === null) {
+    notFound();
+  }
+
+  const resource = await getResourceByNumber(parsed);
+
+  if (!resource) {
+    notFound();
+  }
+
+  return (
+    <article className="space-y-8 max-w-4xl mx-auto">
+      <Link
+        href="/resources"
+        className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        All resources
+      </Link>
+
+      {/* Header */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="px-2 py-1 text-xs font-semibold bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
+            Resource {resource.resourceNumber}
+          </span>
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded ${getCategoryColor(
+              resource.category ?? "other"
+            )}`}
+          >
+            {RESOURCE_CATEGORY_LABELS[resource.category ?? "other"]}
+          </span>
+        </div>
+        <h1 className="text-4xl md:text-5xl font-bold leading-tight">
+          {resource.title}
+        </h1>
+        {resource.summary && (
+          <p className="text-xl text-gray-600 dark:text-gray-400 leading-relaxed">
+            {resource.summary}
+          </p>
+        )}
+      </div>
+
+      {/* Body */}
+      {resource.body && (
+        <Prose>
+          <RichTextRenderer content={resource.body as SerializedEditorState} />
+        </Prose>
+      )}
+
+      {/* References */}
+      {resource.references && resource.references.length > 0 && (
+        <section className="pt-8 border-t border-gray-200 dark:border-gray-800">
+          <h2 className="text-2xl font-bold mb-4">References</h2>
+          <ul className="space-y-2">
+            {resource.references.map((reference, index) => (
+              <li key={reference.id || index}>
+                {/* Saved before URLs were validated: show, but don't link */}
+                {isHttpUrl(reference.url) ? (
+                  <a
+                    href={reference.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {reference.label}
+                    <ExternalLink className="w-4 h-4 flex-shrink-0" />
+                  </a>
+                ) : (
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {reference.label}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,52 @@
+import { listResources } from "@/lib/content";
+import { EmptyState } from "@/components/ui/EmptyState";
+import type { ResourceListItem } from "@/lib/types";
+import { ResourcesIndexClient } from "./ResourcesIndexClient";
+
+export const metadata = {
+  title: "Resources | Frontend System Design",
+  description:
+    "Curated reading library for Frontend System Design: articles, talks, specs, and books that go deeper than the curriculum.",
+};
+
+export default async function ResourcesPage() {
+  let resources: ResourceListItem[] = [];
+  let error: string | null = null;
+
+  try {
+    const result = await listResources();
+    resources = result.map((r) => ({
+      id: r.id,
+      title: r.title,
+      resourceNumber: r.resourceNumber,
+      category: r.category ?? "other",
+      summary: r.summary ?? null,
+    }));
+  } catch (e) {
+    error = "Failed to load resources";
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-8 max-w-4xl mx-auto">
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (resources.length === 0) {
+    return (
+      <div className="space-y-8 max-w-4xl mx-auto">
+        <EmptyState
+          title="No resources available"
+          description="Resources will appear here once they're added to the CMS."
+          action={{ label: "Go to Admin", href: "/admin" }}
+        />
+      </div>
+    );
+  }
+
+  return <ResourcesIndexClient resources={resources} />;
+}
@@ -1,28 +1,134 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import {
+  useState,
+  useMemo,
+  useEffect,
+  useCallback,
+  type ReactNode,
+} from "react";
 import Link from "next/link";
-import { Search, ChevronRight } from "lucide-react";
+import { Search, ChevronRight, Network, X } from "lucide-react";
+import { SearchResults } from "@/components/ui/SearchResults";
+import { useProgress } from "@/components/progress/ProgressProvider";
+import { ProgressBadge } from "@/components/progress/ProgressBadge";
+import { getCompletionRatio } from "@/lib/progress";
+import {
+  DIFFICULTIES,
+  EMPTY_TOPIC_FILTERS,
+  READING_TIME_BUCKETS,
+  hasActiveFacets,
+  matchesTopicFilters,
+  serializeTopicFilters,
+  type ReadingTimeBucket,
+  type TopicFilters,
+} from "@/lib/topicFilters";
 import type { TopicListItem } from "@/lib/types";
+import type { SearchResult } from "@/modules/search/ranking";
 
 interface TopicsIndexClientProps {
   topics: TopicListItem[];
+  initialFilters?: TopicFilters;
 }
 
-export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
-  const [searchQuery, setSearchQuery] = useState("");
+export function TopicsIndexClient({
+  topics,
+  initialFilters = EMPTY_TOPIC_FILTERS,
+}: TopicsIndexClientProps) {
+  const [filters, setFilters] = useState<TopicFilters>(initialFilters);
+  const searchQuery = filters.query;
+  const { progress } = useProgress();
+  // Results are kept with the query they answer, so stale ones are never
+  // shown for a newer (or too short) query
+  const [contentSearch, setContentSearch] = useState<{
+    query: string;
+    results: SearchResult[];
+  }>({ query: "", results: [] });
+  const trimmedQuery = searchQuery.trim();
+  const contentResults =
+    trimmedQuery.length >= 2 && contentSearch.query === trimmedQuery
+      ? contentSearch.results
+      : [];
 
-  const filteredTopics = useMemo(() => {
-    if (!searchQuery.trim()) return topics;
+  // Search inside module content (sections, callouts, examples) server-side
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) return;
 
-    const query = searchQuery.toLowerCase();
-    return topics.filter(
-      (topic) =>
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(query)}&limit=10`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) return;
+        const data: { results: SearchResult[] } = await response.json();
+        setContentSearch({ query, results: data.results });
+      } catch {
+        // Aborted or offline: keep the title matches only
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  // Keep the URL in sync so filtered views can be shared and bookmarked
+  useEffect(() => {
+    const query = serializeTopicFilters(filters);
+    const url = query ? `?${query}` : window.location.pathname;
+    window.history.replaceState(null, "", url);
+  }, [filters]);
+
+  const matchesQuery = useCallback(
+    (topic: TopicListItem) => {
+      if (!searchQuery.trim()) return true;
+      const query = searchQuery.toLowerCase();
+      return (
         topic.title.toLowerCase().includes(query) ||
-        topic.summary?.toLowerCase().includes(query) ||
+        Boolean(topic.summary?.toLowerCase().includes(query)) ||
         topic.order.toString().includes(query)
+      );
+    },
+    [searchQuery]
+  );
+
+  const filteredTopics = useMemo(
+    () =>
+      topics.filter(
+        (topic) => matchesQuery(topic) && matchesTopicFilters(topic, filters)
+      ),
+    [topics, filters, matchesQuery]
+  );
+
+  // How many topics a facet value would show, given every other filter
+  const countWith = (override: Partial<TopicFilters>) =>
+    topics.filter(
+      (topic) =>
+        matchesQuery(topic) &&
+        matchesTopicFilters(topic, { ...filters, ...override })
+    ).length;
+
+  const availableTags = useMemo(() => {
+    const bySlug = new Map<string, string>();
+    topics.forEach((topic) =>
+      topic.tags?.forEach((tag) => bySlug.set(tag.slug, tag.label))
     );
-  }, [topics, searchQuery]);
+    return Array.from(bySlug, ([slug, label]) => ({ slug, label })).sort(
+      (a, b) => a.label.localeCompare(b.label)
+    );
+  }, [topics]);
+
+  const toggleValue = <T,>(values: T[], value: T) =>
+    values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value];
+
+  const clearFacets = () =>
+    setFilters((prev) => ({ ...EMPTY_TOPIC_FILTERS, query: prev.query }));
 
   const getDifficultyColor = (difficulty?: string) => {
     switch (difficulty) {
@@ -46,6 +152,13 @@ export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
           Complete curriculum for Frontend System Design. Each module includes
           detailed theory and interactive examples.
         </p>
+        <Link
+          href="/topics/map"
+          className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Network className="w-4 h-4" />
+          View the curriculum map
+        </Link>
       </div>
 
       {/* Search */}
@@ -54,19 +167,115 @@ export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
         <input
           type="text"
           value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
+          onChange={(e) =>
+            setFilters((prev) => ({ ...prev, query: e.target.value }))
+          }
           placeholder="Search topics..."
           className="w-full pl-12 pr-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
         />
       </div>
 
+      {/* Facets */}
+      <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg bg-gray-50 dark:bg-gray-800/50 space-y-3">
+        <FacetRow label="Difficulty">
+          {DIFFICULTIES.map((difficulty) => (
+            <FacetChip
+              key={difficulty}
+              active={filters.difficulty.includes(difficulty)}
+              count={countWith({ difficulty: [difficulty] })}
+              onClick={() =>
+                setFilters((prev) => ({
+                  ...prev,
+                  difficulty: toggleValue(prev.difficulty, difficulty),
+                }))
+              }
+            >
+              <span className="capitalize">{difficulty}</span>
+            </FacetChip>
+          ))}
+        </FacetRow>
+
+        {availableTags.length > 0 && (
+          <FacetRow label="Tags">
+            {availableTags.map((tag) => (
+              <FacetChip
+                key={tag.slug}
+                active={filters.tags.includes(tag.slug)}
+                count={countWith({ tags: [tag.slug] })}
+                onClick={() =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    tags: toggleValue(prev.tags, tag.slug),
+                  }))
+                }
+              >
+                {tag.label}
+              </FacetChip>
+            ))}
+          </FacetRow>
+        )}
+
+        <FacetRow label="Reading time">
+          {(
+            Object.entries(READING_TIME_BUCKETS) as Array<
+              [
+                ReadingTimeBucket,
+                (typeof READING_TIME_BUCKETS)[ReadingTimeBucket],
+              ]
+            >
+          ).map(([bucket, { label }]) => (
+            <FacetChip
+              key={bucket}
+              active={filters.readingTime === bucket}
+              count={countWith({ readingTime: bucket })}
+              onClick={() =>
+                setFilters((prev) => ({
+                  ...prev,
+                  readingTime: prev.readingTime === bucket ? null : bucket,
+                }))
+              }
+            >
+              {label}
+            </FacetChip>
+          ))}
+        </FacetRow>
+
+        <div className="flex items-center justify-between gap-4">
+          <FacetChip
+            active={filters.hasExamples}
+            count={countWith({ hasExamples: true })}
+            onClick={() =>
+              setFilters((prev) => ({
+                ...prev,
+                hasExamples: !prev.hasExamples,
+              }))
+            }
+          >
+            Has interactive examples
+          </FacetChip>
+          {hasActiveFacets(filters) && (
+            <button
+              onClick={clearFacets}
+              className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
       {/* Topics List */}
       {filteredTopics.length === 0 ? (
-        <div className="text-center py-12">
-          <p className="text-gray-500 dark:text-gray-400">
-            No topics found matching &quot;{searchQuery}&quot;
-          </p>
-        </div>
+        contentResults.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              {searchQuery.trim()
+                ? `No topics found matching "${searchQuery}"`
+                : "No topics match these filters"}
+            </p>
+          </div>
+        )
       ) : (
         <div className="space-y-3">
           {filteredTopics.map((topic) => (
@@ -87,21 +296,41 @@ export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
                     <h3 className="font-semibold text-xl group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
                       {topic.title}
                     </h3>
-                    {topic.difficulty && (
-                      <span
-                        className={`flex-shrink-0 px-2 py-1 text-xs font-medium rounded ${getDifficultyColor(
-                          topic.difficulty
-                        )}`}
-                      >
-                        {topic.difficulty}
-                      </span>
-                    )}
+                    <div className="flex-shrink-0 flex items-center gap-2">
+                      <ProgressBadge
+                        ratio={getCompletionRatio(
+                          progress[topic.id],
+                          topic.sectionCount ?? 0
+                        )}
+                      />
+                      {topic.difficulty && (
+                        <span
+                          className={`flex-shrink-0 px-2 py-1 text-xs font-medium rounded ${getDifficultyColor(
+                            topic.difficulty
+                          )}`}
+                        >
+                          {topic.difficulty}
+                        </span>
+                      )}
+                    </div>
                   </div>
                   {topic.summary && (
                     <p className="text-gray-600 dark:text-gray-400 mb-3">
                       {topic.summary}
                     </p>
                   )}
+                  {topic.tags && topic.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {topic.tags.map((tag) => (
+                        <span
+                          key={tag.slug}
+                          className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+                        >
+                          {tag.label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Arrow */}
@@ -112,6 +341,16 @@ export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
         </div>
       )}
 
+      {/* Matches inside module content */}
+      {contentResults.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+            Matches in module content
+          </h2>
+          <SearchResults results={contentResults} />
+        </section>
+      )}
+
       {/* Count */}
       <div className="text-center text-sm text-gray-500 dark:text-gray-400">
         Showing {filteredTopics.length} of {topics.length} topics
@@ -119,3 +358,43 @@ export function TopicsIndexClient({ topics }: TopicsIndexClientProps) {
     </div>
   );
 }
+
+function FacetRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-28 text-sm font-medium text-gray-600 dark:text-gray-400">
+        {label}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+interface FacetChipProps {
+  active: boolean;
+  count: number;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function FacetChip({ active, count, onClick, children }: FacetChipProps) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      disabled={!active && count === 0}
+      className={`px-3 py-1.5 text-sm border rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        active
+          ? "bg-blue-600 text-white border-blue-600"
+          : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+      }`}
+    >
+      {children}
+      <span
+        className={`ml-1.5 text-xs ${active ? "opacity-80" : "opacity-60"}`}
+      >
+        {count}
+      </span>
+    </button>
+  );
+}
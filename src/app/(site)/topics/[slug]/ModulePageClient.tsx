@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { RichTextRenderer } from "@/components/content/RichTextRenderer";
 import { Prose } from "@/components/content/Prose";
@@ -8,27 +8,140 @@ import { AnimatedExample } from "@/components/animated-examples/AnimatedExample"
 import { TableOfContents } from "@/components/ui/TableOfContents";
 import { TopicNavigation } from "@/components/ui/TopicNavigation";
 import { EmptyState } from "@/components/ui/EmptyState";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  Circle,
+  Info,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { useProgress } from "@/components/progress/ProgressProvider";
+import { ModuleQuiz } from "@/components/quiz/ModuleQuiz";
+import {
+  exampleAnchorId,
+  parseExampleHash,
+  type ExampleLink,
+} from "@/lib/exampleLinks";
 import type {
   CurriculumModule,
   AnimatedExample as AnimatedExampleType,
+  PublicQuiz,
 } from "@/lib/types";
 
 interface ModulePageClientProps {
   module: CurriculumModule;
+  quiz?: PublicQuiz | null;
+  prerequisites?: Array<{ id: string; title: string; slug: string }>;
   prevModule?: { title: string; slug: string } | null;
   nextModule?: { title: string; slug: string } | null;
 }
 
 export function ModulePageClient({
   module,
+  quiz,
+  prerequisites = [],
   prevModule,
   nextModule,
 }: ModulePageClientProps) {
   const [isRightRailOpen, setIsRightRailOpen] = useState(false);
   const { reduced } = useMotionPrefs();
+  const { progress, setSectionDone, recordVisit } = useProgress();
+  const moduleProgress = progress[module.id];
+  const completedSections = moduleProgress?.completedSections || [];
+
+  const unmetPrerequisites = prerequisites.filter(
+    (prerequisite) => !progress[prerequisite.id]?.completedAt
+  );
+
+  const sectionKeys = useMemo(
+    () =>
+      (module.sections || []).map((section, index) =>
+        String(section.key || index)
+      ),
+    [module.sections]
+  );
+
+  // Automatic completion: a section counts as done once it has been
+  // scrolled through and every example in it was stepped to the end
+  const [scrolledSections, setScrolledSections] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [finishedExamples, setFinishedExamples] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [autoCompleted, setAutoCompleted] = useState<Set<string>>(
+    () => new Set()
+  );
+
+  // Deep link to an example step (#example-<exampleId>:step-4)
+  const [linkedExample, setLinkedExample] = useState<ExampleLink | null>(null);
+
+  useEffect(() => {
+    const applyHash = () => {
+      const link = parseExampleHash(window.location.hash);
+      if (!link) return;
+      setLinkedExample(link);
+      // Wait for the example to re-render with the linked step
+      requestAnimationFrame(() => {
+        document
+          .getElementById(exampleAnchorId(link.exampleId))
+          ?.scrollIntoView();
+      });
+    };
+
+    applyHash();
+    window.addEventListener("hashchange", applyHash);
+    return () => window.removeEventListener("hashchange", applyHash);
+  }, []);
+
+  const handleExampleComplete = useCallback((exampleId: string) => {
+    setFinishedExamples((prev) =>
+      prev.has(exampleId) ? prev : new Set(prev).add(exampleId)
+    );
+  }, []);
+
+  // Observe section end markers (scroll-through) and section bodies (last read)
+  useEffect(() => {
+    const endObserver = new IntersectionObserver((entries) => {
+      const reached = entries
+        .filter((entry) => entry.isIntersecting)
+        .map((entry) => (entry.target as HTMLElement).dataset.sectionEnd!);
+      if (reached.length === 0) return;
+      setScrolledSections((prev) => {
+        const next = new Set(prev);
+        reached.forEach((key) => next.add(key));
+        return next.size === prev.size ? prev : next;
+      });
+    });
+
+    // Fires when a section crosses the upper part of the viewport
+    const visitObserver = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.find((entry) => entry.isIntersecting);
+        if (visible) {
+          recordVisit(
+            module.id,
+            (visible.target as HTMLElement).dataset.sectionKey!
+          );
+        }
+      },
+      { rootMargin: "-20% 0px -70% 0px" }
+    );
+
+    document
+      .querySelectorAll<HTMLElement>("[data-section-end]")
+      .forEach((el) => endObserver.observe(el));
+    document
+      .querySelectorAll<HTMLElement>("[data-section-key]")
+      .forEach((el) => visitObserver.observe(el));
+
+    return () => {
+      endObserver.disconnect();
+      visitObserver.disconnect();
+    };
+  }, [module.id, sectionKeys, recordVisit]);
 
   // Build TOC from sections and their richText content
   const tocContent = useMemo(() => {
@@ -88,6 +201,39 @@ export function ModulePageClient({
     return map;
   }, [module.sections]);
 
+  // Example IDs embedded in each section, for automatic completion
+  const sectionExampleIds = useMemo(() => {
+    const map = new Map<string, string[]>();
+    (module.sections || []).forEach((section, index) => {
+      const ids = (section.embeddedExamples || [])
+        .map((emb: any) =>
+          typeof emb.exampleId === "object" ? emb.exampleId?.exampleId : null
+        )
+        .filter(Boolean) as string[];
+      map.set(String(section.key || index), ids);
+    });
+    return map;
+  }, [module.sections]);
+
+  useEffect(() => {
+    sectionKeys.forEach((key) => {
+      if (!scrolledSections.has(key) || autoCompleted.has(key)) return;
+      const exampleIds = sectionExampleIds.get(key) || [];
+      if (exampleIds.every((id) => finishedExamples.has(id))) {
+        setAutoCompleted((prev) => new Set(prev).add(key));
+        setSectionDone(module.id, key, true, sectionKeys);
+      }
+    });
+  }, [
+    module.id,
+    sectionKeys,
+    sectionExampleIds,
+    scrolledSections,
+    finishedExamples,
+    autoCompleted,
+    setSectionDone,
+  ]);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-6 xl:gap-8">
       {/* Main Column: Content Area */}
@@ -103,6 +249,22 @@ export function ModulePageClient({
                 {module.readingTimeMins} min read
               </span>
             )}
+            {moduleProgress?.completedAt ? (
+              <span className="flex items-center gap-1 px-2 py-1 text-xs font-semibold bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
+                <CheckCircle2 className="w-3.5 h-3.5" />
+                Completed
+              </span>
+            ) : (
+              completedSections.length > 0 && (
+                <span className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400">
+                  {
+                    sectionKeys.filter((key) => completedSections.includes(key))
+                      .length
+                  }{" "}
+                  of {sectionKeys.length} sections done
+                </span>
+              )
+            )}
           </div>
           <h1 className="text-4xl md:text-5xl font-bold leading-tight">
             {module.title}
@@ -114,19 +276,70 @@ export function ModulePageClient({
           )}
         </div>
 
+        {/* Prerequisite hint */}
+        {unmetPrerequisites.length > 0 && (
+          <div className="flex items-start gap-2 p-3 border border-yellow-300 dark:border-yellow-700 rounded bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+            <Info className="flex-shrink-0 w-4 h-4 mt-0.5" />
+            <p>
+              You should read{" "}
+              {unmetPrerequisites.map((prerequisite, index) => (
+                <span key={prerequisite.id}>
+                  {index > 0 &&
+                    (index === unmetPrerequisites.length - 1 ? " and " : ", ")}
+                  <Link
+                    href={`/topics/${prerequisite.slug}`}
+                    className="font-semibold underline hover:no-underline"
+                  >
+                    {prerequisite.title}
+                  </Link>
+                </span>
+              ))}{" "}
+              first.
+            </p>
+          </div>
+        )}
+
         {/* Sections */}
         {module.sections && module.sections.length > 0 ? (
           <div className="space-y-8">
             {module.sections.map((section, index) => {
-              const sectionId = `section-${section.key || index}`;
+              const sectionKey = String(section.key || index);
+              const sectionId = `section-${sectionKey}`;
+              const isDone = completedSections.includes(sectionKey);
 
               return (
                 <section
                   key={section.key || index}
                   id={sectionId}
+                  data-section-key={sectionKey}
                   className="scroll-mt-24"
                 >
-                  <h2 className="text-3xl font-bold mb-4">{section.heading}</h2>
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <h2 className="text-3xl font-bold">{section.heading}</h2>
+                    <button
+                      onClick={() =>
+                        setSectionDone(
+                          module.id,
+                          sectionKey,
+                          !isDone,
+                          sectionKeys
+                        )
+                      }
+                      aria-pressed={isDone}
+                      className={`flex-shrink-0 mt-1 flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded transition-colors ${
+                        isDone
+                          ? "border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300"
+                          : "border-gray-300 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      }`}
+                    >
+                      {isDone ? (
+                        <CheckCircle2 className="w-4 h-4" />
+                      ) : (
+                        <Circle className="w-4 h-4" />
+                      )}
+                      {isDone ? "Done" : "Mark as done"}
+                    </button>
+                  </div>
 
                   {/* Body content */}
                   {section.body && (
@@ -212,13 +425,26 @@ export function ModulePageClient({
                                   ) || []
                                 }
                                 spec={example.spec}
+                                highlighted={example.highlighted}
                                 controls={example.controls}
+                                onComplete={() =>
+                                  handleExampleComplete(example.exampleId)
+                                }
+                                linkedIndex={
+                                  linkedExample &&
+                                  linkedExample.exampleId === example.exampleId
+                                    ? linkedExample.index
+                                    : undefined
+                                }
                               />
                             );
                           }
                         )}
                       </div>
                     )}
+
+                  {/* Scroll-through marker for automatic completion */}
+                  <div data-section-end={sectionKey} aria-hidden="true" />
                 </section>
               );
             })}
@@ -231,6 +457,11 @@ export function ModulePageClient({
           />
         )}
 
+        {/* Check your understanding */}
+        {quiz && quiz.questions.length > 0 && (
+          <ModuleQuiz quiz={quiz} moduleId={module.id} />
+        )}
+
         <TopicNavigation
           prevTopic={prevModule || undefined}
           nextTopic={nextModule || undefined}
@@ -1,9 +1,12 @@
 import { notFound } from "next/navigation";
+import { draftMode } from "next/headers";
 import {
   getCurriculumModuleBySlug,
   getAdjacentModules,
+  getQuizForModule,
   listCurriculumModules,
 } from "@/lib/content";
+import { toRelationIds } from "@/modules/curriculum/prerequisites";
 import { ModulePageClient } from "./ModulePageClient";
 import type { Metadata } from "next";
 
@@ -13,7 +16,8 @@ export async function generateMetadata({
   params: Promise<{ slug: string }>;
 }): Promise<Metadata> {
   const { slug } = await params;
-  const module = await getCurriculumModuleBySlug(slug);
+  const { isEnabled: draft } = await draftMode();
+  const module = await getCurriculumModuleBySlug(slug, draft);
 
   if (!module) {
     return {
@@ -40,10 +44,11 @@ export default async function TopicPage({
   params: Promise<{ slug: string }>;
 }) {
   const { slug } = await params;
+  const { isEnabled: draft } = await draftMode();
   // Fetch modules list once (cached) and use for both module and adjacent lookup
   const [allModules, module] = await Promise.all([
-    listCurriculumModules(),
-    getCurriculumModuleBySlug(slug),
+    listCurriculumModules(draft),
+    getCurriculumModuleBySlug(slug, draft),
   ]);
 
   if (!module) {
@@ -52,10 +57,19 @@ export default async function TopicPage({
 
   // Use modules list for adjacent lookup (no additional API call)
   const adjacent = getAdjacentModules(slug, allModules);
+  const quiz = await getQuizForModule(module.id);
+  // Resolve against the (published or draft) module list so hidden modules
+  // are never suggested
+  const prerequisiteIds = toRelationIds(module.prerequisites);
+  const prerequisites = allModules
+    .filter((m) => prerequisiteIds.includes(m.id))
+    .map((m) => ({ id: m.id, title: m.title, slug: m.slug }));
 
   return (
     <ModulePageClient
       module={module as any}
+      quiz={quiz}
+      prerequisites={prerequisites}
       prevModule={
         adjacent.prev
           ? { title: adjacent.prev.title, slug: adjacent.prev.slug }
@@ -0,0 +1,139 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronRight } from "lucide-react";
+import { Flow2DCanvas } from "@/components/animated-examples/Flow2DCanvas";
+import { useProgress } from "@/components/progress/ProgressProvider";
+import { ProgressBadge } from "@/components/progress/ProgressBadge";
+import { getCompletionRatio } from "@/lib/progress";
+
+export interface MapModule {
+  id: string;
+  title: string;
+  slug: string;
+  order: number;
+  sectionCount: number;
+  prerequisites: string[];
+  // Depth in the prerequisite graph (0 = no prerequisites)
+  level: number;
+  x: number;
+  y: number;
+}
+
+interface CurriculumMapClientProps {
+  modules: MapModule[];
+}
+
+export function CurriculumMapClient({ modules }: CurriculumMapClientProps) {
+  const router = useRouter();
+  const { progress } = useProgress();
+
+  const nodes = useMemo(
+    () =>
+      modules.map((m) => ({
+        id: m.id,
+        label: String(m.order),
+        x: m.x,
+        y: m.y,
+      })),
+    [modules]
+  );
+
+  const edges = useMemo(
+    () =>
+      modules.flatMap((m) =>
+        m.prerequisites.map((prerequisiteId) => ({
+          id: `${prerequisiteId}-${m.id}`,
+          from: prerequisiteId,
+          to: m.id,
+        }))
+      ),
+    [modules]
+  );
+
+  // Completed modules (and the edges between them) are highlighted
+  const completedIds = modules
+    .filter((m) => progress[m.id]?.completedAt)
+    .map((m) => m.id);
+
+  const levels = useMemo(() => {
+    const grouped = new Map<number, MapModule[]>();
+    modules.forEach((m) => {
+      grouped.set(m.level, [...(grouped.get(m.level) || []), m]);
+    });
+    return Array.from(grouped.entries()).sort(([a], [b]) => a - b);
+  }, [modules]);
+
+  const handleNodeClick = (nodeId: string) => {
+    const target = modules.find((m) => m.id === nodeId);
+    if (target) router.push(`/topics/${target.slug}`);
+  };
+
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="space-y-4">
+        <h1 className="text-4xl md:text-5xl font-bold">Curriculum Map</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          How the modules build on each other. Arrows point from a module to the
+          modules that depend on it; completed modules are highlighted.
+        </p>
+      </div>
+
+      {/* Graph */}
+      <div className="border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 p-6">
+        <Flow2DCanvas
+          nodes={nodes}
+          edges={edges}
+          activeNodes={completedIds}
+          activeEdges={[]}
+          onNodeClick={handleNodeClick}
+          ariaLabel="Curriculum map"
+        />
+      </div>
+
+      {/* Reading order */}
+      <div className="space-y-6">
+        {levels.map(([level, levelModules]) => (
+          <section key={level} className="space-y-3">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              {level === 0 ? "Start here" : `Step ${level + 1}`}
+            </h2>
+            {levelModules.map((m) => (
+              <Link
+                key={m.id}
+                href={`/topics/${m.slug}`}
+                className="flex items-center gap-4 p-4 border border-gray-200 dark:border-gray-800 rounded-xl hover:border-blue-300 dark:hover:border-blue-700 hover:shadow-md transition-all bg-white dark:bg-gray-900"
+              >
+                <span className="flex-shrink-0 w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 flex items-center justify-center font-semibold">
+                  {m.order}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block font-semibold">{m.title}</span>
+                  {m.prerequisites.length > 0 && (
+                    <span className="block text-sm text-gray-600 dark:text-gray-400">
+                      After{" "}
+                      {m.prerequisites
+                        .map(
+                          (id) =>
+                            modules.find((other) => other.id === id)?.title
+                        )
+                        .filter(Boolean)
+                        .join(", ")}
+                    </span>
+                  )}
+                </span>
+                <ProgressBadge
+                  ratio={getCompletionRatio(progress[m.id], m.sectionCount)}
+                />
+                <ChevronRight className="flex-shrink-0 w-5 h-5 text-gray-400" />
+              </Link>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
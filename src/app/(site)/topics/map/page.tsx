@@ -0,0 +1,80 @@
+import { listCurriculumModules } from "@/lib/content";
+import { EmptyState } from "@/components/ui/EmptyState";
+import {
+  buildPrerequisiteGraph,
+  computePrerequisiteLevels,
+} from "@/modules/curriculum/prerequisites";
+import { CurriculumMapClient, type MapModule } from "./CurriculumMapClient";
+
+export const metadata = {
+  title: "Curriculum Map | Frontend System Design",
+  description:
+    "How the Frontend System Design modules build on each other, and which to read first.",
+};
+
+// Grid spacing for the map layout (SVG units)
+const COLUMN_WIDTH = 180;
+const ROW_HEIGHT = 110;
+const PADDING = 60;
+
+export default async function CurriculumMapPage() {
+  let modules: MapModule[] = [];
+  let error: string | null = null;
+
+  try {
+    const result = await listCurriculumModules();
+    const graph = buildPrerequisiteGraph(
+      result.map((m) => ({
+        id: m.id,
+        prerequisites: m.prerequisites,
+      }))
+    );
+    const levels = computePrerequisiteLevels(graph);
+
+    // One column per level; modules stack in curriculum order within it
+    const rows = new Map<number, number>();
+    modules = result.map((m) => {
+      const level = levels.get(m.id) ?? 0;
+      const row = rows.get(level) ?? 0;
+      rows.set(level, row + 1);
+
+      return {
+        id: m.id,
+        title: m.title,
+        slug: m.slug,
+        order: m.order,
+        sectionCount: m.sections?.length ?? 0,
+        prerequisites: (graph.get(m.id) || []).filter((id) => graph.has(id)),
+        level,
+        x: PADDING + level * COLUMN_WIDTH,
+        y: PADDING + row * ROW_HEIGHT,
+      };
+    });
+  } catch (e) {
+    error = "Failed to load modules";
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-8 max-w-4xl mx-auto">
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (modules.length === 0) {
+    return (
+      <div className="space-y-8 max-w-4xl mx-auto">
+        <EmptyState
+          title="No modules available"
+          description="Modules will appear here once they're added to the CMS."
+          action={{ label: "Go to Admin", href: "/admin" }}
+        />
+      </div>
+    );
+  }
+
+  return <CurriculumMapClient modules={modules} />;
+}
@@ -1,5 +1,7 @@
 import { listCurriculumModules } from "@/lib/content";
 import { EmptyState } from "@/components/ui/EmptyState";
+import { parseTopicFilters } from "@/lib/topicFilters";
+import type { TopicListItem } from "@/lib/types";
 import { TopicsIndexClient } from "./TopicsIndexClient";
 
 export const metadata = {
@@ -8,14 +10,20 @@ export const metadata = {
     "Complete curriculum for Frontend System Design. 12 comprehensive modules covering theory and interactive examples.",
 };
 
-export default async function TopicsPage() {
-  let modules: Array<{
-    id: string;
-    title: string;
-    slug: string;
-    order: number;
-    summary: string | null;
-  }> = [];
+export default async function TopicsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const initialFilters = parseTopicFilters({
+    get: (name) => {
+      const value = params[name];
+      return (Array.isArray(value) ? value[0] : value) ?? null;
+    },
+  });
+
+  let modules: TopicListItem[] = [];
   let error: string | null = null;
 
   try {
@@ -26,6 +34,16 @@ export default async function TopicsPage() {
       slug: m.slug,
       order: m.order,
       summary: m.summary ?? null,
+      sectionCount: m.sections?.length ?? 0,
+      difficulty: m.difficulty ?? null,
+      readingTimeMins: m.readingTimeMins ?? null,
+      tags: (m.tags || [])
+        .filter((tag) => typeof tag === "object")
+        .map((tag) => ({ slug: tag.slug, label: tag.label })),
+      exampleCount: (m.sections || []).reduce(
+        (count, section) => count + (section.embeddedExamples?.length ?? 0),
+        0
+      ),
     }));
   } catch (e) {
     error = "Failed to load modules";
@@ -53,5 +71,5 @@ export default async function TopicsPage() {
     );
   }
 
-  return <TopicsIndexClient topics={modules} />;
+  return <TopicsIndexClient topics={modules} initialFilters={initialFilters} />;
 }
@@ -0,0 +1,16 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const redirectTo = searchParams.get("redirect");
+
+  (await draftMode()).disable();
+
+  // Only allow same-site relative redirects
+  redirect(
+    redirectTo?.startsWith("/") && !redirectTo.startsWith("//")
+      ? redirectTo
+      : "/"
+  );
+}
@@ -0,0 +1,40 @@
+import { draftMode, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextResponse } from "next/server";
+import { getPayloadClient } from "@/lib/payload";
+import { getCurriculumModuleBySlug } from "@/lib/content";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const secret = searchParams.get("secret");
+  const slug = searchParams.get("slug");
+
+  if (!process.env.PREVIEW_SECRET || secret !== process.env.PREVIEW_SECRET) {
+    return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+  }
+
+  if (!slug) {
+    return NextResponse.json({ error: "Missing slug" }, { status: 400 });
+  }
+
+  // Only signed-in Payload users (editors) may see unpublished content
+  const payload = await getPayloadClient();
+  const { user } = await payload.auth({ headers: await headers() });
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "You must be logged in to preview drafts" },
+      { status: 403 }
+    );
+  }
+
+  const moduleDoc = await getCurriculumModuleBySlug(slug, true);
+
+  if (!moduleDoc) {
+    return NextResponse.json({ error: "Module not found" }, { status: 404 });
+  }
+
+  (await draftMode()).enable();
+
+  redirect(`/topics/${moduleDoc.slug}`);
+}
@@ -0,0 +1,41 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { gradeQuizAnswers } from "@/lib/content";
+import { getPayloadClient } from "@/lib/payload";
+
+const gradeRequestSchema = z.object({
+  quizId: z.string().min(1),
+  // One answer per question, as presented option indices
+  answers: z.array(z.array(z.number().int().nonnegative())),
+});
+
+export async function POST(request: Request) {
+  const parsed = gradeRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid answers" }, { status: 400 });
+  }
+
+  try {
+    // Signed-in learners get their best score saved with their progress
+    const payload = await getPayloadClient();
+    const { user } = await payload.auth({ headers: await headers() });
+    const result = await gradeQuizAnswers(
+      parsed.data.quizId,
+      parsed.data.answers,
+      user?.id
+    );
+    if (!result) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to grade quiz:", error);
+    return NextResponse.json(
+      { error: "Failed to grade quiz" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { searchContent } from "@/lib/content";
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() || "";
+  const limit = Math.min(
+    Math.max(Number(searchParams.get("limit")) || 20, 1),
+    MAX_LIMIT
+  );
+
+  if (!query) {
+    return NextResponse.json({ query, results: [] });
+  }
+
+  try {
+    const results = await searchContent(query, limit);
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error("Failed to search content:", error);
+    return NextResponse.json(
+      { error: "Failed to search content" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,18 @@
 import { MetadataRoute } from "next";
-import { listCurriculumModules } from "@/lib/content";
+import {
+  listCurriculumModules,
+  listPublishedPages,
+  listResources,
+} from "@/lib/content";
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 
-  const modules = await listCurriculumModules();
+  const [modules, pages, resources] = await Promise.all([
+    listCurriculumModules(),
+    listPublishedPages(),
+    listResources(),
+  ]);
 
   const moduleUrls: MetadataRoute.Sitemap = modules.map((module) => ({
     url: `${baseUrl}/topics/${module.slug}`,
@@ -13,6 +21,22 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.8,
   }));
 
+  const pageUrls: MetadataRoute.Sitemap = pages.map((page) => ({
+    url: `${baseUrl}/${page.slug}`,
+    lastModified: page.updatedAt ? new Date(page.updatedAt) : new Date(),
+    changeFrequency: "monthly" as const,
+    priority: 0.5,
+  }));
+
+  const resourceUrls: MetadataRoute.Sitemap = resources.map((resource) => ({
+    url: `${baseUrl}/resources/${resource.resourceNumber}`,
+    lastModified: resource.updatedAt
+      ? new Date(resource.updatedAt)
+      : new Date(),
+    changeFrequency: "monthly" as const,
+    priority: 0.6,
+  }));
+
   return [
     {
       url: baseUrl,
@@ -26,6 +50,14 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "weekly",
       priority: 0.9,
     },
+    {
+      url: `${baseUrl}/resources`,
+      lastModified: new Date(),
+      changeFrequency: "weekly",
+      priority: 0.7,
+    },
     ...moduleUrls,
+    ...resourceUrls,
+    ...pageUrls,
   ];
 }
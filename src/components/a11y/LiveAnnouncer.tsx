@@ -0,0 +1,20 @@
+interface LiveAnnouncerProps {
+  message: string;
+}
+
+/**
+ * Visually hidden live region: screen readers read out `message` whenever
+ * it changes (e.g. the current step of an example)
+ */
+export function LiveAnnouncer({ message }: LiveAnnouncerProps) {
+  return (
+    <div
+      className="sr-only"
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      {message}
+    </div>
+  );
+}
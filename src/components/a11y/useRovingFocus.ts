@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useRef, type KeyboardEvent } from "react";
+
+/**
+ * Index an arrow / Home / End key moves to, or null for any other key
+ */
+export function getRovingTarget(
+  key: string,
+  current: number,
+  count: number
+): number | null {
+  switch (key) {
+    case "ArrowRight":
+    case "ArrowDown":
+      return Math.min(current + 1, count - 1);
+    case "ArrowLeft":
+    case "ArrowUp":
+      return Math.max(current - 1, 0);
+    case "Home":
+      return 0;
+    case "End":
+      return count - 1;
+    default:
+      return null;
+  }
+}
+
+interface UseRovingFocusOptions {
+  count: number;
+  // The item that is in the tab order (tabIndex 0)
+  activeIndex: number;
+  // Called with the item the keyboard moved to; it receives focus
+  onMove: (index: number) => void;
+  // When set, Space toggles playback instead of activating the item
+  onTogglePlay?: () => void;
+}
+
+/**
+ * Roving tabindex for a group of items (steps, tabs, diagram nodes):
+ * one tab stop for the group, arrow keys / Home / End move between items.
+ */
+export function useRovingFocus<T extends Element = HTMLElement>({
+  count,
+  activeIndex,
+  onMove,
+  onTogglePlay,
+}: UseRovingFocusOptions) {
+  const itemsRef = useRef<Array<T | null>>([]);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent) => {
+      const target = getRovingTarget(event.key, activeIndex, count);
+      if (target !== null) {
+        event.preventDefault();
+        onMove(target);
+        (itemsRef.current[target] as HTMLElement | SVGElement | null)?.focus();
+        return;
+      }
+      if (event.key === " " && onTogglePlay) {
+        event.preventDefault();
+        onTogglePlay();
+      }
+    },
+    [activeIndex, count, onMove, onTogglePlay]
+  );
+
+  const getItemProps = (index: number) => ({
+    ref: (element: T | null) => {
+      itemsRef.current[index] = element;
+    },
+    tabIndex: index === activeIndex ? 0 : -1,
+    onKeyDown: handleKeyDown,
+  });
+
+  return { getItemProps };
+}
@@ -1,22 +1,39 @@
 "use client";
 
-import { validateSpec } from "@/modules/animatedExamples/specSchema";
+import {
+  validateSpec,
+  type AnimatedExampleKind,
+} from "@/modules/animatedExamples/specSchema";
+import type { HighlightedFile } from "@/modules/animatedExamples/highlight";
+import { exampleAnchorId } from "@/lib/exampleLinks";
 import { Timeline2DExample } from "./Timeline2DExample";
 import { Flow2DExample } from "./Flow2DExample";
 import { Diff2DExample } from "./Diff2DExample";
+import { Sequence2DExample } from "./Sequence2DExample";
+import { StatechartExample } from "./StatechartExample";
+import { Waterfall2DExample } from "./Waterfall2DExample";
+import { Tree2DExample } from "./Tree2DExample";
+import { Treemap2DExample } from "./Treemap2DExample";
+import { Code2DExample } from "./Code2DExample";
 
 interface AnimatedExampleProps {
   exampleId: string;
-  kind: "timeline2d" | "flow2d" | "diff2d";
+  kind: AnimatedExampleKind;
   title: string;
   description: string;
   whatToNotice: string[];
   spec: unknown; // JSON from CMS
+  // Server-side syntax highlighting for code2d and text diff2d examples
+  highlighted?: HighlightedFile[] | null;
   controls?: {
     mode: "stepper" | "toggle" | "play";
     initialStep?: number;
     toggleLabels?: string[];
   };
+  // Called once the learner has stepped through the whole example
+  onComplete?: () => void;
+  // Step / toggle restored from a deep link (see lib/exampleLinks)
+  linkedIndex?: number;
 }
 
 export function AnimatedExample({
@@ -26,7 +43,10 @@ export function AnimatedExample({
   description,
   whatToNotice,
   spec,
+  highlighted,
   controls,
+  onComplete,
+  linkedIndex,
 }: AnimatedExampleProps) {
   const validation = validateSpec(kind, spec);
 
@@ -41,47 +61,169 @@ export function AnimatedExample({
     return null;
   }
 
-  switch (kind) {
-    case "timeline2d":
-      if (validation.data && "lanes" in validation.data) {
-        return (
-          <Timeline2DExample
-            spec={validation.data}
-            title={title}
-            description={description}
-            whatToNotice={whatToNotice}
-            controls={controls}
-          />
-        );
-      }
-      return null;
-    case "flow2d":
-      if (validation.data && "nodes" in validation.data) {
-        return (
-          <Flow2DExample
-            spec={validation.data}
-            title={title}
-            description={description}
-            whatToNotice={whatToNotice}
-            controls={controls}
-          />
-        );
-      }
-      return null;
-    case "diff2d":
-      if (validation.data && "leftTitle" in validation.data) {
-        return (
-          <Diff2DExample
-            spec={validation.data}
-            title={title}
-            description={description}
-            whatToNotice={whatToNotice}
-            controls={controls}
-          />
-        );
-      }
-      return null;
-    default:
-      return null;
-  }
+  // A deep link opens on its step; "play" would autoplay straight past it
+  const resolvedControls =
+    linkedIndex === undefined
+      ? controls
+      : { ...controls, mode: "stepper" as const, initialStep: linkedIndex };
+
+  const renderExample = () => {
+    switch (kind) {
+      case "timeline2d":
+        if (validation.data && "lanes" in validation.data) {
+          return (
+            <Timeline2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "flow2d":
+        if (validation.data && "edges" in validation.data) {
+          return (
+            <Flow2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "diff2d":
+        if (validation.data && "leftTitle" in validation.data) {
+          return (
+            <Diff2DExample
+              spec={validation.data}
+              highlighted={highlighted}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "sequence2d":
+        if (validation.data && "actors" in validation.data) {
+          return (
+            <Sequence2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "statechart":
+        if (validation.data && "transitions" in validation.data) {
+          return (
+            <StatechartExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "waterfall2d":
+        if (validation.data && "scenarios" in validation.data) {
+          return (
+            <Waterfall2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "tree2d":
+        if (
+          validation.data &&
+          "nodes" in validation.data &&
+          !("edges" in validation.data)
+        ) {
+          return (
+            <Tree2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "treemap2d":
+        if (validation.data && "items" in validation.data) {
+          return (
+            <Treemap2DExample
+              spec={validation.data}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      case "code2d":
+        if (validation.data && "files" in validation.data) {
+          return (
+            <Code2DExample
+              spec={validation.data}
+              highlighted={highlighted}
+              title={title}
+              description={description}
+              whatToNotice={whatToNotice}
+              exampleId={exampleId}
+              controls={resolvedControls}
+              onComplete={onComplete}
+            />
+          );
+        }
+        return null;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    // Re-mounts when a deep link selects another step, so renderers can keep
+    // their step in local state
+    <div
+      key={linkedIndex ?? "initial"}
+      id={exampleAnchorId(exampleId)}
+      className="scroll-mt-24"
+    >
+      {renderExample()}
+    </div>
+  );
 }
@@ -0,0 +1,336 @@
+"use client";
+
+import {
+  Fragment,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+} from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import type { Code2DSpec } from "@/modules/animatedExamples/specSchema";
+import type { HighlightedFile } from "@/modules/animatedExamples/highlight";
+import { exampleHash } from "@/lib/exampleLinks";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface Code2DExampleProps {
+  exampleId?: string;
+  spec: Code2DSpec;
+  // Syntax-highlighted tokens per file, produced on the server (lib/content);
+  // without them the code renders as plain text
+  highlighted?: HighlightedFile[] | null;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+export function Code2DExample({
+  exampleId,
+  spec,
+  highlighted,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: Code2DExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, spec.steps.length)
+  );
+  // A file tab opened by the learner, until the step changes
+  const [viewedFile, setViewedFile] = useState<number | null>(null);
+  const mode = controls?.mode || "stepper";
+  const codeRef = useRef<HTMLDivElement>(null);
+
+  const goToStep = (step: number) => {
+    setViewedFile(null);
+    setCurrentStep(step);
+  };
+
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play",
+    stepCount: spec.steps.length,
+    currentStep,
+    onStepChange: goToStep,
+    durations: spec.steps.map((step) => step.durationMs),
+  });
+
+  useEffect(() => {
+    if (currentStep === spec.steps.length - 1) onComplete?.();
+  }, [currentStep, spec.steps.length, onComplete]);
+
+  // Steps without a file keep showing the previous step's file
+  const stepFiles = useMemo(
+    () =>
+      spec.steps.reduce<number[]>((files, step) => {
+        const index = step.file
+          ? spec.files.findIndex((file) => file.name === step.file)
+          : -1;
+        return [
+          ...files,
+          index !== -1 ? index : (files[files.length - 1] ?? 0),
+        ];
+      }, []),
+    [spec.files, spec.steps]
+  );
+
+  const lines = useMemo(
+    () =>
+      spec.files.map(
+        (file, index): HighlightedFile =>
+          highlighted?.[index] ||
+          file.code
+            .replace(/\n$/, "")
+            .split("\n")
+            .map((line) => [{ content: line }])
+      ),
+    [spec.files, highlighted]
+  );
+
+  const currentStepData = spec.steps[currentStep];
+  const stepFile = stepFiles[currentStep];
+  const fileIndex = viewedFile ?? stepFile;
+  const file = spec.files[fileIndex];
+  const fileLines = lines[fileIndex] || [];
+
+  // Highlights and annotations belong to the step's own file
+  const highlightedLines = new Set<number>();
+  const annotations = new Map<number, string[]>();
+  if (fileIndex === stepFile) {
+    for (const range of currentStepData.highlight || []) {
+      for (let line = range.from; line <= (range.to ?? range.from); line++) {
+        highlightedLines.add(line);
+      }
+    }
+    for (const annotation of currentStepData.annotations || []) {
+      annotations.set(annotation.line, [
+        ...(annotations.get(annotation.line) || []),
+        annotation.text,
+      ]);
+    }
+  }
+  const firstHighlight = Math.min(...Array.from(highlightedLines));
+
+  const previousWatch = new Map(
+    (spec.steps[currentStep - 1]?.watch || []).map((item) => [
+      item.name,
+      item.value,
+    ])
+  );
+  const hasWatch = spec.steps.some((step) => step.watch?.length);
+
+  // Keep the highlighted lines in view inside the code panel
+  useEffect(() => {
+    const container = codeRef.current;
+    if (!container || !Number.isFinite(firstHighlight)) return;
+    const line = container.querySelector<HTMLElement>(
+      `[data-line="${firstHighlight}"]`
+    );
+    if (!line) return;
+    container.scrollTo({
+      top: Math.max(line.offsetTop - container.clientHeight / 3, 0),
+      behavior: reduced ? "auto" : "smooth",
+    });
+  }, [currentStep, fileIndex, firstHighlight, reduced]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={exampleId ? exampleHash(exampleId, currentStep) : undefined}
+      />
+
+      {/* Controls */}
+      <StepControls
+        currentStep={currentStep}
+        stepCount={spec.steps.length}
+        onStepChange={goToStep}
+        playback={playback}
+      />
+
+      {/* Visualization */}
+      <div className="p-6 bg-white dark:bg-gray-900">
+        <div
+          className={`grid gap-4 ${
+            hasWatch ? "md:grid-cols-[minmax(0,1fr)_220px]" : ""
+          }`}
+        >
+          <div className="border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden">
+            {/* File tabs */}
+            <div className="flex flex-wrap border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+              {spec.files.map((item, index) => (
+                <button
+                  key={item.name}
+                  type="button"
+                  onClick={() => setViewedFile(index)}
+                  aria-current={index === fileIndex ? "true" : undefined}
+                  className={`px-3 py-1.5 text-xs font-mono border-r border-gray-200 dark:border-gray-800 ${
+                    index === fileIndex
+                      ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-semibold"
+                      : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  }`}
+                >
+                  {item.name}
+                  {index === stepFile && spec.files.length > 1 && (
+                    <span className="sr-only"> (current step)</span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Code */}
+            <div
+              ref={codeRef}
+              role="region"
+              aria-label={`${file.name} source`}
+              tabIndex={0}
+              className="relative max-h-[480px] overflow-auto bg-white dark:bg-gray-950 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+            >
+              <pre className="py-3 text-sm leading-6 font-mono min-w-max">
+                <code>
+                  {fileLines.map((tokens, index) => {
+                    const lineNumber = index + 1;
+                    const isHighlighted = highlightedLines.has(lineNumber);
+                    const notes = annotations.get(lineNumber);
+
+                    return (
+                      <Fragment key={lineNumber}>
+                        <div
+                          data-line={lineNumber}
+                          className={`flex pr-4 border-l-4 transition-colors ${
+                            isHighlighted
+                              ? "bg-yellow-50 dark:bg-yellow-900/20 border-blue-500"
+                              : `border-transparent ${
+                                  highlightedLines.size > 0 ? "opacity-50" : ""
+                                }`
+                          }`}
+                        >
+                          <span
+                            aria-hidden="true"
+                            className="w-10 shrink-0 pr-3 text-right select-none text-gray-400 dark:text-gray-600"
+                          >
+                            {lineNumber}
+                          </span>
+                          <span>
+                            {tokens.map((token, tokenIndex) => (
+                              <span
+                                key={tokenIndex}
+                                style={
+                                  {
+                                    "--code-light": token.light,
+                                    "--code-dark": token.dark,
+                                  } as CSSProperties
+                                }
+                                className={
+                                  token.light || token.dark
+                                    ? "text-[color:var(--code-light)] dark:text-[color:var(--code-dark)]"
+                                    : "text-gray-800 dark:text-gray-200"
+                                }
+                              >
+                                {token.content}
+                              </span>
+                            ))}
+                            {/* Keep empty lines one row tall */}
+                            {tokens.every((token) => !token.content) && " "}
+                          </span>
+                        </div>
+                        {notes?.map((note, noteIndex) => (
+                          <motion.div
+                            key={`${currentStep}-${noteIndex}`}
+                            initial={reduced ? false : { opacity: 0, y: -4 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={
+                              reduced ? { duration: 0 } : { duration: 0.3 }
+                            }
+                            className="ml-10 mr-4 my-1 px-3 py-1.5 text-xs font-sans whitespace-normal rounded border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-blue-900 dark:text-blue-100"
+                          >
+                            {note}
+                          </motion.div>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </code>
+              </pre>
+            </div>
+          </div>
+
+          {/* Variable watch */}
+          {hasWatch && (
+            <div className="border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden self-start">
+              <h4 className="px-3 py-1.5 text-xs font-medium uppercase text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+                Watch
+              </h4>
+              {currentStepData.watch && currentStepData.watch.length > 0 ? (
+                <dl className="divide-y divide-gray-100 dark:divide-gray-800 text-sm font-mono">
+                  {currentStepData.watch.map((item) => {
+                    const changed =
+                      currentStep > 0 &&
+                      previousWatch.get(item.name) !== item.value;
+                    return (
+                      <div
+                        key={item.name}
+                        className={`flex justify-between gap-3 px-3 py-1.5 transition-colors ${
+                          changed ? "bg-yellow-50 dark:bg-yellow-900/20" : ""
+                        }`}
+                      >
+                        <dt className="text-gray-600 dark:text-gray-400">
+                          {item.name}
+                        </dt>
+                        <dd className="text-gray-900 dark:text-gray-100 text-right break-all">
+                          {item.value}
+                          {changed && (
+                            <span className="sr-only"> (changed)</span>
+                          )}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              ) : (
+                <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                  Nothing to watch yet.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Current step explanation */}
+        {currentStepData.explanation && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+            <p className="text-sm text-blue-900 dark:text-blue-100">
+              {currentStepData.explanation}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <LiveAnnouncer
+        message={`Step ${currentStep + 1} of ${spec.steps.length}: ${
+          currentStepData.label
+        }. ${currentStepData.explanation}`}
+      />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
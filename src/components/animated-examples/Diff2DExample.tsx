@@ -1,54 +1,124 @@
 "use client";
 
-import { useState } from "react";
-import { motion } from "framer-motion";
-import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { useCallback, useEffect, useId, useState } from "react";
 import type { Diff2DSpec } from "@/modules/animatedExamples/specSchema";
+import { exampleHash } from "@/lib/exampleLinks";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
+import type { HighlightedFile } from "@/modules/animatedExamples/highlight";
+import { Diff2DPane } from "./Diff2DPane";
+import { Diff2DTextDiff } from "./Diff2DTextDiff";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
 
 interface Diff2DExampleProps {
+  exampleId?: string;
   spec: Diff2DSpec;
+  // Syntax-highlighted [before, after] for text diffs, produced on the
+  // server (lib/content)
+  highlighted?: HighlightedFile[] | null;
   title: string;
   description: string;
   whatToNotice: string[];
   controls?: {
     mode: "stepper" | "toggle" | "play";
+    // Initially selected toggle
+    initialStep?: number;
     toggleLabels?: string[];
   };
+  onComplete?: () => void;
 }
 
 export function Diff2DExample({
+  exampleId,
   spec,
+  highlighted,
   title,
   description,
   whatToNotice,
   controls,
+  onComplete,
 }: Diff2DExampleProps) {
-  const { reduced } = useMotionPrefs();
-  const [activeToggleIndex, setActiveToggleIndex] = useState(0);
+  const [activeToggleIndex, setActiveToggleIndex] = useState(() =>
+    clampStep(controls?.initialStep, spec.toggles.length)
+  );
   const activeToggle = spec.toggles[activeToggleIndex];
+  const [visitedToggles, setVisitedToggles] = useState<Set<number>>(
+    () => new Set([activeToggleIndex])
+  );
+
+  const selectToggle = useCallback((index: number) => {
+    setActiveToggleIndex(index);
+    setVisitedToggles((prev) =>
+      prev.has(index) ? prev : new Set(prev).add(index)
+    );
+  }, []);
+
+  // "play" mode cycles through the variants
+  const { containerRef, playback } = usePlayback({
+    enabled: controls?.mode === "play" && spec.toggles.length > 1,
+    stepCount: spec.toggles.length,
+    currentStep: activeToggleIndex,
+    onStepChange: selectToggle,
+    durations: spec.toggles.map((toggle) => toggle.durationMs),
+  });
+
+  // Complete once every variant has been looked at
+  useEffect(() => {
+    if (visitedToggles.size === spec.toggles.length) onComplete?.();
+  }, [visitedToggles, spec.toggles.length, onComplete]);
+
+  const { getItemProps } = useRovingFocus<HTMLButtonElement>({
+    count: spec.toggles.length,
+    activeIndex: activeToggleIndex,
+    onMove: selectToggle,
+    onTogglePlay: playback?.togglePlaying,
+  });
+  const idPrefix = useId();
+  const hasTabs = spec.toggles.length > 1;
 
   const toggleLabels =
     controls?.toggleLabels || spec.toggles.map((t) => t.label);
 
   return (
-    <div className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden">
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
       {/* Header */}
-      <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h3 className="text-lg font-semibold mb-1">{title}</h3>
-        {description && (
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            {description}
-          </p>
-        )}
-      </div>
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={
+          exampleId
+            ? exampleHash(
+                exampleId,
+                hasTabs ? activeToggleIndex : undefined,
+                "toggle"
+              )
+            : undefined
+        }
+        linkUnit="variant"
+      />
 
       {/* Toggle controls */}
-      {spec.toggles.length > 1 && (
-        <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex flex-wrap gap-2">
+      {hasTabs && (
+        <div
+          role="tablist"
+          aria-label={`${title} variants`}
+          className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex flex-wrap gap-2"
+        >
           {toggleLabels.map((label, index) => (
             <button
               key={index}
-              onClick={() => setActiveToggleIndex(index)}
+              {...getItemProps(index)}
+              role="tab"
+              id={`${idPrefix}-tab-${index}`}
+              aria-selected={activeToggleIndex === index}
+              aria-controls={`${idPrefix}-panel`}
+              onClick={() => selectToggle(index)}
               className={`px-3 py-1.5 text-sm border rounded transition-colors ${
                 activeToggleIndex === index
                   ? "bg-blue-600 text-white border-blue-600"
@@ -61,77 +131,51 @@ export function Diff2DExample({
         </div>
       )}
 
-      {/* Visualization */}
-      <div className="p-6 bg-white dark:bg-gray-900">
-        <div className="grid grid-cols-2 gap-4">
-          {/* Left side */}
-          <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-900/50 relative">
-            <h4 className="font-semibold mb-3 text-gray-900 dark:text-gray-100">
-              {spec.leftTitle}
-            </h4>
-
-            {/* Highlight overlays */}
-            {activeToggle.leftHighlights &&
-              activeToggle.leftHighlights.length > 0 && (
-                <div className="absolute inset-0 pointer-events-none">
-                  {activeToggle.leftHighlights.map((highlight, i) => (
-                    <motion.div
-                      key={i}
-                      initial={reduced ? {} : { opacity: 0 }}
-                      animate={reduced ? {} : { opacity: 0.3 }}
-                      transition={reduced ? {} : { duration: 0.3 }}
-                      className="absolute bg-yellow-400 dark:bg-yellow-600 border-2 border-yellow-500 dark:border-yellow-400 rounded"
-                      style={{
-                        left: `${(highlight.x / 800) * 100}%`,
-                        top: `${(highlight.y / 400) * 100}%`,
-                        width: `${(highlight.width / 800) * 100}%`,
-                        height: `${(highlight.height / 400) * 100}%`,
-                      }}
-                    />
-                  ))}
-                </div>
-              )}
-
-            <div className="text-sm text-gray-700 dark:text-gray-300">
-              {/* Content would be rendered here based on spec - simplified for now */}
-              <p className="p-2">Left side content</p>
-            </div>
-          </div>
-
-          {/* Right side */}
-          <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-900/50 relative">
-            <h4 className="font-semibold mb-3 text-gray-900 dark:text-gray-100">
-              {spec.rightTitle}
-            </h4>
-
-            {/* Highlight overlays */}
-            {activeToggle.rightHighlights &&
-              activeToggle.rightHighlights.length > 0 && (
-                <div className="absolute inset-0 pointer-events-none">
-                  {activeToggle.rightHighlights.map((highlight, i) => (
-                    <motion.div
-                      key={i}
-                      initial={reduced ? {} : { opacity: 0 }}
-                      animate={reduced ? {} : { opacity: 0.3 }}
-                      transition={reduced ? {} : { duration: 0.3 }}
-                      className="absolute bg-green-400 dark:bg-green-600 border-2 border-green-500 dark:border-green-400 rounded"
-                      style={{
-                        left: `${(highlight.x / 800) * 100}%`,
-                        top: `${(highlight.y / 400) * 100}%`,
-                        width: `${(highlight.width / 800) * 100}%`,
-                        height: `${(highlight.height / 400) * 100}%`,
-                      }}
-                    />
-                  ))}
-                </div>
-              )}
+      {playback && (
+        <StepControls
+          currentStep={activeToggleIndex}
+          stepCount={spec.toggles.length}
+          onStepChange={selectToggle}
+          unit="Variant"
+          playback={playback}
+        />
+      )}
 
-            <div className="text-sm text-gray-700 dark:text-gray-300">
-              {/* Content would be rendered here based on spec - simplified for now */}
-              <p className="p-2">Right side content</p>
-            </div>
+      {/* Visualization */}
+      <div
+        role={hasTabs ? "tabpanel" : undefined}
+        id={`${idPrefix}-panel`}
+        aria-labelledby={
+          hasTabs ? `${idPrefix}-tab-${activeToggleIndex}` : undefined
+        }
+        className="p-6 bg-white dark:bg-gray-900"
+      >
+        {spec.text ? (
+          <Diff2DTextDiff
+            text={spec.text}
+            highlighted={highlighted}
+            leftTitle={spec.leftTitle}
+            rightTitle={spec.rightTitle}
+            focusHunks={activeToggle.hunks || []}
+          />
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            <Diff2DPane
+              title={spec.leftTitle}
+              content={spec.left}
+              canvas={spec.canvas}
+              highlights={activeToggle.leftHighlights || []}
+              tone="before"
+            />
+            <Diff2DPane
+              title={spec.rightTitle}
+              content={spec.right}
+              canvas={spec.canvas}
+              highlights={activeToggle.rightHighlights || []}
+              tone="after"
+            />
           </div>
-        </div>
+        )}
 
         {/* Toggle explanation */}
         {activeToggle.explanation && (
@@ -143,20 +187,14 @@ export function Diff2DExample({
         )}
       </div>
 
+      <LiveAnnouncer
+        message={`${toggleLabels[activeToggleIndex] || activeToggle.label}: ${
+          activeToggle.explanation
+        }`}
+      />
+
       {/* What to Notice */}
-      <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-gray-100">
-          What to Notice
-        </h4>
-        <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
-          {whatToNotice.map((notice, i) => (
-            <li key={i} className="flex items-start gap-2">
-              <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
-              <span>{notice}</span>
-            </li>
-          ))}
-        </ul>
-      </div>
+      <WhatToNotice items={whatToNotice} />
     </div>
   );
 }
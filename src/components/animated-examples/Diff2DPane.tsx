@@ -0,0 +1,218 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import type { Diff2DSpec } from "@/modules/animatedExamples/specSchema";
+
+type PaneContent = NonNullable<Diff2DSpec["left"]>;
+type Highlight = NonNullable<
+  Diff2DSpec["toggles"][number]["leftHighlights"]
+>[number];
+type TreeNode = Extract<PaneContent, { type: "tree" }>["nodes"][number];
+
+interface Diff2DPaneProps {
+  title: string;
+  content?: PaneContent;
+  canvas: Diff2DSpec["canvas"];
+  highlights: Highlight[];
+  // Before (left) panes highlight in yellow, after (right) panes in green
+  tone: "before" | "after";
+}
+
+const TONES = {
+  before: {
+    box: "bg-yellow-400/30 dark:bg-yellow-600/30 border-yellow-500 dark:border-yellow-400",
+    row: "bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-500 dark:ring-yellow-400",
+    tag: "bg-yellow-500 text-yellow-950",
+  },
+  after: {
+    box: "bg-green-400/30 dark:bg-green-600/30 border-green-500 dark:border-green-400",
+    row: "bg-green-100 dark:bg-green-900/30 ring-2 ring-green-500 dark:ring-green-400",
+    tag: "bg-green-500 text-green-950",
+  },
+};
+
+/**
+ * One side of a Diff2D comparison: the pane's content with the active
+ * variant's highlights on top. Rectangles are in canvas units; region
+ * highlights resolve against the content's named regions (or tree nodes).
+ */
+export function Diff2DPane({
+  title,
+  content,
+  canvas,
+  highlights,
+  tone,
+}: Diff2DPaneProps) {
+  const { reduced } = useMotionPrefs();
+  const colors = TONES[tone];
+
+  // Region highlights on a tree mark rows; everything else is a rectangle
+  const highlightedRows = new Map<string, string | undefined>();
+  const boxes: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    label?: string;
+  }[] = [];
+  for (const highlight of highlights) {
+    if (!("region" in highlight)) {
+      boxes.push(highlight);
+    } else if (content?.type === "tree") {
+      highlightedRows.set(highlight.region, highlight.label);
+    } else {
+      const region = content?.regions?.find(
+        (item) => item.id === highlight.region
+      );
+      if (region) boxes.push({ ...region, label: highlight.label });
+    }
+  }
+
+  const overlay = boxes.length > 0 && (
+    <div className="absolute inset-0 pointer-events-none">
+      {boxes.map((box, i) => (
+        <motion.div
+          key={`${box.x}-${box.y}-${i}`}
+          initial={reduced ? false : { opacity: 0, scale: 0.96 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={reduced ? { duration: 0 } : { duration: 0.3 }}
+          className={`absolute border-2 rounded ${colors.box}`}
+          style={{
+            left: `${(box.x / canvas.width) * 100}%`,
+            top: `${(box.y / canvas.height) * 100}%`,
+            width: `${(box.width / canvas.width) * 100}%`,
+            height: `${(box.height / canvas.height) * 100}%`,
+          }}
+        >
+          {box.label && (
+            <span
+              className={`absolute -top-2.5 left-1 px-1.5 rounded text-[11px] font-medium leading-5 whitespace-nowrap ${colors.tag}`}
+            >
+              {box.label}
+            </span>
+          )}
+        </motion.div>
+      ))}
+    </div>
+  );
+
+  let body: ReactNode;
+  if (content?.type === "tree") {
+    body = (
+      <div className="relative">
+        <TreeList
+          nodes={content.nodes}
+          parent={undefined}
+          highlightedRows={highlightedRows}
+          rowClass={colors.row}
+          tagClass={colors.tag}
+        />
+        {overlay}
+      </div>
+    );
+  } else {
+    body = (
+      <div
+        className="relative w-full rounded overflow-hidden bg-white dark:bg-gray-950"
+        style={{ aspectRatio: `${canvas.width} / ${canvas.height}` }}
+      >
+        {content?.type === "image" && (
+          <img
+            src={content.src}
+            alt={content.alt}
+            className="absolute inset-0 w-full h-full object-fill"
+          />
+        )}
+        {content?.type === "svg" && (
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+              content.markup
+            )}`}
+            alt={content.alt}
+            className="absolute inset-0 w-full h-full object-fill"
+          />
+        )}
+        {overlay}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-900/50">
+      <h4 className="font-semibold mb-3 text-gray-900 dark:text-gray-100">
+        {title}
+      </h4>
+      {body}
+    </div>
+  );
+}
+
+interface TreeListProps {
+  nodes: TreeNode[];
+  parent: string | undefined;
+  highlightedRows: Map<string, string | undefined>;
+  rowClass: string;
+  tagClass: string;
+}
+
+// Nested list built from the flat parent links
+function TreeList({
+  nodes,
+  parent,
+  highlightedRows,
+  rowClass,
+  tagClass,
+}: TreeListProps) {
+  const children = nodes.filter((node) => node.parent === parent);
+  if (children.length === 0) return null;
+
+  return (
+    <ul
+      className={`space-y-1 text-sm font-mono text-gray-800 dark:text-gray-200 ${
+        parent
+          ? "mt-1 ml-4 pl-3 border-l border-gray-300 dark:border-gray-700"
+          : ""
+      }`}
+    >
+      {children.map((node) => {
+        const highlighted = highlightedRows.has(node.id);
+        const label = highlightedRows.get(node.id);
+        return (
+          <li key={node.id}>
+            <div
+              className={`flex flex-wrap items-center gap-2 px-2 py-1 rounded transition-colors ${
+                highlighted ? rowClass : ""
+              }`}
+            >
+              <span>{node.label}</span>
+              {node.detail && (
+                <span className="text-xs font-sans text-gray-500 dark:text-gray-400">
+                  {node.detail}
+                </span>
+              )}
+              {label && (
+                <span
+                  className={`px-1.5 rounded text-[11px] font-sans font-medium ${tagClass}`}
+                >
+                  {label}
+                </span>
+              )}
+              {highlighted && !label && (
+                <span className="sr-only"> (highlighted)</span>
+              )}
+            </div>
+            <TreeList
+              nodes={nodes}
+              parent={node.id}
+              highlightedRows={highlightedRows}
+              rowClass={rowClass}
+              tagClass={tagClass}
+            />
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,395 @@
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+} from "react";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import type { Diff2DSpec } from "@/modules/animatedExamples/specSchema";
+import type {
+  HighlightedFile,
+  HighlightedToken,
+} from "@/modules/animatedExamples/highlight";
+import {
+  diffText,
+  type DiffLine,
+  type DiffSegment,
+} from "@/modules/animatedExamples/textDiff";
+
+interface Diff2DTextDiffProps {
+  text: NonNullable<Diff2DSpec["text"]>;
+  // [before, after] tokens from the server (lib/content)
+  highlighted?: HighlightedFile[] | null;
+  leftTitle: string;
+  rightTitle: string;
+  // Hunks the active variant is about; the rest is dimmed
+  focusHunks: number[];
+}
+
+// Unchanged lines kept around each change; longer runs are folded
+const CONTEXT = 3;
+
+// A unified line, or a before/after pair in the split view
+interface Row {
+  key: string;
+  hunk?: number;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type Item =
+  | { type: "hunk"; hunk: number }
+  | { type: "row"; row: Row }
+  | { type: "fold"; start: number; rows: Row[] };
+
+const LINE_STYLES = {
+  same: { row: "", word: "", sign: " ", sr: "" },
+  removed: {
+    row: "bg-red-50 dark:bg-red-900/20",
+    word: "bg-red-200 dark:bg-red-800/60 rounded-sm",
+    sign: "-",
+    sr: "Removed: ",
+  },
+  added: {
+    row: "bg-green-50 dark:bg-green-900/20",
+    word: "bg-green-200 dark:bg-green-800/60 rounded-sm",
+    sign: "+",
+    sr: "Added: ",
+  },
+};
+
+// Syntax tokens cut where the word-level changes start and end
+function lineParts(segments: DiffSegment[], tokens?: HighlightedToken[]) {
+  const source =
+    tokens && tokens.length > 0
+      ? tokens
+      : [{ content: segments.map((segment) => segment.text).join("") }];
+  const parts: (HighlightedToken & { changed: boolean })[] = [];
+  let segmentIndex = 0;
+  let segmentOffset = 0;
+  for (const token of source) {
+    let rest = token.content;
+    while (rest.length > 0) {
+      const segment = segments[segmentIndex];
+      if (!segment) {
+        parts.push({ ...token, content: rest, changed: false });
+        break;
+      }
+      const room = segment.text.length - segmentOffset;
+      if (room <= 0) {
+        segmentIndex++;
+        segmentOffset = 0;
+        continue;
+      }
+      const content = rest.slice(0, room);
+      parts.push({ ...token, content, changed: segment.changed });
+      rest = rest.slice(content.length);
+      segmentOffset += content.length;
+    }
+  }
+  return parts;
+}
+
+function buildRows(lines: DiffLine[], view: "split" | "unified"): Row[] {
+  if (view === "unified") {
+    return lines.map((line, index) => ({
+      key: `u-${index}`,
+      hunk: line.hunk,
+      left: line.kind === "added" ? undefined : line,
+      right: line.kind === "removed" ? undefined : line,
+    }));
+  }
+
+  const rows: Row[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.kind === "same") {
+      rows.push({ key: `s-${index}`, left: line, right: line });
+      index++;
+      continue;
+    }
+    // Removed and added lines of one hunk sit side by side
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].hunk === line.hunk) {
+      (lines[index].kind === "removed" ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({
+        key: `s-${line.hunk}-${i}`,
+        hunk: line.hunk,
+        left: removed[i],
+        right: added[i],
+      });
+    }
+  }
+  return rows;
+}
+
+// Hunk headers, rows near a change, and folds for the long unchanged runs
+// (unless the learner opened them; `expanded` holds their first row index)
+function foldRows(rows: Row[], expanded: Set<number>): Item[] {
+  const near = rows.map((_, index) =>
+    rows
+      .slice(Math.max(index - CONTEXT, 0), index + CONTEXT + 1)
+      .some((row) => row.hunk !== undefined)
+  );
+  const items: Item[] = [];
+  let index = 0;
+  while (index < rows.length) {
+    const row = rows[index];
+    if (near[index]) {
+      if (row.hunk !== undefined && rows[index - 1]?.hunk !== row.hunk) {
+        items.push({ type: "hunk", hunk: row.hunk });
+      }
+      items.push({ type: "row", row });
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < rows.length && !near[index]) index++;
+    const run = rows.slice(start, index);
+    // Folding a single line saves nothing
+    if (run.length === 1 || expanded.has(start)) {
+      run.forEach((item) => items.push({ type: "row", row: item }));
+    } else {
+      items.push({ type: "fold", start, rows: run });
+    }
+  }
+  return items;
+}
+
+/**
+ * Computed diff of two texts for Diff2D: word-level changes within modified
+ * lines, split or unified, with the active variant's hunks in focus
+ */
+export function Diff2DTextDiff({
+  text,
+  highlighted,
+  leftTitle,
+  rightTitle,
+  focusHunks,
+}: Diff2DTextDiffProps) {
+  const { reduced } = useMotionPrefs();
+  const [view, setView] = useState(text.view);
+  // Folds the learner opened, by first row index (of the current view)
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const diff = useMemo(
+    () => diffText(text.before, text.after),
+    [text.before, text.after]
+  );
+  const rows = useMemo(() => buildRows(diff.lines, view), [diff, view]);
+  const items = useMemo(() => foldRows(rows, expanded), [rows, expanded]);
+
+  const changeView = (next: "split" | "unified") => {
+    setExpanded(new Set());
+    setView(next);
+  };
+
+  const removedCount = diff.lines.filter((l) => l.kind === "removed").length;
+  const addedCount = diff.lines.filter((l) => l.kind === "added").length;
+  const focused = new Set(focusHunks);
+  const firstFocus = Math.min(...focusHunks);
+
+  // Keep the first focused hunk in view inside the diff panel
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !Number.isFinite(firstFocus)) return;
+    const hunk = container.querySelector<HTMLElement>(
+      `[data-hunk="${firstFocus}"]`
+    );
+    if (!hunk) return;
+    container.scrollTo({
+      top: Math.max(hunk.offsetTop - container.clientHeight / 4, 0),
+      behavior: reduced ? "auto" : "smooth",
+    });
+  }, [firstFocus, view, reduced]);
+
+  const tokensFor = (line: DiffLine) =>
+    line.kind === "added"
+      ? highlighted?.[1]?.[line.after! - 1]
+      : highlighted?.[0]?.[line.before! - 1];
+
+  const renderCode = (line?: DiffLine) => {
+    if (!line) return null;
+    const styles = LINE_STYLES[line.kind];
+    return (
+      <>
+        <span className="sr-only">{styles.sr}</span>
+        {lineParts(line.segments, tokensFor(line)).map((part, index) => (
+          <span
+            key={index}
+            style={
+              {
+                "--code-light": part.light,
+                "--code-dark": part.dark,
+              } as CSSProperties
+            }
+            className={`${
+              part.light || part.dark
+                ? "text-[color:var(--code-light)] dark:text-[color:var(--code-dark)]"
+                : "text-gray-800 dark:text-gray-200"
+            } ${part.changed ? styles.word : ""}`}
+          >
+            {part.content}
+          </span>
+        ))}
+        {/* Keep empty lines one row tall */}
+        {line.segments.every((segment) => !segment.text) && " "}
+      </>
+    );
+  };
+
+  const renderGutter = (number?: number) => (
+    <span
+      aria-hidden="true"
+      className="w-10 shrink-0 pr-2 text-right select-none text-gray-400 dark:text-gray-600"
+    >
+      {number}
+    </span>
+  );
+
+  const renderSign = (line?: DiffLine) => (
+    <span aria-hidden="true" className="w-4 shrink-0 select-none text-gray-500">
+      {line ? LINE_STYLES[line.kind].sign : ""}
+    </span>
+  );
+
+  const dimmed = (row: Row) =>
+    focused.size > 0 && (row.hunk === undefined || !focused.has(row.hunk));
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden">
+      {/* Summary and view switch */}
+      <div className="flex flex-wrap items-center gap-3 px-3 py-1.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 text-xs">
+        <span className="text-gray-600 dark:text-gray-400">
+          {diff.hunkCount} {diff.hunkCount === 1 ? "change" : "changes"}:{" "}
+          <span className="text-red-700 dark:text-red-400">
+            {removedCount} removed
+          </span>
+          ,{" "}
+          <span className="text-green-700 dark:text-green-400">
+            {addedCount} added
+          </span>
+        </span>
+        <div role="group" aria-label="Diff view" className="ml-auto flex gap-1">
+          {(["split", "unified"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => changeView(option)}
+              aria-pressed={view === option}
+              className={`px-2 py-0.5 border rounded capitalize transition-colors ${
+                view === option
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        role="region"
+        aria-label={`Changes from ${leftTitle} to ${rightTitle}`}
+        tabIndex={0}
+        className="relative max-h-[480px] overflow-auto bg-white dark:bg-gray-950 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+      >
+        <div className="py-2 text-sm leading-6 font-mono min-w-max">
+          {view === "split" && (
+            <div className="grid grid-cols-2 px-2 pb-1 text-xs font-sans font-semibold text-gray-600 dark:text-gray-400">
+              <span>{leftTitle}</span>
+              <span>{rightTitle}</span>
+            </div>
+          )}
+
+          {items.map((item) => {
+            if (item.type === "hunk") {
+              const isFocused = focused.has(item.hunk);
+              return (
+                <div
+                  key={`hunk-${item.hunk}`}
+                  data-hunk={item.hunk}
+                  className={`px-3 py-0.5 text-xs font-sans ${
+                    isFocused
+                      ? "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200 font-semibold"
+                      : "bg-gray-50 dark:bg-gray-900 text-gray-500 dark:text-gray-400"
+                  }`}
+                >
+                  Change {item.hunk} of {diff.hunkCount}
+                </div>
+              );
+            }
+
+            if (item.type === "fold") {
+              return (
+                <button
+                  key={`fold-${item.start}`}
+                  type="button"
+                  onClick={() =>
+                    setExpanded((prev) => new Set(prev).add(item.start))
+                  }
+                  className="block w-full px-3 py-0.5 text-left text-xs font-sans text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  ⋯ {item.rows.length} unchanged lines
+                </button>
+              );
+            }
+
+            const { row } = item;
+            const opacity = dimmed(row) ? "opacity-50" : "";
+
+            if (view === "unified") {
+              const line = (row.left || row.right)!;
+              return (
+                <div
+                  key={row.key}
+                  className={`flex pr-4 transition-opacity ${
+                    LINE_STYLES[line.kind].row
+                  } ${opacity}`}
+                >
+                  {renderGutter(line.before)}
+                  {renderGutter(line.after)}
+                  {renderSign(line)}
+                  <span className="whitespace-pre">{renderCode(line)}</span>
+                </div>
+              );
+            }
+
+            return (
+              <div
+                key={row.key}
+                className={`grid grid-cols-2 transition-opacity ${opacity}`}
+              >
+                {[row.left, row.right].map((line, side) => (
+                  <div
+                    key={side}
+                    className={`flex pr-4 ${
+                      line
+                        ? LINE_STYLES[line.kind].row
+                        : "bg-gray-50 dark:bg-gray-900"
+                    } ${side === 1 ? "border-l border-gray-200 dark:border-gray-800" : ""}`}
+                  >
+                    {renderGutter(side === 0 ? line?.before : line?.after)}
+                    {renderSign(line)}
+                    <span className="whitespace-pre">{renderCode(line)}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
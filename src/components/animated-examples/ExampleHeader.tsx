@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Link2 } from "lucide-react";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+
+interface ExampleHeaderProps {
+  title: string;
+  description?: string;
+  // Fragment for the current state (see lib/exampleLinks); enables copy link
+  linkHash?: string;
+  // e.g. "step" or "variant", used in the button label
+  linkUnit?: string;
+}
+
+export function ExampleHeader({
+  title,
+  description,
+  linkHash,
+  linkUnit = "step",
+}: ExampleHeaderProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    if (!linkHash) return;
+    const url = `${window.location.origin}${window.location.pathname}${linkHash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked: fall back to putting the link in the address bar
+      window.history.replaceState(null, "", linkHash);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-start justify-between gap-4">
+      <div>
+        <h3 className="text-lg font-semibold mb-1">{title}</h3>
+        {description && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {description}
+          </p>
+        )}
+      </div>
+      {linkHash && (
+        <button
+          onClick={handleCopy}
+          className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          aria-label={`Copy link to this ${linkUnit}`}
+        >
+          {copied ? (
+            <Check className="w-4 h-4 text-green-600 dark:text-green-400" />
+          ) : (
+            <Link2 className="w-4 h-4" />
+          )}
+          <span className="hidden sm:inline">
+            {copied ? "Copied" : "Copy link"}
+          </span>
+        </button>
+      )}
+      <LiveAnnouncer message={copied ? "Link copied" : ""} />
+    </div>
+  );
+}
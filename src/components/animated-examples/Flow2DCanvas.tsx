@@ -0,0 +1,815 @@
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+} from "react";
+import { motion } from "framer-motion";
+import { Maximize2, ZoomIn, ZoomOut } from "lucide-react";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
+import type { Flow2DSpec } from "@/modules/animatedExamples/specSchema";
+import {
+  layoutFlow,
+  type FlowDirection,
+  type FlowPoint,
+} from "@/modules/animatedExamples/flowLayout";
+import {
+  edgeGeometry,
+  type EdgeRouting,
+} from "@/modules/animatedExamples/flowEdges";
+import {
+  groupChain,
+  layoutGroupRegions,
+  resolveFlowGroups,
+  type FlowGroup,
+} from "@/modules/animatedExamples/flowGroups";
+import {
+  MAX_ZOOM,
+  centerViewBox,
+  focusViewBox,
+  panViewBox,
+  viewBoxString,
+  zoomLevel,
+  zoomViewBox,
+  type ViewBox,
+} from "@/modules/animatedExamples/flowCamera";
+
+type FlowPacket = NonNullable<
+  NonNullable<Flow2DSpec["steps"]>[number]["packets"]
+>[number];
+
+interface Flow2DCanvasProps {
+  nodes: Flow2DSpec["nodes"];
+  edges: Flow2DSpec["edges"];
+  activeNodes: string[];
+  activeEdges: string[];
+  onNodeClick?: (nodeId: string) => void;
+  // Accessible name for the diagram as a whole
+  ariaLabel?: string;
+  // Flow direction for nodes without pinned coordinates
+  direction?: FlowDirection;
+  // Routing for edges that don't set their own
+  routing?: EdgeRouting;
+  // Tokens travelling along edges in the current step
+  packets?: FlowPacket[];
+  // Declared groups; nodes may also name undeclared ones
+  groups?: FlowGroup[];
+  activeGroups?: string[];
+  // Move the camera to the active nodes whenever they change (stepped
+  // examples); otherwise the whole diagram is shown until the learner zooms
+  focusActive?: boolean;
+}
+
+// Room around the outermost nodes (active radius plus focus ring)
+const VIEWBOX_PADDING = 60;
+// Samples per packet trip; enough for curves to look smooth
+const PACKET_SAMPLES = 24;
+const PACKET_DURATION = 1.6;
+// Zoom factor of the buttons and +/- keys
+const ZOOM_STEP = 1.5;
+// Room kept around active nodes when the camera focuses on them
+const FOCUS_PADDING = 90;
+// Pointer travel (px) before a press becomes a drag instead of a click
+const DRAG_THRESHOLD = 4;
+// Longer node labels are cut short, with the full label as a tooltip
+const MAX_LABEL_LENGTH = 12;
+
+function truncateLabel(label: string) {
+  return label.length > MAX_LABEL_LENGTH
+    ? `${label.slice(0, MAX_LABEL_LENGTH - 1).trimEnd()}…`
+    : label;
+}
+
+function clientToSvg(
+  svg: SVGSVGElement,
+  clientX: number,
+  clientY: number
+): FlowPoint | null {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return null;
+  const point = new DOMPoint(clientX, clientY).matrixTransform(
+    matrix.inverse()
+  );
+  return { x: point.x, y: point.y };
+}
+
+// One color per group, in resolved group order (see resolveFlowGroups)
+export const FLOW_GROUP_COLORS = [
+  {
+    region: "fill-blue-50/70 dark:fill-blue-950/40 stroke-blue-400",
+    activeRegion: "fill-blue-100 dark:fill-blue-900/50 stroke-blue-600",
+    node: "fill-blue-200 dark:fill-blue-800",
+    label: "fill-blue-700 dark:fill-blue-300",
+    swatch: "bg-blue-50 dark:bg-blue-950/40 border-blue-400",
+  },
+  {
+    region: "fill-green-50/70 dark:fill-green-950/40 stroke-green-400",
+    activeRegion: "fill-green-100 dark:fill-green-900/50 stroke-green-600",
+    node: "fill-green-200 dark:fill-green-800",
+    label: "fill-green-700 dark:fill-green-300",
+    swatch: "bg-green-50 dark:bg-green-950/40 border-green-400",
+  },
+  {
+    region: "fill-amber-50/70 dark:fill-amber-950/40 stroke-amber-400",
+    activeRegion: "fill-amber-100 dark:fill-amber-900/50 stroke-amber-600",
+    node: "fill-amber-200 dark:fill-amber-800",
+    label: "fill-amber-700 dark:fill-amber-300",
+    swatch: "bg-amber-50 dark:bg-amber-950/40 border-amber-400",
+  },
+  {
+    region: "fill-purple-50/70 dark:fill-purple-950/40 stroke-purple-400",
+    activeRegion: "fill-purple-100 dark:fill-purple-900/50 stroke-purple-600",
+    node: "fill-purple-200 dark:fill-purple-800",
+    label: "fill-purple-700 dark:fill-purple-300",
+    swatch: "bg-purple-50 dark:bg-purple-950/40 border-purple-400",
+  },
+  {
+    region: "fill-pink-50/70 dark:fill-pink-950/40 stroke-pink-400",
+    activeRegion: "fill-pink-100 dark:fill-pink-900/50 stroke-pink-600",
+    node: "fill-pink-200 dark:fill-pink-800",
+    label: "fill-pink-700 dark:fill-pink-300",
+    swatch: "bg-pink-50 dark:bg-pink-950/40 border-pink-400",
+  },
+  {
+    region: "fill-teal-50/70 dark:fill-teal-950/40 stroke-teal-400",
+    activeRegion: "fill-teal-100 dark:fill-teal-900/50 stroke-teal-600",
+    node: "fill-teal-200 dark:fill-teal-800",
+    label: "fill-teal-700 dark:fill-teal-300",
+    swatch: "bg-teal-50 dark:bg-teal-950/40 border-teal-400",
+  },
+];
+
+/**
+ * SVG renderer for node/edge diagrams, shared by Flow2D examples and
+ * other graph views (e.g. the curriculum map)
+ */
+export function Flow2DCanvas({
+  nodes,
+  edges,
+  activeNodes,
+  activeEdges,
+  onNodeClick,
+  ariaLabel = "Diagram",
+  direction = "LR",
+  routing = "straight",
+  packets = [],
+  groups,
+  activeGroups = [],
+  focusActive = false,
+}: Flow2DCanvasProps) {
+  const { reduced } = useMotionPrefs();
+
+  const resolvedGroups = useMemo(
+    () => resolveFlowGroups(groups, nodes),
+    [groups, nodes]
+  );
+  const groupIndex = (id?: string) =>
+    resolvedGroups.findIndex((group) => group.id === id);
+
+  // Members of a top-level group are kept next to each other
+  const positions = useMemo(
+    () =>
+      layoutFlow(
+        nodes.map((node) => {
+          const chain = groupChain(resolvedGroups, node.group);
+          return { ...node, cluster: chain[chain.length - 1] };
+        }),
+        edges,
+        direction
+      ),
+    [nodes, edges, direction, resolvedGroups]
+  );
+  const regions = useMemo(
+    () => layoutGroupRegions(resolvedGroups, nodes, positions),
+    [resolvedGroups, nodes, positions]
+  );
+  const positionOf = (id: string) => positions.get(id) || { x: 0, y: 0 };
+  // Drawn radius, so edges end on the circle (active nodes are scaled up)
+  const radiusOf = (id: string) =>
+    activeNodes.includes(id) ? 35 * (reduced ? 1 : 1.2) : 30;
+
+  // Nodes are one tab stop; arrow keys move between them in spec order
+  const [focusIndex, setFocusIndex] = useState(0);
+  const { getItemProps } = useRovingFocus<SVGGElement>({
+    count: nodes.length,
+    activeIndex: Math.min(focusIndex, nodes.length - 1),
+    onMove: setFocusIndex,
+  });
+
+  // e.g. "API, in Origin, active, leads to Cache and Database"
+  const describeNode = (node: Flow2DSpec["nodes"][number]) => {
+    const targets = edges
+      .map((edge) =>
+        edge.from === node.id
+          ? edge.to
+          : edge.bidirectional && edge.to === node.id
+            ? edge.from
+            : null
+      )
+      .map((id) => nodes.find((n) => n.id === id)?.label)
+      .filter(Boolean);
+    const group = resolvedGroups[groupIndex(node.group)];
+    return [
+      node.label,
+      group ? `in ${group.label}` : null,
+      activeNodes.includes(node.id) ? "active" : null,
+      targets.length > 0 ? `leads to ${targets.join(" and ")}` : null,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  };
+
+  const geometries = new Map(
+    edges
+      .filter((edge) => positions.has(edge.from) && positions.has(edge.to))
+      .map((edge) => [
+        edge.id,
+        edgeGeometry(
+          positionOf(edge.from),
+          positionOf(edge.to),
+          edge.routing || routing,
+          radiusOf(edge.from),
+          radiusOf(edge.to)
+        ),
+      ])
+  );
+
+  // Fit the world to the laid-out nodes and group regions
+  const world = useMemo<ViewBox>(() => {
+    const points = Array.from(positions.values());
+    const minX = Math.min(
+      ...points.map((p) => p.x - VIEWBOX_PADDING),
+      ...regions.map((region) => region.x - 8)
+    );
+    const minY = Math.min(
+      ...points.map((p) => p.y - VIEWBOX_PADDING),
+      ...regions.map((region) => region.y - 8)
+    );
+    const maxX = Math.max(
+      ...points.map((p) => p.x + VIEWBOX_PADDING),
+      ...regions.map((region) => region.x + region.width + 8)
+    );
+    const maxY = Math.max(
+      ...points.map((p) => p.y + VIEWBOX_PADDING),
+      ...regions.map((region) => region.y + region.height + 8)
+    );
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }, [positions, regions]);
+
+  // The camera is a viewBox inside the world; null shows all of it.
+  // `smooth` animates the move (steps, buttons) rather than jumping
+  // (drag, pinch, wheel)
+  const focusCamera = () =>
+    focusActive
+      ? {
+          box: focusViewBox(
+            activeNodes.filter((id) => positions.has(id)).map(positionOf),
+            world,
+            FOCUS_PADDING
+          ),
+          smooth: true,
+        }
+      : null;
+  const [camera, setCamera] = useState<{
+    box: ViewBox;
+    smooth: boolean;
+  } | null>(focusCamera);
+  // Re-aim when the active nodes (if followed) or the world change
+  const cameraKey = `${viewBoxString(world)}|${
+    focusActive ? activeNodes.join(",") : ""
+  }`;
+  const [aimedKey, setAimedKey] = useState(cameraKey);
+  if (aimedKey !== cameraKey) {
+    setAimedKey(cameraKey);
+    setCamera(focusCamera());
+  }
+
+  const view = camera?.box || world;
+  const zoom = zoomLevel(view, world);
+  const zoomed = zoom > 1.01;
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomBy = (factor: number) =>
+    setCamera({ box: zoomViewBox(view, world, factor), smooth: true });
+
+  // Ctrl/⌘ + wheel (and trackpad pinch, which sends ctrlKey) zooms at the
+  // pointer; a plain wheel keeps scrolling the page
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const anchor = clientToSvg(svg, event.clientX, event.clientY);
+      setCamera((current) => ({
+        box: zoomViewBox(
+          current?.box || world,
+          world,
+          Math.exp(-event.deltaY * 0.002),
+          anchor || undefined
+        ),
+        smooth: false,
+      }));
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [world]);
+
+  // Drag to pan, two pointers to pinch
+  const pointers = useRef(new Map<number, FlowPoint>());
+  const dragDistance = useRef(0);
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    pointers.current.set(event.pointerId, {
+      x: event.clientX,
+      y: event.clientY,
+    });
+    if (pointers.current.size === 1) dragDistance.current = 0;
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    const svg = svgRef.current;
+    if (!previous || !svg) return;
+    const current = { x: event.clientX, y: event.clientY };
+    pointers.current.set(event.pointerId, current);
+    dragDistance.current += Math.hypot(
+      current.x - previous.x,
+      current.y - previous.y
+    );
+    const pinching = pointers.current.size === 2;
+    if (dragDistance.current < DRAG_THRESHOLD || (!pinching && !zoomed)) {
+      return;
+    }
+    // Capture only once it's a drag, so clicks still reach the nodes
+    if (!svg.hasPointerCapture(event.pointerId)) {
+      svg.setPointerCapture(event.pointerId);
+    }
+
+    if (pinching) {
+      const other = Array.from(pointers.current.entries()).find(
+        ([id]) => id !== event.pointerId
+      )![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(current.x - other.x, current.y - other.y);
+      const anchor = clientToSvg(
+        svg,
+        (current.x + other.x) / 2,
+        (current.y + other.y) / 2
+      );
+      if (before > 0) {
+        setCamera({
+          box: zoomViewBox(view, world, after / before, anchor || undefined),
+          smooth: false,
+        });
+      }
+    } else {
+      // Screen pixels to SVG units (the viewBox is letterboxed to fit)
+      const rect = svg.getBoundingClientRect();
+      const scale = Math.max(
+        view.width / rect.width,
+        view.height / rect.height
+      );
+      setCamera({
+        box: panViewBox(
+          view,
+          world,
+          (previous.x - current.x) * scale,
+          (previous.y - current.y) * scale
+        ),
+        smooth: false,
+      });
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    pointers.current.delete(event.pointerId);
+  };
+
+  // +/- zoom and 0 fits from anywhere in the diagram
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey) return;
+    if (event.key === "+" || event.key === "=") zoomBy(ZOOM_STEP);
+    else if (event.key === "-") zoomBy(1 / ZOOM_STEP);
+    else if (event.key === "0") setCamera(null);
+    else return;
+    event.preventDefault();
+  };
+
+  // Bring a keyboard-focused node into view
+  const revealNode = (point: FlowPoint) => {
+    const margin = 40;
+    const visible =
+      point.x - margin >= view.x &&
+      point.x + margin <= view.x + view.width &&
+      point.y - margin >= view.y &&
+      point.y + margin <= view.y + view.height;
+    if (!visible) {
+      setCamera({ box: centerViewBox(view, world, point), smooth: true });
+    }
+  };
+
+  // Click or drag on the minimap to move the camera there
+  const handleMinimapPointer = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.type === "pointermove" && event.buttons === 0) return;
+    const point = clientToSvg(
+      event.currentTarget,
+      event.clientX,
+      event.clientY
+    );
+    if (point) {
+      setCamera({
+        box: centerViewBox(view, world, point),
+        smooth: event.type === "pointerdown",
+      });
+    }
+  };
+
+  const toolButtonClass =
+    "p-1.5 border border-gray-300 dark:border-gray-700 rounded bg-white/90 dark:bg-gray-900/90 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="relative w-full" onKeyDown={handleKeyDown}>
+      <motion.svg
+        ref={svgRef}
+        role="group"
+        aria-label={ariaLabel}
+        initial={false}
+        animate={{ viewBox: viewBoxString(view) }}
+        transition={
+          reduced || !camera?.smooth
+            ? { duration: 0 }
+            : { duration: 0.6, ease: "easeInOut" }
+        }
+        className={`w-full h-auto select-none ${
+          zoomed ? "cursor-grab active:cursor-grabbing" : ""
+        }`}
+        style={{
+          maxHeight: "500px",
+          // Let the page scroll until the learner has zoomed in
+          touchAction: zoomed ? "none" : "pan-y",
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        {/* Arrow markers (auto-start-reverse so they also serve as start markers) */}
+        <defs>
+          <marker
+            id="arrowhead"
+            markerWidth="10"
+            markerHeight="10"
+            refX="9"
+            refY="3"
+            orient="auto-start-reverse"
+          >
+            <polygon points="0 0, 10 3, 0 6" fill="#9ca3af" />
+          </marker>
+          <marker
+            id="arrowhead-active"
+            markerWidth="10"
+            markerHeight="10"
+            refX="9"
+            refY="3"
+            orient="auto-start-reverse"
+          >
+            <polygon points="0 0, 10 3, 0 6" fill="#3b82f6" />
+          </marker>
+        </defs>
+
+        {/* Group regions, outermost first (described on each node instead) */}
+        {regions.map((region) => {
+          const isActive = activeGroups.includes(region.id);
+          const colors =
+            FLOW_GROUP_COLORS[region.index % FLOW_GROUP_COLORS.length];
+
+          return (
+            <g key={region.id} aria-hidden="true">
+              <rect
+                x={region.x}
+                y={region.y}
+                width={region.width}
+                height={region.height}
+                rx={12}
+                strokeWidth={isActive ? 3 : 1.5}
+                strokeDasharray={isActive ? undefined : "6 4"}
+                className={`transition-colors ${
+                  isActive ? colors.activeRegion : colors.region
+                }`}
+              />
+              <text
+                x={region.x + 12}
+                y={region.y + 16}
+                className={`text-xs font-semibold uppercase tracking-wide ${colors.label}`}
+              >
+                {region.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Edges */}
+        {edges.map((edge) => {
+          const geometry = geometries.get(edge.id);
+          if (!geometry) return null;
+
+          const isActive =
+            activeEdges.includes(edge.id) ||
+            packets.some((packet) => packet.edge === edge.id) ||
+            (activeNodes.includes(edge.from) && activeNodes.includes(edge.to));
+          const marker = isActive
+            ? "url(#arrowhead-active)"
+            : "url(#arrowhead)";
+          // Dashes are drawn with strokeDasharray, which pathLength would override
+          const dashed = edge.style === "dashed";
+          const labelPoint = geometry.pointAt(0.5);
+
+          return (
+            <g key={edge.id}>
+              <motion.path
+                initial={
+                  reduced ? {} : dashed ? { opacity: 0 } : { pathLength: 0 }
+                }
+                animate={
+                  reduced
+                    ? {}
+                    : {
+                        ...(dashed ? {} : { pathLength: isActive ? 1 : 0.3 }),
+                        opacity: isActive ? 1 : 0.3,
+                      }
+                }
+                transition={reduced ? {} : { duration: 0.5 }}
+                d={geometry.d}
+                fill="none"
+                stroke={isActive ? "#3b82f6" : "#9ca3af"}
+                strokeWidth={isActive ? 3 : 1}
+                strokeDasharray={dashed ? "6 4" : undefined}
+                markerEnd={marker}
+                markerStart={edge.bidirectional ? marker : undefined}
+              />
+              {edge.label && (
+                <text
+                  x={labelPoint.x}
+                  y={labelPoint.y}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  paintOrder="stroke"
+                  strokeWidth={4}
+                  className={`text-xs pointer-events-none stroke-white dark:stroke-gray-900 ${
+                    isActive
+                      ? "fill-blue-700 dark:fill-blue-300 font-medium"
+                      : "fill-gray-500 dark:fill-gray-400"
+                  }`}
+                >
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Packets */}
+        {packets.map((packet, index) => {
+          const geometry = geometries.get(packet.edge);
+          if (!geometry) return null;
+          // Responses travel back and are colored apart from requests
+          const color = packet.reverse ? "#10b981" : "#3b82f6";
+          const at = (t: number) =>
+            geometry.pointAt(packet.reverse ? 1 - t : t);
+          const resting = at(0.65);
+          const samples = Array.from({ length: PACKET_SAMPLES + 1 }, (_, i) =>
+            at(i / PACKET_SAMPLES)
+          );
+
+          return (
+            <motion.g
+              key={`${packet.edge}-${packet.reverse ? "back" : "forth"}-${index}`}
+              aria-hidden="true"
+              className="pointer-events-none"
+              initial={false}
+              animate={
+                reduced
+                  ? { x: resting.x, y: resting.y }
+                  : {
+                      x: samples.map((point) => point.x),
+                      y: samples.map((point) => point.y),
+                    }
+              }
+              transition={
+                reduced
+                  ? { duration: 0 }
+                  : {
+                      duration: PACKET_DURATION,
+                      ease: "linear",
+                      repeat: Infinity,
+                      repeatDelay: 0.4,
+                    }
+              }
+            >
+              <circle r={7} fill={color} stroke="white" strokeWidth={2} />
+              {packet.label && (
+                <text
+                  y={-14}
+                  textAnchor="middle"
+                  paintOrder="stroke"
+                  strokeWidth={4}
+                  className="text-xs font-medium stroke-white dark:stroke-gray-900"
+                  fill={color}
+                >
+                  {packet.label}
+                </text>
+              )}
+            </motion.g>
+          );
+        })}
+
+        {/* Nodes */}
+        {nodes.map((node, index) => {
+          const isActive = activeNodes.includes(node.id);
+          const { x, y } = positionOf(node.id);
+          const colorIndex = groupIndex(node.group);
+          const groupClass =
+            colorIndex === -1 || isActive
+              ? ""
+              : FLOW_GROUP_COLORS[colorIndex % FLOW_GROUP_COLORS.length].node;
+          const itemProps = getItemProps(index);
+
+          return (
+            <g
+              key={node.id}
+              {...itemProps}
+              role={onNodeClick ? "button" : "img"}
+              aria-label={describeNode(node)}
+              aria-pressed={onNodeClick ? isActive : undefined}
+              onFocus={() => {
+                setFocusIndex(index);
+                revealNode({ x, y });
+              }}
+              onKeyDown={(event: KeyboardEvent) => {
+                itemProps.onKeyDown(event);
+                if (
+                  !event.defaultPrevented &&
+                  onNodeClick &&
+                  (event.key === "Enter" || event.key === " ")
+                ) {
+                  event.preventDefault();
+                  onNodeClick(node.id);
+                }
+              }}
+              className="group outline-none"
+            >
+              {/* Keyboard focus ring */}
+              <circle
+                cx={x}
+                cy={y}
+                r={(isActive ? 35 : 30) + 7}
+                fill="none"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                className="opacity-0 group-focus-visible:opacity-100"
+              />
+              <motion.circle
+                initial={reduced ? {} : false}
+                animate={
+                  reduced
+                    ? {}
+                    : {
+                        scale: isActive ? 1.2 : 1,
+                        opacity: isActive ? 1 : 0.6,
+                      }
+                }
+                transition={reduced ? {} : { duration: 0.3 }}
+                cx={x}
+                cy={y}
+                r={isActive ? 35 : 30}
+                fill={isActive ? "#3b82f6" : "#e5e7eb"}
+                stroke={isActive ? "#3b82f6" : "#9ca3af"}
+                strokeWidth={isActive ? 4 : 2}
+                className={
+                  isActive
+                    ? "ring-4 ring-blue-400 dark:ring-blue-600"
+                    : groupClass
+                }
+                onClick={() => {
+                  // The end of a drag isn't a click
+                  if (dragDistance.current < DRAG_THRESHOLD) {
+                    onNodeClick?.(node.id);
+                  }
+                }}
+                style={{ cursor: onNodeClick ? "pointer" : "default" }}
+              />
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className={`text-sm font-semibold pointer-events-none ${
+                  isActive ? "fill-white" : "fill-gray-900 dark:fill-gray-100"
+                }`}
+              >
+                {truncateLabel(node.label)}
+              </text>
+              {node.label.length > MAX_LABEL_LENGTH && (
+                <title>{node.label}</title>
+              )}
+            </g>
+          );
+        })}
+      </motion.svg>
+
+      {/* Zoom controls */}
+      <div
+        role="group"
+        aria-label="Zoom"
+        className="absolute top-2 right-2 flex gap-1"
+      >
+        <button
+          type="button"
+          onClick={() => zoomBy(ZOOM_STEP)}
+          disabled={zoom >= MAX_ZOOM}
+          className={toolButtonClass}
+          aria-label="Zoom in"
+          title="Zoom in (+)"
+        >
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+          disabled={!zoomed}
+          className={toolButtonClass}
+          aria-label="Zoom out"
+          title="Zoom out (−)"
+        >
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setCamera(null)}
+          disabled={!zoomed}
+          className={toolButtonClass}
+          aria-label="Fit to view"
+          title="Fit to view (0)"
+        >
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Minimap (pointer only; the zoom controls cover the keyboard) */}
+      {zoomed && (
+        <svg
+          aria-hidden="true"
+          viewBox={viewBoxString(world)}
+          className="absolute bottom-2 right-2 w-32 h-auto rounded border border-gray-300 dark:border-gray-700 bg-white/90 dark:bg-gray-900/90 shadow-sm cursor-pointer touch-none"
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+        >
+          {regions.map((region) => (
+            <rect
+              key={region.id}
+              x={region.x}
+              y={region.y}
+              width={region.width}
+              height={region.height}
+              rx={12}
+              className="fill-gray-100 dark:fill-gray-800"
+            />
+          ))}
+          {nodes.map((node) => {
+            const { x, y } = positionOf(node.id);
+            return (
+              <circle
+                key={node.id}
+                cx={x}
+                cy={y}
+                r={30}
+                className={
+                  activeNodes.includes(node.id)
+                    ? "fill-blue-500"
+                    : "fill-gray-400 dark:fill-gray-500"
+                }
+              />
+            );
+          })}
+          <rect
+            x={view.x}
+            y={view.y}
+            width={view.width}
+            height={view.height}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={world.width / 80}
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
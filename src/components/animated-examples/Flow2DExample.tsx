@@ -1,11 +1,21 @@
 "use client";
 
-import { useState } from "react";
-import { motion } from "framer-motion";
-import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { useEffect, useMemo, useState } from "react";
 import type { Flow2DSpec } from "@/modules/animatedExamples/specSchema";
+import { exampleHash } from "@/lib/exampleLinks";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import {
+  groupChain,
+  resolveFlowGroups,
+} from "@/modules/animatedExamples/flowGroups";
+import { FLOW_GROUP_COLORS, Flow2DCanvas } from "./Flow2DCanvas";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
 
 interface Flow2DExampleProps {
+  exampleId?: string;
   spec: Flow2DSpec;
   title: string;
   description: string;
@@ -14,167 +24,148 @@ interface Flow2DExampleProps {
     mode: "stepper" | "toggle" | "play";
     initialStep?: number;
   };
+  onComplete?: () => void;
 }
 
 export function Flow2DExample({
+  exampleId,
   spec,
   title,
   description,
   whatToNotice,
   controls,
+  onComplete,
 }: Flow2DExampleProps) {
-  const { reduced } = useMotionPrefs();
   const mode = controls?.mode || "stepper";
 
   // If steps are defined, use stepper mode; otherwise allow click interaction
   const hasSteps = spec.steps && spec.steps.length > 0;
-  const [currentStep, setCurrentStep] = useState(controls?.initialStep || 0);
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, spec.steps?.length || 0)
+  );
   const [activeNodeId, setActiveNodeId] = useState<string | null>(
     spec.nodes[0]?.id || null
   );
 
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play" && Boolean(hasSteps),
+    stepCount: spec.steps?.length || 0,
+    currentStep,
+    onStepChange: setCurrentStep,
+    durations: spec.steps?.map((step) => step.durationMs),
+  });
+
   const currentStepData = hasSteps ? spec.steps?.[currentStep] : null;
   const activeNodes =
     currentStepData?.activeNodes || (activeNodeId ? [activeNodeId] : []);
   const activeEdges = currentStepData?.activeEdges || [];
 
-  // Calculate bounds for viewBox
-  const maxX = Math.max(...spec.nodes.map((n) => n.x), 100);
-  const maxY = Math.max(...spec.nodes.map((n) => n.y), 100);
-  const viewBox = `0 0 ${maxX + 100} ${maxY + 100}`;
+  // Legend entries only for what the diagram actually uses
+  // Groups keep their resolved index so colors match the canvas
+  const groups = useMemo(() => {
+    const resolved = resolveFlowGroups(spec.groups, spec.nodes);
+    return resolved
+      .map((group, index) => ({ ...group, index }))
+      .filter((group) =>
+        spec.nodes.some((node) =>
+          groupChain(resolved, node.group).includes(group.id)
+        )
+      );
+  }, [spec.groups, spec.nodes]);
+  const hasAsyncEdges = spec.edges.some((edge) => edge.style === "dashed");
+  const packets = spec.steps?.flatMap((step) => step.packets || []) || [];
+  const hasRequests = packets.some((packet) => !packet.reverse);
+  const hasResponses = packets.some((packet) => packet.reverse);
+  const hasLegend =
+    groups.length > 0 || hasAsyncEdges || hasRequests || hasResponses;
+
+  // Free-exploration diagrams have no end, so they count as seen right away
+  const stepCount = spec.steps?.length || 0;
+  useEffect(() => {
+    if (stepCount === 0 || currentStep === stepCount - 1) onComplete?.();
+  }, [currentStep, stepCount, onComplete]);
 
   return (
-    <div className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden">
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
       {/* Header */}
-      <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h3 className="text-lg font-semibold mb-1">{title}</h3>
-        {description && (
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            {description}
-          </p>
-        )}
-      </div>
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={
+          exampleId
+            ? exampleHash(exampleId, hasSteps ? currentStep : undefined)
+            : undefined
+        }
+      />
+
+      {/* Controls (free exploration diagrams have none) */}
+      {hasSteps && (
+        <StepControls
+          currentStep={currentStep}
+          stepCount={spec.steps?.length || 0}
+          onStepChange={setCurrentStep}
+          playback={playback}
+        />
+      )}
 
       {/* Visualization */}
       <div className="p-6 bg-white dark:bg-gray-900 min-h-[400px] flex items-center justify-center">
-        <svg
-          viewBox={viewBox}
-          className="w-full h-auto"
-          style={{ maxHeight: "500px" }}
-        >
-          {/* Arrow marker */}
-          <defs>
-            <marker
-              id="arrowhead"
-              markerWidth="10"
-              markerHeight="10"
-              refX="9"
-              refY="3"
-              orient="auto"
-            >
-              <polygon points="0 0, 10 3, 0 6" fill="#9ca3af" />
-            </marker>
-            <marker
-              id="arrowhead-active"
-              markerWidth="10"
-              markerHeight="10"
-              refX="9"
-              refY="3"
-              orient="auto"
-            >
-              <polygon points="0 0, 10 3, 0 6" fill="#3b82f6" />
-            </marker>
-          </defs>
-
-          {/* Edges */}
-          {spec.edges.map((edge) => {
-            const fromNode = spec.nodes.find((n) => n.id === edge.from);
-            const toNode = spec.nodes.find((n) => n.id === edge.to);
-            if (!fromNode || !toNode) return null;
-
-            const isActive =
-              activeEdges.includes(edge.id) ||
-              (activeNodes.includes(edge.from) &&
-                activeNodes.includes(edge.to));
-
-            return (
-              <g key={edge.id}>
-                <motion.line
-                  initial={reduced ? {} : { pathLength: 0 }}
-                  animate={
-                    reduced
-                      ? {}
-                      : {
-                          pathLength: isActive ? 1 : 0.3,
-                          opacity: isActive ? 1 : 0.3,
-                        }
-                  }
-                  transition={reduced ? {} : { duration: 0.5 }}
-                  x1={fromNode.x}
-                  y1={fromNode.y}
-                  x2={toNode.x}
-                  y2={toNode.y}
-                  stroke={isActive ? "#3b82f6" : "#9ca3af"}
-                  strokeWidth={isActive ? 3 : 1}
-                  markerEnd={
-                    isActive ? "url(#arrowhead-active)" : "url(#arrowhead)"
-                  }
-                />
-              </g>
-            );
-          })}
-
-          {/* Nodes */}
-          {spec.nodes.map((node) => {
-            const isActive = activeNodes.includes(node.id);
-            const groupColor = node.group
-              ? `hsl(${(node.group.charCodeAt(0) * 137.5) % 360}, 70%, 80%)`
-              : undefined;
-
-            return (
-              <g key={node.id}>
-                <motion.circle
-                  initial={reduced ? {} : false}
-                  animate={
-                    reduced
-                      ? {}
-                      : {
-                          scale: isActive ? 1.2 : 1,
-                          opacity: isActive ? 1 : 0.6,
-                        }
-                  }
-                  transition={reduced ? {} : { duration: 0.3 }}
-                  cx={node.x}
-                  cy={node.y}
-                  r={isActive ? 35 : 30}
-                  fill={groupColor || (isActive ? "#3b82f6" : "#e5e7eb")}
-                  stroke={isActive ? "#3b82f6" : "#9ca3af"}
-                  strokeWidth={isActive ? 4 : 2}
-                  className={
-                    isActive ? "ring-4 ring-blue-400 dark:ring-blue-600" : ""
-                  }
-                  onClick={() => {
-                    if (!hasSteps) setActiveNodeId(node.id);
-                  }}
-                  style={{ cursor: hasSteps ? "default" : "pointer" }}
-                />
-                <text
-                  x={node.x}
-                  y={node.y}
-                  textAnchor="middle"
-                  dominantBaseline="middle"
-                  className={`text-sm font-semibold pointer-events-none ${
-                    isActive ? "fill-white" : "fill-gray-900 dark:fill-gray-100"
-                  }`}
-                >
-                  {node.label}
-                </text>
-              </g>
-            );
-          })}
-        </svg>
+        <Flow2DCanvas
+          nodes={spec.nodes}
+          edges={spec.edges}
+          activeNodes={activeNodes}
+          activeEdges={activeEdges}
+          onNodeClick={
+            hasSteps ? undefined : (nodeId) => setActiveNodeId(nodeId)
+          }
+          ariaLabel={`${title} diagram`}
+          direction={spec.layout?.direction}
+          routing={spec.layout?.routing}
+          packets={currentStepData?.packets}
+          groups={spec.groups}
+          activeGroups={currentStepData?.activeGroups}
+          focusActive={Boolean(hasSteps)}
+        />
       </div>
 
+      {/* Legend */}
+      {hasLegend && (
+        <div className="px-6 pb-4 flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+          {groups.map((group) => (
+            <span key={group.id} className="flex items-center gap-1.5">
+              <span
+                className={`w-3 h-3 rounded-sm border border-dashed ${
+                  FLOW_GROUP_COLORS[group.index % FLOW_GROUP_COLORS.length]
+                    .swatch
+                }`}
+              />
+              {group.label}
+            </span>
+          ))}
+          {hasAsyncEdges && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-4 border-t-2 border-dashed border-gray-400" />
+              Async
+            </span>
+          )}
+          {hasRequests && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full bg-blue-500" />
+              Request
+            </span>
+          )}
+          {hasResponses && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full bg-emerald-500" />
+              Response
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Step explanation (if stepper mode with steps) */}
       {hasSteps && currentStepData?.explanation && (
         <div className="px-6 pb-4">
@@ -186,20 +177,21 @@ export function Flow2DExample({
         </div>
       )}
 
+      <LiveAnnouncer
+        message={
+          currentStepData
+            ? `Step ${currentStep + 1} of ${stepCount}: ${
+                currentStepData.label
+              }. ${currentStepData.explanation}`
+            : `Selected ${
+                spec.nodes.find((node) => node.id === activeNodeId)?.label ||
+                "nothing"
+              }`
+        }
+      />
+
       {/* What to Notice */}
-      <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-gray-100">
-          What to Notice
-        </h4>
-        <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
-          {whatToNotice.map((notice, i) => (
-            <li key={i} className="flex items-start gap-2">
-              <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
-              <span>{notice}</span>
-            </li>
-          ))}
-        </ul>
-      </div>
+      <WhatToNotice items={whatToNotice} />
     </div>
   );
 }
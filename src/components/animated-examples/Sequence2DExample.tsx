@@ -0,0 +1,390 @@
+"use client";
+
+import { useEffect, useId, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import type { Sequence2DSpec } from "@/modules/animatedExamples/specSchema";
+import { exampleHash } from "@/lib/exampleLinks";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface Sequence2DExampleProps {
+  exampleId?: string;
+  spec: Sequence2DSpec;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+// Layout (SVG units)
+const ACTOR_GAP = 180;
+const MARGIN_X = 100;
+const ACTOR_WIDTH = 140;
+const ACTOR_HEIGHT = 40;
+const FIRST_ROW_Y = 110;
+const ROW_HEIGHT = 50;
+const ACTIVATION_WIDTH = 12;
+const SELF_LOOP_WIDTH = 40;
+
+type Row =
+  | { type: "message"; y: number; message: Sequence2DSpec["messages"][number] }
+  | {
+      type: "note";
+      y: number;
+      note: NonNullable<Sequence2DSpec["notes"]>[number];
+    };
+
+export function Sequence2DExample({
+  exampleId,
+  spec,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: Sequence2DExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const markerId = useId();
+  const mode = controls?.mode || "stepper";
+
+  // Without an authored script, every message is its own step
+  const steps = useMemo(
+    () =>
+      spec.steps && spec.steps.length > 0
+        ? spec.steps
+        : spec.messages.map((message) => ({
+            label: message.label,
+            explanation: `${actorLabel(spec, message.from)} → ${actorLabel(
+              spec,
+              message.to
+            )}: ${message.label}`,
+            durationMs: undefined,
+            messages: [message.id],
+          })),
+    [spec]
+  );
+
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, steps.length)
+  );
+  const currentStepData = steps[currentStep];
+
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play",
+    stepCount: steps.length,
+    currentStep,
+    onStepChange: setCurrentStep,
+    durations: steps.map((step) => step.durationMs),
+  });
+
+  useEffect(() => {
+    if (currentStep === steps.length - 1) onComplete?.();
+  }, [currentStep, steps.length, onComplete]);
+
+  const actorX = useMemo(
+    () =>
+      new Map(
+        spec.actors.map((actor, index) => [
+          actor.id,
+          MARGIN_X + index * ACTOR_GAP,
+        ])
+      ),
+    [spec.actors]
+  );
+
+  // One row per message, with notes slotted in after the message they follow
+  const rows = useMemo(() => {
+    const result: Row[] = [];
+    let y = FIRST_ROW_Y;
+    for (const message of spec.messages) {
+      result.push({ type: "message", y, message });
+      y += ROW_HEIGHT;
+      for (const note of spec.notes || []) {
+        if (note.afterMessage !== message.id) continue;
+        result.push({ type: "note", y, note });
+        y += ROW_HEIGHT;
+      }
+    }
+    return result;
+  }, [spec.messages, spec.notes]);
+
+  const messageIndex = useMemo(
+    () => new Map(spec.messages.map((message, index) => [message.id, index])),
+    [spec.messages]
+  );
+  const messageY = (id: string) =>
+    rows.find((row) => row.type === "message" && row.message.id === id)?.y ??
+    FIRST_ROW_Y;
+
+  // Everything up to the last message of the current step is on screen
+  const revealedIndex = Math.max(
+    ...currentStepData.messages.map((id) => messageIndex.get(id) ?? -1)
+  );
+  const isRevealed = (id: string) =>
+    (messageIndex.get(id) ?? Infinity) <= revealedIndex;
+
+  const width = MARGIN_X * 2 + (spec.actors.length - 1) * ACTOR_GAP;
+  const height = (rows[rows.length - 1]?.y ?? FIRST_ROW_Y) + ROW_HEIGHT;
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={exampleId ? exampleHash(exampleId, currentStep) : undefined}
+      />
+
+      {/* Controls */}
+      <StepControls
+        currentStep={currentStep}
+        stepCount={steps.length}
+        onStepChange={setCurrentStep}
+        playback={playback}
+      />
+
+      {/* Visualization */}
+      <div className="p-6 bg-white dark:bg-gray-900 overflow-x-auto">
+        <svg
+          role="img"
+          aria-label={`${title} sequence diagram`}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto min-w-[480px]"
+          style={{ maxHeight: "600px" }}
+        >
+          <defs>
+            {(["gray", "blue"] as const).map((color) => (
+              <g key={color}>
+                <marker
+                  id={`${markerId}-filled-${color}`}
+                  markerWidth="10"
+                  markerHeight="10"
+                  refX="9"
+                  refY="3"
+                  orient="auto"
+                >
+                  <polygon
+                    points="0 0, 10 3, 0 6"
+                    fill={color === "blue" ? "#3b82f6" : "#9ca3af"}
+                  />
+                </marker>
+                <marker
+                  id={`${markerId}-open-${color}`}
+                  markerWidth="10"
+                  markerHeight="10"
+                  refX="9"
+                  refY="3"
+                  orient="auto"
+                >
+                  <polyline
+                    points="0 0, 10 3, 0 6"
+                    fill="none"
+                    stroke={color === "blue" ? "#3b82f6" : "#9ca3af"}
+                    strokeWidth="1.5"
+                  />
+                </marker>
+              </g>
+            ))}
+          </defs>
+
+          {/* Actors and lifelines */}
+          {spec.actors.map((actor) => {
+            const x = actorX.get(actor.id)!;
+            return (
+              <g key={actor.id}>
+                <line
+                  x1={x}
+                  y1={20 + ACTOR_HEIGHT}
+                  x2={x}
+                  y2={height - 10}
+                  stroke="#9ca3af"
+                  strokeWidth={1}
+                  strokeDasharray="4 4"
+                />
+                <rect
+                  x={x - ACTOR_WIDTH / 2}
+                  y={20}
+                  width={ACTOR_WIDTH}
+                  height={ACTOR_HEIGHT}
+                  rx={actor.kind === "person" ? ACTOR_HEIGHT / 2 : 6}
+                  className="fill-gray-100 dark:fill-gray-800 stroke-gray-400 dark:stroke-gray-600"
+                  strokeWidth={2}
+                />
+                <text
+                  x={x}
+                  y={20 + ACTOR_HEIGHT / 2}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className="text-sm font-semibold fill-gray-900 dark:fill-gray-100"
+                >
+                  {actor.label}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Activation bars, growing as their messages are revealed */}
+          {(spec.activations || []).map((activation, index) => {
+            const x = actorX.get(activation.actor);
+            if (x === undefined || !isRevealed(activation.from)) return null;
+
+            const top = messageY(activation.from);
+            const bottom = isRevealed(activation.to)
+              ? messageY(activation.to)
+              : messageY(spec.messages[revealedIndex].id) + ROW_HEIGHT / 2;
+
+            return (
+              <rect
+                key={`activation-${index}`}
+                x={x - ACTIVATION_WIDTH / 2}
+                y={top}
+                width={ACTIVATION_WIDTH}
+                height={Math.max(bottom - top, 4)}
+                className="fill-blue-100 dark:fill-blue-900/60 stroke-blue-400 dark:stroke-blue-600"
+                strokeWidth={1}
+              />
+            );
+          })}
+
+          {/* Messages and notes */}
+          {rows.map((row) => {
+            if (row.type === "note") {
+              const xs = row.note.actors
+                .map((id) => actorX.get(id))
+                .filter((x): x is number => x !== undefined);
+              if (xs.length === 0 || !isRevealed(row.note.afterMessage)) {
+                return null;
+              }
+              const left = Math.min(...xs) - ACTOR_WIDTH / 2 + 10;
+              const right = Math.max(...xs) + ACTOR_WIDTH / 2 - 10;
+
+              return (
+                <g key={`note-${row.y}`}>
+                  <rect
+                    x={left}
+                    y={row.y - 16}
+                    width={right - left}
+                    height={32}
+                    rx={4}
+                    className="fill-yellow-50 dark:fill-yellow-900/40 stroke-yellow-400 dark:stroke-yellow-700"
+                    strokeWidth={1}
+                  />
+                  <text
+                    x={(left + right) / 2}
+                    y={row.y}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="text-xs fill-yellow-900 dark:fill-yellow-100"
+                  >
+                    {row.note.text}
+                  </text>
+                </g>
+              );
+            }
+
+            const { message } = row;
+            const fromX = actorX.get(message.from);
+            const toX = actorX.get(message.to);
+            if (fromX === undefined || toX === undefined) return null;
+
+            const revealed = isRevealed(message.id);
+            const isActive = currentStepData.messages.includes(message.id);
+            const color = isActive ? "blue" : "gray";
+            const head = message.style === "sync" ? "filled" : "open";
+            const stroke = isActive ? "#3b82f6" : "#6b7280";
+            const dash = message.style === "return" ? "6 4" : undefined;
+            const animateDraw = isActive && !reduced;
+
+            // Start / end at the edge of activation bars
+            const direction = toX >= fromX ? 1 : -1;
+            const x1 = fromX + (direction * ACTIVATION_WIDTH) / 2;
+            const x2 = toX - (direction * ACTIVATION_WIDTH) / 2;
+            const isSelf = message.from === message.to;
+
+            return (
+              <g
+                key={message.id}
+                opacity={revealed ? 1 : 0.15}
+                aria-hidden={!revealed}
+              >
+                {isSelf ? (
+                  <motion.path
+                    initial={animateDraw ? { pathLength: 0 } : false}
+                    animate={animateDraw ? { pathLength: 1 } : {}}
+                    transition={animateDraw ? { duration: 0.5 } : {}}
+                    d={`M ${fromX + ACTIVATION_WIDTH / 2} ${row.y - 10} h ${SELF_LOOP_WIDTH} v 20 h ${-SELF_LOOP_WIDTH}`}
+                    fill="none"
+                    stroke={stroke}
+                    strokeWidth={isActive ? 2.5 : 1.5}
+                    strokeDasharray={dash}
+                    markerEnd={`url(#${markerId}-${head}-${color})`}
+                  />
+                ) : (
+                  <motion.line
+                    initial={animateDraw ? { pathLength: 0 } : false}
+                    animate={animateDraw ? { pathLength: 1 } : {}}
+                    transition={animateDraw ? { duration: 0.5 } : {}}
+                    x1={x1}
+                    y1={row.y}
+                    x2={x2}
+                    y2={row.y}
+                    stroke={stroke}
+                    strokeWidth={isActive ? 2.5 : 1.5}
+                    strokeDasharray={dash}
+                    markerEnd={`url(#${markerId}-${head}-${color})`}
+                  />
+                )}
+                <text
+                  x={isSelf ? fromX + SELF_LOOP_WIDTH + 12 : (x1 + x2) / 2}
+                  y={isSelf ? row.y : row.y - 8}
+                  textAnchor={isSelf ? "start" : "middle"}
+                  dominantBaseline={isSelf ? "middle" : "auto"}
+                  className={`text-xs ${
+                    isActive
+                      ? "font-semibold fill-blue-700 dark:fill-blue-300"
+                      : "fill-gray-700 dark:fill-gray-300"
+                  }`}
+                >
+                  {message.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Current step explanation */}
+        {currentStepData.explanation && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+            <p className="text-sm text-blue-900 dark:text-blue-100">
+              {currentStepData.explanation}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <LiveAnnouncer
+        message={`Step ${currentStep + 1} of ${steps.length}: ${
+          currentStepData.label
+        }. ${currentStepData.explanation}`}
+      />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
+
+function actorLabel(spec: Sequence2DSpec, actorId: string) {
+  return spec.actors.find((actor) => actor.id === actorId)?.label || actorId;
+}
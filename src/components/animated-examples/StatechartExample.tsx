@@ -0,0 +1,556 @@
+"use client";
+
+import { useEffect, useId, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import type { StatechartSpec } from "@/modules/animatedExamples/specSchema";
+import {
+  availableEvents,
+  buildStatechartModel,
+  fireEvent,
+  getStateKind,
+  initialConfiguration,
+  type GuardValues,
+  type StatechartModel,
+} from "@/modules/animatedExamples/statechart";
+import { exampleHash } from "@/lib/exampleLinks";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface StatechartExampleProps {
+  exampleId?: string;
+  spec: StatechartSpec;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+// Layout (SVG units)
+const STATE_WIDTH = 130;
+const STATE_HEIGHT = 44;
+const HEADER_HEIGHT = 28;
+const PADDING = 20;
+const GAP = 48;
+const MARGIN = 40;
+const CHILDREN_PER_ROW = 3;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Snapshot {
+  label: string;
+  explanation: string;
+  durationMs?: number;
+  configuration: Set<string>;
+  taken: string[];
+  guards: GuardValues;
+}
+
+export function StatechartExample({
+  exampleId,
+  spec,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: StatechartExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const markerId = useId();
+  const mode = controls?.mode || "stepper";
+
+  const model = useMemo(() => buildStatechartModel(spec), [spec]);
+  const boxes = useMemo(() => layoutStates(model), [model]);
+
+  // Step 0 is the initial configuration, then one step per scripted event
+  const steps = useMemo(() => {
+    let guards: GuardValues = { ...spec.guards };
+    let configuration = initialConfiguration(model);
+    const result: Snapshot[] = [
+      {
+        label: "Initial state",
+        explanation:
+          spec.initialExplanation ||
+          `The chart starts in ${describeConfiguration(model, configuration)}.`,
+        configuration,
+        taken: [],
+        guards,
+      },
+    ];
+    for (const step of spec.script) {
+      guards = { ...guards, ...step.guards };
+      const next = fireEvent(model, configuration, step.event, guards);
+      configuration = next.configuration;
+      result.push({
+        label: step.label || step.event,
+        explanation: step.explanation,
+        durationMs: step.durationMs,
+        configuration,
+        taken: next.taken,
+        guards,
+      });
+    }
+    return result;
+  }, [model, spec.guards, spec.initialExplanation, spec.script]);
+
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, steps.length)
+  );
+  // Events fired by the learner take over from the script until the next
+  // step change
+  const [manual, setManual] = useState<Snapshot | null>(null);
+
+  const goToStep = (step: number) => {
+    setManual(null);
+    setCurrentStep(step);
+  };
+
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play",
+    stepCount: steps.length,
+    currentStep,
+    onStepChange: goToStep,
+    durations: steps.map((step) => step.durationMs),
+  });
+
+  useEffect(() => {
+    if (currentStep === steps.length - 1) onComplete?.();
+  }, [currentStep, steps.length, onComplete]);
+
+  const current = manual || steps[currentStep];
+  const events = availableEvents(model, current.configuration, current.guards);
+
+  const handleFire = (event: string) => {
+    if (playback?.playing) playback.togglePlaying();
+    const next = fireEvent(model, current.configuration, event, current.guards);
+    setManual({
+      label: `You fired ${event}`,
+      explanation: next.taken.length
+        ? `Now in ${describeConfiguration(model, next.configuration)}.`
+        : `No transition handles ${event} here, so nothing changes.`,
+      configuration: next.configuration,
+      taken: next.taken,
+      guards: current.guards,
+    });
+  };
+
+  const rootBox = boxes.get(null)!;
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={exampleId ? exampleHash(exampleId, currentStep) : undefined}
+      />
+
+      {/* Controls */}
+      <StepControls
+        currentStep={currentStep}
+        stepCount={steps.length}
+        onStepChange={goToStep}
+        playback={playback}
+      />
+
+      {/* Visualization */}
+      <div className="p-6 bg-white dark:bg-gray-900 overflow-x-auto">
+        <svg
+          role="img"
+          aria-label={`${title} statechart. Active: ${describeConfiguration(
+            model,
+            current.configuration
+          )}`}
+          viewBox={`0 0 ${rootBox.width} ${rootBox.height}`}
+          className="w-full h-auto min-w-[480px]"
+          style={{ maxHeight: "600px" }}
+        >
+          <defs>
+            {(["gray", "blue"] as const).map((color) => (
+              <marker
+                key={color}
+                id={`${markerId}-${color}`}
+                markerWidth="10"
+                markerHeight="10"
+                refX="9"
+                refY="3"
+                orient="auto"
+              >
+                <polygon
+                  points="0 0, 10 3, 0 6"
+                  fill={color === "blue" ? "#3b82f6" : "#9ca3af"}
+                />
+              </marker>
+            ))}
+          </defs>
+
+          {/* States, outermost first so children draw on top */}
+          {Array.from(boxes.entries()).map(([stateId, box]) => {
+            if (stateId === null) return null;
+            const state = model.states.get(stateId)!;
+            const kind = getStateKind(model, stateId);
+            const isActive = current.configuration.has(stateId);
+            const isLeaf = kind === "atomic" || kind === "final";
+            const parentKind = state.parent
+              ? getStateKind(model, state.parent)
+              : null;
+            const isRegion = parentKind === "parallel";
+            const siblings = model.children.get(state.parent || null) || [];
+            const isInitial =
+              !isRegion &&
+              (state.initial ||
+                (!siblings.some((sibling) => sibling.initial) &&
+                  siblings[0]?.id === stateId));
+
+            return (
+              <g key={stateId}>
+                <motion.rect
+                  x={box.x}
+                  y={box.y}
+                  width={box.width}
+                  height={box.height}
+                  rx={isLeaf ? 12 : 8}
+                  initial={false}
+                  animate={{
+                    strokeWidth: isActive ? 3 : 1.5,
+                  }}
+                  transition={reduced ? { duration: 0 } : { duration: 0.3 }}
+                  strokeDasharray={isRegion ? "6 4" : undefined}
+                  className={
+                    isActive
+                      ? isLeaf
+                        ? "fill-blue-600 stroke-blue-600"
+                        : "fill-blue-50 dark:fill-blue-900/20 stroke-blue-500"
+                      : isLeaf
+                        ? "fill-gray-100 dark:fill-gray-800 stroke-gray-400 dark:stroke-gray-600"
+                        : "fill-white dark:fill-gray-900 stroke-gray-300 dark:stroke-gray-700"
+                  }
+                />
+                {kind === "final" && (
+                  <rect
+                    x={box.x + 4}
+                    y={box.y + 4}
+                    width={box.width - 8}
+                    height={box.height - 8}
+                    rx={9}
+                    fill="none"
+                    strokeWidth={1.5}
+                    className={
+                      isActive
+                        ? "stroke-white"
+                        : "stroke-gray-400 dark:stroke-gray-600"
+                    }
+                  />
+                )}
+                <text
+                  x={isLeaf ? box.x + box.width / 2 : box.x + 10}
+                  y={
+                    isLeaf ? box.y + box.height / 2 : box.y + HEADER_HEIGHT / 2
+                  }
+                  textAnchor={isLeaf ? "middle" : "start"}
+                  dominantBaseline="middle"
+                  className={`text-sm font-semibold ${
+                    isActive && isLeaf
+                      ? "fill-white"
+                      : isActive
+                        ? "fill-blue-700 dark:fill-blue-300"
+                        : "fill-gray-700 dark:fill-gray-300"
+                  }`}
+                >
+                  {state.label || state.id}
+                  {kind === "parallel" ? " (parallel)" : ""}
+                </text>
+                {/* Initial pseudo-state */}
+                {isInitial && (
+                  <g aria-hidden="true">
+                    <circle
+                      cx={box.x - 16}
+                      cy={box.y + 14}
+                      r={5}
+                      className="fill-gray-700 dark:fill-gray-300"
+                    />
+                    <line
+                      x1={box.x - 11}
+                      y1={box.y + 14}
+                      x2={box.x - 2}
+                      y2={box.y + 14}
+                      stroke="#9ca3af"
+                      strokeWidth={1.5}
+                      markerEnd={`url(#${markerId}-gray)`}
+                    />
+                  </g>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Transitions */}
+          {model.transitions.map((transition) => {
+            const fromBox = boxes.get(transition.from);
+            const toBox = boxes.get(transition.to);
+            if (!fromBox || !toBox) return null;
+
+            const isTaken = current.taken.includes(transition.id);
+            const isBlocked =
+              !!transition.guard && current.guards[transition.guard] === false;
+            const color = isTaken ? "blue" : "gray";
+            const animateDraw = isTaken && !reduced;
+            const { d, labelX, labelY } = transitionPath(fromBox, toBox);
+            const label = transition.guard
+              ? `${transition.event} [${transition.guard}]`
+              : transition.event;
+
+            return (
+              <g
+                // Remount taken transitions so the draw animation replays
+                key={`${transition.id}-${isTaken ? current.label : ""}`}
+                opacity={isBlocked ? 0.4 : 1}
+              >
+                <motion.path
+                  initial={animateDraw ? { pathLength: 0 } : false}
+                  animate={animateDraw ? { pathLength: 1 } : {}}
+                  transition={animateDraw ? { duration: 0.6 } : {}}
+                  d={d}
+                  fill="none"
+                  stroke={isTaken ? "#3b82f6" : "#9ca3af"}
+                  strokeWidth={isTaken ? 2.5 : 1.5}
+                  strokeDasharray={isBlocked ? "4 4" : undefined}
+                  markerEnd={`url(#${markerId}-${color})`}
+                />
+                <text
+                  x={labelX}
+                  y={labelY}
+                  textAnchor="middle"
+                  className={`text-xs ${
+                    isTaken
+                      ? "font-semibold fill-blue-700 dark:fill-blue-300"
+                      : "fill-gray-600 dark:fill-gray-400"
+                  }`}
+                >
+                  {label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Events the learner can fire from the current configuration */}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-gray-600 dark:text-gray-400 uppercase">
+            Fire event
+          </span>
+          {events.length === 0 && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              No events leave this configuration.
+            </span>
+          )}
+          {events.map(({ event, enabled }) => (
+            <button
+              key={event}
+              type="button"
+              onClick={() => handleFire(event)}
+              disabled={!enabled}
+              title={enabled ? undefined : "Blocked by a guard"}
+              className="px-3 py-1.5 text-sm font-mono border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {event}
+            </button>
+          ))}
+          {manual && (
+            <button
+              type="button"
+              onClick={() => setManual(null)}
+              className="ml-auto px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Back to step {currentStep + 1}
+            </button>
+          )}
+        </div>
+
+        {/* Current step explanation */}
+        <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-blue-900 dark:text-blue-100">
+            {manual && <span className="font-semibold">{manual.label}. </span>}
+            {current.explanation}
+          </p>
+        </div>
+      </div>
+
+      <LiveAnnouncer
+        message={
+          manual
+            ? `${manual.label}. ${manual.explanation}`
+            : `Step ${currentStep + 1} of ${steps.length}: ${current.label}. ${current.explanation}`
+        }
+      />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
+
+function describeConfiguration(
+  model: StatechartModel,
+  configuration: Set<string>
+) {
+  const leaves = Array.from(configuration).filter(
+    (id) => (model.children.get(id) || []).length === 0
+  );
+  return leaves.map((id) => model.states.get(id)?.label || id).join(" and ");
+}
+
+/**
+ * Nested box layout: leaves are fixed-size, compound states wrap their
+ * children in rows, parallel regions stack vertically. The root (null) box
+ * is the whole canvas.
+ */
+function layoutStates(model: StatechartModel) {
+  const sizes = new Map<string | null, { width: number; height: number }>();
+
+  const rowsOf = (stateId: string | null) => {
+    const children = model.children.get(stateId) || [];
+    const perRow =
+      stateId !== null && getStateKind(model, stateId) === "parallel"
+        ? 1
+        : CHILDREN_PER_ROW;
+    const rows: string[][] = [];
+    children.forEach((child, index) => {
+      if (index % perRow === 0) rows.push([]);
+      rows[rows.length - 1].push(child.id);
+    });
+    return rows;
+  };
+
+  const measure = (
+    stateId: string | null
+  ): { width: number; height: number } => {
+    const rows = rowsOf(stateId);
+    let size;
+    if (rows.length === 0) {
+      size = { width: STATE_WIDTH, height: STATE_HEIGHT };
+    } else {
+      const rowSizes = rows.map((row) => {
+        const childSizes = row.map(measure);
+        return {
+          width:
+            childSizes.reduce((sum, child) => sum + child.width, 0) +
+            GAP * (row.length - 1),
+          height: Math.max(...childSizes.map((child) => child.height)),
+        };
+      });
+      const inner = {
+        width: Math.max(...rowSizes.map((row) => row.width)),
+        height:
+          rowSizes.reduce((sum, row) => sum + row.height, 0) +
+          GAP * (rows.length - 1),
+      };
+      size =
+        stateId === null
+          ? {
+              width: inner.width + MARGIN * 2,
+              height: inner.height + MARGIN * 2,
+            }
+          : {
+              width: inner.width + PADDING * 2,
+              height: inner.height + HEADER_HEIGHT + PADDING,
+            };
+    }
+    sizes.set(stateId, size);
+    return size;
+  };
+
+  const boxes = new Map<string | null, Box>();
+
+  const place = (stateId: string | null, box: Box) => {
+    boxes.set(stateId, box);
+    const isParallel =
+      stateId !== null && getStateKind(model, stateId) === "parallel";
+    const inset =
+      stateId === null
+        ? { left: MARGIN, top: MARGIN }
+        : { left: PADDING, top: HEADER_HEIGHT };
+    let y = box.y + inset.top;
+    for (const row of rowsOf(stateId)) {
+      let x = box.x + inset.left;
+      const rowHeight = Math.max(...row.map((id) => sizes.get(id)!.height));
+      for (const id of row) {
+        const size = sizes.get(id)!;
+        // Parallel regions stretch to the full width of their parent
+        const width = isParallel ? box.width - inset.left * 2 : size.width;
+        place(id, { x, y, width, height: size.height });
+        x += width + GAP;
+      }
+      y += rowHeight + GAP;
+    }
+  };
+
+  const rootSize = measure(null);
+  place(null, { x: 0, y: 0, ...rootSize });
+  return boxes;
+}
+
+// Where the ray from a box's center towards (tx, ty) leaves the box
+function edgePoint(box: Box, tx: number, ty: number) {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = tx - cx;
+  const dy = ty - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: box.y };
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+function contains(outer: Box, inner: Box) {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function transitionPath(from: Box, to: Box) {
+  // Self-loop over the top-right corner
+  if (from === to) {
+    const x = from.x + from.width;
+    const y = from.y;
+    return {
+      d: `M ${x - 28} ${y} C ${x - 28} ${y - 32}, ${x + 32} ${y + 16}, ${x} ${y + 16}`,
+      labelX: x + 8,
+      labelY: y - 12,
+    };
+  }
+
+  // Into a child / out to a parent: leave from the container's header
+  const start = contains(from, to)
+    ? { x: from.x + from.width - PADDING, y: from.y + HEADER_HEIGHT / 2 }
+    : edgePoint(from, to.x + to.width / 2, to.y + to.height / 2);
+  const end = contains(to, from)
+    ? { x: to.x + to.width - PADDING, y: to.y + HEADER_HEIGHT / 2 }
+    : edgePoint(to, start.x, start.y);
+
+  return {
+    d: `M ${start.x} ${start.y} L ${end.x} ${end.y}`,
+    labelX: (start.x + end.x) / 2,
+    labelY: (start.y + end.y) / 2 - 6,
+  };
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { ChevronLeft, ChevronRight, Pause, Play, Repeat } from "lucide-react";
+import type { KeyboardEvent } from "react";
+import { getRovingTarget } from "@/components/a11y/useRovingFocus";
+import { PLAYBACK_SPEEDS, type PlaybackState } from "./usePlayback";
+
+interface StepControlsProps {
+  currentStep: number;
+  stepCount: number;
+  onStepChange: (step: number) => void;
+  // Noun for the counter, e.g. "Step 2 of 5"
+  unit?: string;
+  // Present in "play" mode
+  playback?: PlaybackState;
+}
+
+const buttonClass =
+  "px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+export function StepControls({
+  currentStep,
+  stepCount,
+  onStepChange,
+  unit = "Step",
+  playback,
+}: StepControlsProps) {
+  // Arrow keys / Home / End step from anywhere in the bar (except the
+  // speed menu, which uses arrows itself)
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if ((event.target as HTMLElement).tagName === "SELECT") return;
+    const target = getRovingTarget(event.key, currentStep, stepCount);
+    if (target === null) return;
+    event.preventDefault();
+    onStepChange(target);
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={`${unit} controls`}
+      onKeyDown={handleKeyDown}
+      className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex flex-wrap items-center gap-2"
+    >
+      <button
+        onClick={() => onStepChange(Math.max(currentStep - 1, 0))}
+        disabled={currentStep === 0}
+        className={buttonClass}
+        aria-label={`Previous ${unit.toLowerCase()}`}
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      {playback && (
+        <button
+          onClick={playback.togglePlaying}
+          className={buttonClass}
+          aria-label={playback.playing ? "Pause" : "Play"}
+        >
+          {playback.playing ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+        </button>
+      )}
+      <button
+        onClick={() => onStepChange(Math.min(currentStep + 1, stepCount - 1))}
+        disabled={currentStep === stepCount - 1}
+        className={buttonClass}
+        aria-label={`Next ${unit.toLowerCase()}`}
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <span className="text-sm text-gray-600 dark:text-gray-400 px-2">
+        {unit} {currentStep + 1} of {stepCount}
+      </span>
+
+      {playback && (
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={playback.speed}
+            onChange={(e) => playback.setSpeed(Number(e.target.value))}
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-900"
+            aria-label="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}×
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => playback.setLoop(!playback.loop)}
+            aria-pressed={playback.loop}
+            className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+              playback.loop
+                ? "bg-blue-600 text-white border-blue-600"
+                : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+            aria-label="Loop"
+          >
+            <Repeat className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
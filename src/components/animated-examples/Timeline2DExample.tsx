@@ -1,12 +1,22 @@
 "use client";
 
-import { useState } from "react";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
-import type { Timeline2DSpec } from "@/modules/animatedExamples/specSchema";
+import {
+  timelineStepId,
+  type Timeline2DSpec,
+} from "@/modules/animatedExamples/specSchema";
+import { exampleHash } from "@/lib/exampleLinks";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
 
 interface Timeline2DExampleProps {
+  exampleId?: string;
   spec: Timeline2DSpec;
   title: string;
   description: string;
@@ -15,149 +25,285 @@ interface Timeline2DExampleProps {
     mode: "stepper" | "toggle" | "play";
     initialStep?: number;
   };
+  onComplete?: () => void;
 }
 
+// Layout (px): one column per step, one row per lane
+const COLUMN_WIDTH = 110;
+const ROW_HEIGHT = 104;
+// Step circle centre, from the top of its row
+const NODE_OFFSET = 36;
+
 export function Timeline2DExample({
+  exampleId,
   spec,
   title,
   description,
   whatToNotice,
   controls,
+  onComplete,
 }: Timeline2DExampleProps) {
   const { reduced } = useMotionPrefs();
-  const [currentStep, setCurrentStep] = useState(controls?.initialStep || 0);
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, spec.steps.length)
+  );
   const mode = controls?.mode || "stepper";
 
-  const handleNext = () => {
-    setCurrentStep((prev) => Math.min(prev + 1, spec.steps.length - 1));
-  };
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play",
+    stepCount: spec.steps.length,
+    currentStep,
+    onStepChange: setCurrentStep,
+    durations: spec.steps.map((step) => step.durationMs),
+  });
+
+  const currentStepData = spec.steps[currentStep];
+
+  // Row of each step: its own lane, else a highlight naming it, else the
+  // first lane
+  const stepRows = useMemo(
+    () =>
+      spec.steps.map((step) => {
+        const id = timelineStepId(step);
+        const lane =
+          step.lane ??
+          spec.steps
+            .flatMap((other) => other.highlights || [])
+            .find((highlight) => highlight.nodeId === id)?.lane;
+        return Math.max(lane ? spec.lanes.indexOf(lane) : 0, 0);
+      }),
+    [spec.steps, spec.lanes]
+  );
+
+  // Positions as fractions of the track width / px from its top
+  const columnX = (column: number) =>
+    `${((column + 0.5) / spec.steps.length) * 100}%`;
+  const rowY = (row: number) => row * ROW_HEIGHT + NODE_OFFSET;
 
-  const handlePrev = () => {
-    setCurrentStep((prev) => Math.max(prev - 1, 0));
+  // A step id or lane name, resolved to a column and row
+  const resolveRef = (ref: string) => {
+    const stepIndex = spec.steps.findIndex(
+      (step) => timelineStepId(step) === ref
+    );
+    if (stepIndex !== -1) {
+      return { column: stepIndex, row: stepRows[stepIndex] };
+    }
+    const laneIndex = spec.lanes.indexOf(ref);
+    if (laneIndex !== -1) return { column: currentStep, row: laneIndex };
+    const fallback = spec.lanes.indexOf(currentStepData.tokenPath?.lane || "");
+    return { column: currentStep, row: Math.max(fallback, 0) };
   };
 
-  const currentStepData = spec.steps[currentStep];
+  const tokenPath = currentStepData.tokenPath;
+  const tokenFrom = tokenPath ? resolveRef(tokenPath.from) : null;
+  const tokenTo = tokenPath ? resolveRef(tokenPath.to) : null;
+  const laneName = (row: number) => spec.lanes[row] || "";
+
+  const highlightedSteps = new Set(
+    (currentStepData.highlights || []).map((highlight) => highlight.nodeId)
+  );
+  const highlightedLanes = new Set(
+    (currentStepData.highlights || []).map((highlight) => highlight.lane)
+  );
+
+  const { getItemProps } = useRovingFocus<HTMLButtonElement>({
+    count: spec.steps.length,
+    activeIndex: currentStep,
+    onMove: setCurrentStep,
+    onTogglePlay: playback?.togglePlaying,
+  });
+
+  useEffect(() => {
+    if (currentStep === spec.steps.length - 1) onComplete?.();
+  }, [currentStep, spec.steps.length, onComplete]);
 
   return (
-    <div className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden">
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
       {/* Header */}
-      <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h3 className="text-lg font-semibold mb-1">{title}</h3>
-        {description && (
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            {description}
-          </p>
-        )}
-      </div>
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={exampleId ? exampleHash(exampleId, currentStep) : undefined}
+      />
 
       {/* Controls */}
-      {mode === "stepper" && (
-        <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
-          <button
-            onClick={handlePrev}
-            disabled={currentStep === 0}
-            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            aria-label="Previous step"
-          >
-            <ChevronLeft className="w-4 h-4" />
-          </button>
-          <span className="text-sm text-gray-600 dark:text-gray-400 px-2">
-            Step {currentStep + 1} of {spec.steps.length}
-          </span>
-          <button
-            onClick={handleNext}
-            disabled={currentStep === spec.steps.length - 1}
-            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            aria-label="Next step"
-          >
-            <ChevronRight className="w-4 h-4" />
-          </button>
-        </div>
-      )}
+      <StepControls
+        currentStep={currentStep}
+        stepCount={spec.steps.length}
+        onStepChange={setCurrentStep}
+        playback={playback}
+      />
 
       {/* Visualization */}
       <div className="p-6 bg-white dark:bg-gray-900 min-h-[300px]">
-        {/* Timeline with lanes */}
-        <div className="relative">
+        <div className="flex">
           {/* Lane labels */}
-          <div className="flex mb-4 gap-4">
-            {spec.lanes.map((lane, index) => (
+          <div className="w-24 shrink-0">
+            {spec.lanes.map((lane) => (
               <div
                 key={lane}
-                className="flex-1 text-xs font-medium text-gray-600 dark:text-gray-400 uppercase"
+                className="flex items-start pt-7 pr-2 text-xs font-medium text-gray-600 dark:text-gray-400 uppercase"
+                style={{ height: ROW_HEIGHT }}
               >
                 {lane}
               </div>
             ))}
           </div>
 
-          {/* Timeline line */}
-          <div className="absolute top-1/2 left-0 right-0 h-0.5 bg-gray-300 dark:bg-gray-700" />
-
-          {/* Steps */}
-          <div className="relative flex justify-between items-center py-8">
-            {spec.steps.map((step, index) => {
-              const isActive = index === currentStep;
-              const isPast = index < currentStep;
-
-              // Find lane for this step (from highlights if available)
-              const stepHighlight = currentStepData?.highlights?.find(
-                (h) =>
-                  h.nodeId === step.label.toLowerCase().replace(/\s+/g, "-")
-              );
-              const laneIndex = stepHighlight
-                ? spec.lanes.indexOf(stepHighlight.lane)
-                : 0;
-              const laneOffset = (laneIndex - spec.lanes.length / 2 + 0.5) * 60;
-
-              return (
+          <div className="flex-1 min-w-0 overflow-x-auto">
+            <div
+              className="relative"
+              style={{
+                minWidth: spec.steps.length * COLUMN_WIDTH,
+                height: Math.max(spec.lanes.length, 1) * ROW_HEIGHT,
+              }}
+            >
+              {/* Lane rows */}
+              {spec.lanes.map((lane, row) => (
                 <div
-                  key={index}
-                  className="relative flex flex-col items-center"
-                  style={{ transform: `translateY(${laneOffset}px)` }}
-                >
-                  {/* Step circle */}
-                  <motion.div
-                    initial={reduced ? {} : false}
-                    animate={
-                      reduced
-                        ? {}
-                        : {
-                            scale: isActive ? 1.2 : 1,
-                            opacity: isActive || isPast ? 1 : 0.4,
+                  key={lane}
+                  className={`absolute inset-x-0 border-t border-dashed border-gray-200 dark:border-gray-800 transition-colors ${
+                    highlightedLanes.has(lane)
+                      ? "bg-amber-50 dark:bg-amber-900/10"
+                      : ""
+                  }`}
+                  style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT }}
+                />
+              ))}
+
+              {/* Connectors between consecutive steps */}
+              <svg
+                aria-hidden="true"
+                className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+              >
+                {spec.steps.slice(1).map((_, index) => (
+                  <line
+                    key={index}
+                    x1={columnX(index)}
+                    y1={rowY(stepRows[index])}
+                    x2={columnX(index + 1)}
+                    y2={rowY(stepRows[index + 1])}
+                    strokeWidth={2}
+                    className={`transition-colors ${
+                      index < currentStep
+                        ? "stroke-blue-400 dark:stroke-blue-600"
+                        : "stroke-gray-300 dark:stroke-gray-700"
+                    }`}
+                  />
+                ))}
+              </svg>
+
+              {/* Steps */}
+              <div role="group" aria-label={`${title} steps`}>
+                {spec.steps.map((step, index) => {
+                  const isActive = index === currentStep;
+                  const isPast = index < currentStep;
+                  const isHighlighted = highlightedSteps.has(
+                    timelineStepId(step)
+                  );
+
+                  return (
+                    <div
+                      key={index}
+                      className="absolute flex flex-col items-center -translate-x-1/2"
+                      style={{
+                        left: columnX(index),
+                        top: rowY(stepRows[index]) - 24,
+                        width: COLUMN_WIDTH - 10,
+                      }}
+                    >
+                      {/* Step circle */}
+                      <motion.button
+                        type="button"
+                        {...getItemProps(index)}
+                        onClick={() => setCurrentStep(index)}
+                        aria-label={`Step ${index + 1}: ${step.label}, ${laneName(
+                          stepRows[index]
+                        )}`}
+                        aria-current={isActive ? "step" : undefined}
+                        initial={reduced ? {} : false}
+                        animate={
+                          reduced
+                            ? {}
+                            : {
+                                scale: isActive ? 1.2 : 1,
+                                opacity: isActive || isPast ? 1 : 0.4,
+                              }
+                        }
+                        transition={reduced ? {} : { duration: 0.3 }}
+                        className={`
+                          relative w-12 h-12 rounded-full border-4 flex items-center justify-center text-sm font-semibold focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400 dark:focus-visible:ring-blue-600
+                          ${
+                            isActive
+                              ? "bg-blue-600 border-blue-600 text-white"
+                              : isPast
+                                ? "bg-blue-200 dark:bg-blue-900 border-blue-400 dark:border-blue-700 text-blue-900 dark:text-blue-100"
+                                : "bg-gray-200 dark:bg-gray-700 border-gray-400 dark:border-gray-600 text-gray-600 dark:text-gray-400"
+                          }
+                          ${
+                            isHighlighted
+                              ? "ring-4 ring-amber-400 dark:ring-amber-500"
+                              : ""
                           }
-                    }
-                    transition={reduced ? {} : { duration: 0.3 }}
-                    className={`
-                      w-12 h-12 rounded-full border-4 flex items-center justify-center text-sm font-semibold
-                      ${
-                        isActive
-                          ? "bg-blue-600 border-blue-600 text-white"
-                          : isPast
-                            ? "bg-blue-200 dark:bg-blue-900 border-blue-400 dark:border-blue-700 text-blue-900 dark:text-blue-100"
-                            : "bg-gray-200 dark:bg-gray-700 border-gray-400 dark:border-gray-600 text-gray-600 dark:text-gray-400"
-                      }
-                    `}
-                  >
-                    {index + 1}
-                  </motion.div>
-
-                  {/* Step label */}
-                  <div
-                    className={`
-                      mt-2 text-xs text-center max-w-[100px]
-                      ${
-                        isActive
-                          ? "font-semibold text-gray-900 dark:text-gray-100"
-                          : "text-gray-600 dark:text-gray-400"
-                      }
-                    `}
-                  >
-                    {step.label}
-                  </div>
-                </div>
-              );
-            })}
+                        `}
+                      >
+                        {index + 1}
+                      </motion.button>
+
+                      {/* Step label */}
+                      <div
+                        className={`
+                          mt-2 text-xs text-center max-w-full
+                          ${
+                            isActive
+                              ? "font-semibold text-gray-900 dark:text-gray-100"
+                              : "text-gray-600 dark:text-gray-400"
+                          }
+                        `}
+                      >
+                        {step.label}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Token handed over in this step */}
+              {tokenFrom && tokenTo && (
+                <motion.div
+                  key={currentStep}
+                  aria-hidden="true"
+                  className="absolute flex items-center gap-1 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                  initial={
+                    reduced
+                      ? false
+                      : {
+                          left: columnX(tokenFrom.column),
+                          top: rowY(tokenFrom.row) - 34,
+                        }
+                  }
+                  animate={{
+                    left: columnX(tokenTo.column),
+                    top: rowY(tokenTo.row) - 34,
+                  }}
+                  transition={
+                    reduced
+                      ? { duration: 0 }
+                      : { duration: 0.8, ease: "easeInOut", delay: 0.2 }
+                  }
+                >
+                  <span className="w-3.5 h-3.5 rounded-full bg-amber-500 border-2 border-white dark:border-gray-900 shadow" />
+                  {tokenPath?.label && (
+                    <span className="px-1.5 rounded bg-amber-100 dark:bg-amber-900/60 text-[11px] font-medium text-amber-900 dark:text-amber-100 whitespace-nowrap">
+                      {tokenPath.label}
+                    </span>
+                  )}
+                </motion.div>
+              )}
+            </div>
           </div>
         </div>
 
@@ -171,20 +317,20 @@ export function Timeline2DExample({
         )}
       </div>
 
+      <LiveAnnouncer
+        message={`Step ${currentStep + 1} of ${spec.steps.length}: ${
+          currentStepData?.label
+        }. ${currentStepData?.explanation || ""}${
+          tokenFrom && tokenTo
+            ? ` ${tokenPath?.label || "Token"} moves from ${laneName(
+                tokenFrom.row
+              )} to ${laneName(tokenTo.row)}.`
+            : ""
+        }`}
+      />
+
       {/* What to Notice */}
-      <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
-        <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-gray-100">
-          What to Notice
-        </h4>
-        <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
-          {whatToNotice.map((notice, i) => (
-            <li key={i} className="flex items-start gap-2">
-              <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
-              <span>{notice}</span>
-            </li>
-          ))}
-        </ul>
-      </div>
+      <WhatToNotice items={whatToNotice} />
     </div>
   );
 }
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import type { Tree2DSpec } from "@/modules/animatedExamples/specSchema";
+import { layoutTree } from "@/modules/animatedExamples/treeLayout";
+import { exampleHash } from "@/lib/exampleLinks";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface Tree2DExampleProps {
+  exampleId?: string;
+  spec: Tree2DSpec;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+type NodeState = NonNullable<Tree2DSpec["steps"][number]["nodeStates"]>[string];
+
+// Layout (SVG units)
+const NODE_WIDTH = 120;
+const NODE_HEIGHT = 40;
+const NODE_HEIGHT_WITH_DETAIL = 52;
+const SIBLING_GAP = 24;
+const LEVEL_HEIGHT = 96;
+const MARGIN = 30;
+
+const NODE_STATES: Record<
+  NodeState,
+  { label: string; className: string; textClassName: string }
+> = {
+  rendered: {
+    label: "Rendered",
+    className: "fill-blue-600 stroke-blue-600",
+    textClassName: "fill-white",
+  },
+  updated: {
+    label: "Updated (DOM committed)",
+    className: "fill-amber-400 stroke-amber-500",
+    textClassName: "fill-amber-950",
+  },
+  skipped: {
+    label: "Skipped (memoized)",
+    className:
+      "fill-gray-50 dark:fill-gray-900 stroke-gray-400 dark:stroke-gray-500",
+    textClassName: "fill-gray-500 dark:fill-gray-400",
+  },
+  unmounted: {
+    label: "Unmounted",
+    className:
+      "fill-red-50 dark:fill-red-900/30 stroke-red-500 dark:stroke-red-400",
+    textClassName: "fill-red-700 dark:fill-red-300",
+  },
+};
+
+export function Tree2DExample({
+  exampleId,
+  spec,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: Tree2DExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, spec.steps.length)
+  );
+  const mode = controls?.mode || "stepper";
+
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play",
+    stepCount: spec.steps.length,
+    currentStep,
+    onStepChange: setCurrentStep,
+    durations: spec.steps.map((step) => step.durationMs),
+  });
+
+  useEffect(() => {
+    if (currentStep === spec.steps.length - 1) onComplete?.();
+  }, [currentStep, spec.steps.length, onComplete]);
+
+  const hasDetails = spec.nodes.some((node) => node.detail);
+  const nodeHeight = hasDetails ? NODE_HEIGHT_WITH_DETAIL : NODE_HEIGHT;
+
+  const positions = useMemo(() => {
+    const layout = layoutTree(spec.nodes);
+    return new Map(
+      Array.from(layout, ([id, position]) => [
+        id,
+        {
+          x: MARGIN + position.x * (NODE_WIDTH + SIBLING_GAP) + NODE_WIDTH / 2,
+          y: MARGIN + position.depth * LEVEL_HEIGHT + nodeHeight / 2,
+        },
+      ])
+    );
+  }, [spec.nodes, nodeHeight]);
+
+  const points = Array.from(positions.values());
+  const width = Math.max(...points.map((p) => p.x)) + NODE_WIDTH / 2 + MARGIN;
+  const height = Math.max(...points.map((p) => p.y)) + nodeHeight / 2 + MARGIN;
+
+  const currentStepData = spec.steps[currentStep];
+  const nodeStates = currentStepData.nodeStates || {};
+  const activeEdges = new Set(currentStepData.edges || []);
+  const usedStates = (Object.keys(NODE_STATES) as NodeState[]).filter((state) =>
+    spec.steps.some((step) =>
+      Object.values(step.nodeStates || {}).includes(state)
+    )
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={exampleId ? exampleHash(exampleId, currentStep) : undefined}
+      />
+
+      {/* Controls */}
+      <StepControls
+        currentStep={currentStep}
+        stepCount={spec.steps.length}
+        onStepChange={setCurrentStep}
+        playback={playback}
+      />
+
+      {/* Visualization */}
+      <div className="p-6 bg-white dark:bg-gray-900 overflow-x-auto">
+        <svg
+          role="img"
+          aria-label={`${title} tree`}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto"
+          style={{ maxHeight: "600px" }}
+        >
+          {/* Edges, parent bottom to child top */}
+          {spec.nodes.map((node) => {
+            const from = node.parent ? positions.get(node.parent) : undefined;
+            const to = positions.get(node.id);
+            if (!from || !to) return null;
+
+            const isActive = activeEdges.has(node.id);
+            const y1 = from.y + nodeHeight / 2;
+            const y2 = to.y - nodeHeight / 2;
+            const midY = (y1 + y2) / 2;
+            const animateDraw = isActive && !reduced;
+
+            return (
+              <motion.path
+                key={`${node.id}-${isActive ? currentStep : "idle"}`}
+                initial={animateDraw ? { pathLength: 0 } : false}
+                animate={animateDraw ? { pathLength: 1 } : {}}
+                transition={animateDraw ? { duration: 0.5 } : {}}
+                d={`M ${from.x} ${y1} C ${from.x} ${midY}, ${to.x} ${midY}, ${to.x} ${y2}`}
+                fill="none"
+                stroke={isActive ? "#3b82f6" : "#9ca3af"}
+                strokeWidth={isActive ? 3 : 1.5}
+                strokeDasharray={
+                  nodeStates[node.id] === "unmounted" ? "4 4" : undefined
+                }
+              />
+            );
+          })}
+
+          {/* Nodes */}
+          {spec.nodes.map((node) => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+            const state = nodeStates[node.id];
+            const style = state ? NODE_STATES[state] : null;
+            const pulse =
+              !reduced && (state === "rendered" || state === "updated");
+
+            return (
+              <motion.g
+                key={`${node.id}-${state ? currentStep : "idle"}`}
+                initial={pulse ? { scale: 0.9 } : false}
+                animate={{
+                  scale: 1,
+                  opacity: state === "unmounted" ? 0.6 : 1,
+                }}
+                transition={reduced ? { duration: 0 } : { duration: 0.3 }}
+                style={{ transformBox: "fill-box", transformOrigin: "center" }}
+              >
+                <title>
+                  {state
+                    ? `${node.label}: ${NODE_STATES[state].label}`
+                    : node.label}
+                </title>
+                <rect
+                  x={position.x - NODE_WIDTH / 2}
+                  y={position.y - nodeHeight / 2}
+                  width={NODE_WIDTH}
+                  height={nodeHeight}
+                  rx={8}
+                  strokeWidth={2}
+                  strokeDasharray={state === "skipped" ? "5 3" : undefined}
+                  className={
+                    style?.className ||
+                    "fill-gray-100 dark:fill-gray-800 stroke-gray-300 dark:stroke-gray-600"
+                  }
+                />
+                <text
+                  x={position.x}
+                  y={node.detail ? position.y - 7 : position.y}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  textDecoration={
+                    state === "unmounted" ? "line-through" : undefined
+                  }
+                  className={`text-sm font-semibold font-mono ${
+                    style?.textClassName || "fill-gray-900 dark:fill-gray-100"
+                  }`}
+                >
+                  {node.label}
+                </text>
+                {node.detail && (
+                  <text
+                    x={position.x}
+                    y={position.y + 11}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className={`text-[10px] ${
+                      style?.textClassName || "fill-gray-500 dark:fill-gray-400"
+                    }`}
+                  >
+                    {node.detail}
+                  </text>
+                )}
+              </motion.g>
+            );
+          })}
+        </svg>
+
+        {/* Legend */}
+        {usedStates.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+            {usedStates.map((state) => (
+              <span key={state} className="flex items-center gap-1.5">
+                <svg width="14" height="14" aria-hidden="true">
+                  <rect
+                    x="1"
+                    y="1"
+                    width="12"
+                    height="12"
+                    rx="3"
+                    strokeWidth={2}
+                    strokeDasharray={state === "skipped" ? "3 2" : undefined}
+                    className={NODE_STATES[state].className}
+                  />
+                </svg>
+                {NODE_STATES[state].label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Current step explanation */}
+        {currentStepData.explanation && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+            <p className="text-sm text-blue-900 dark:text-blue-100">
+              {currentStepData.explanation}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <LiveAnnouncer
+        message={`Step ${currentStep + 1} of ${spec.steps.length}: ${
+          currentStepData.label
+        }. ${currentStepData.explanation}`}
+      />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
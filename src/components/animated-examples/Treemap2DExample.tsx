@@ -0,0 +1,427 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronRight } from "lucide-react";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import type { Treemap2DSpec } from "@/modules/animatedExamples/specSchema";
+import {
+  buildTreemapTree,
+  squarify,
+  type TreemapRect,
+} from "@/modules/animatedExamples/treemapLayout";
+import { exampleHash } from "@/lib/exampleLinks";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface Treemap2DExampleProps {
+  exampleId?: string;
+  spec: Treemap2DSpec;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+// Layout (SVG units)
+const WIDTH = 800;
+const HEIGHT = 440;
+const GROUP_HEADER = 20;
+const GROUP_PADDING = 4;
+const MIN_LABEL_WIDTH = 56;
+const MIN_LABEL_HEIGHT = 18;
+
+// One color per top-level group in view
+const GROUP_COLORS = [
+  {
+    group: "fill-blue-100 dark:fill-blue-900/40 stroke-blue-500",
+    leaf: "fill-blue-300 dark:fill-blue-700",
+  },
+  {
+    group: "fill-green-100 dark:fill-green-900/40 stroke-green-500",
+    leaf: "fill-green-300 dark:fill-green-700",
+  },
+  {
+    group: "fill-amber-100 dark:fill-amber-900/40 stroke-amber-500",
+    leaf: "fill-amber-300 dark:fill-amber-700",
+  },
+  {
+    group: "fill-purple-100 dark:fill-purple-900/40 stroke-purple-500",
+    leaf: "fill-purple-300 dark:fill-purple-700",
+  },
+  {
+    group: "fill-pink-100 dark:fill-pink-900/40 stroke-pink-500",
+    leaf: "fill-pink-300 dark:fill-pink-700",
+  },
+  {
+    group: "fill-teal-100 dark:fill-teal-900/40 stroke-teal-500",
+    leaf: "fill-teal-300 dark:fill-teal-700",
+  },
+];
+
+interface Tile {
+  id: string;
+  rect: TreemapRect;
+  depth: 1 | 2;
+  colorIndex: number;
+  isGroup: boolean;
+}
+
+export function Treemap2DExample({
+  exampleId,
+  spec,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: Treemap2DExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const mode = controls?.mode || "stepper";
+
+  // Without steps the treemap is free to explore by drilling down
+  const hasSteps = spec.steps && spec.steps.length > 0;
+  const stepCount = spec.steps?.length || 0;
+  const [currentStep, setCurrentStep] = useState(() =>
+    clampStep(controls?.initialStep, stepCount)
+  );
+  // Drill-down by the learner overrides the step's focus until the step
+  // changes; `id: null` is the top level
+  const [drilled, setDrilled] = useState<{ id: string | null } | null>(null);
+
+  const goToStep = (step: number) => {
+    setDrilled(null);
+    setCurrentStep(step);
+  };
+
+  const { containerRef, playback } = usePlayback({
+    enabled: mode === "play" && Boolean(hasSteps),
+    stepCount,
+    currentStep,
+    onStepChange: goToStep,
+    durations: spec.steps?.map((step) => step.durationMs),
+  });
+
+  // Free-exploration treemaps have no end, so they count as seen right away
+  useEffect(() => {
+    if (stepCount === 0 || currentStep === stepCount - 1) onComplete?.();
+  }, [currentStep, stepCount, onComplete]);
+
+  const currentStepData = hasSteps ? spec.steps?.[currentStep] : null;
+
+  // Moves accumulate, so each step shows the result of all earlier splits
+  const tree = useMemo(
+    () =>
+      buildTreemapTree(
+        spec.items,
+        (spec.steps || [])
+          .slice(0, currentStep + 1)
+          .flatMap((step) => step.moves || [])
+      ),
+    [spec.items, spec.steps, currentStep]
+  );
+
+  const labels = useMemo(
+    () => new Map(spec.items.map((item) => [item.id, item.label])),
+    [spec.items]
+  );
+  const isGroup = (id: string) => (tree.childrenOf.get(id) || []).length > 0;
+
+  const requestedFocus = drilled ? drilled.id : currentStepData?.focus || null;
+  const focus =
+    requestedFocus && isGroup(requestedFocus) ? requestedFocus : null;
+
+  // Two levels below the focus: groups with their children inside
+  const tiles = useMemo(() => {
+    const result: Tile[] = [];
+    const topLevel = tree.childrenOf.get(focus) || [];
+    const rects = squarify(
+      topLevel.map((id) => ({ id, value: tree.sizeOf.get(id) || 0 })),
+      { x: 0, y: 0, width: WIDTH, height: HEIGHT }
+    );
+    topLevel.forEach((id, index) => {
+      const rect = rects.get(id);
+      if (!rect) return;
+      const children = tree.childrenOf.get(id) || [];
+      const colorIndex = index % GROUP_COLORS.length;
+      result.push({
+        id,
+        rect,
+        depth: 1,
+        colorIndex,
+        isGroup: children.length > 0,
+      });
+      if (children.length === 0) return;
+
+      const inner = {
+        x: rect.x + GROUP_PADDING,
+        y: rect.y + GROUP_HEADER,
+        width: rect.width - GROUP_PADDING * 2,
+        height: rect.height - GROUP_HEADER - GROUP_PADDING,
+      };
+      squarify(
+        children.map((child) => ({
+          id: child,
+          value: tree.sizeOf.get(child) || 0,
+        })),
+        inner
+      ).forEach((childRect, child) =>
+        result.push({
+          id: child,
+          rect: childRect,
+          depth: 2,
+          colorIndex,
+          isGroup: (tree.childrenOf.get(child) || []).length > 0,
+        })
+      );
+    });
+    return result;
+  }, [tree, focus]);
+
+  const breadcrumb: Array<string | null> = [null];
+  for (let id = focus; id; id = tree.parentOf.get(id) ?? null) {
+    breadcrumb.splice(1, 0, id);
+  }
+
+  const movedNow = new Set(
+    (currentStepData?.moves || []).map((move) => move.item)
+  );
+  const highlighted = new Set([
+    ...(currentStepData?.highlight || []),
+    ...Array.from(movedNow),
+  ]);
+  const totalSize = focus
+    ? tree.sizeOf.get(focus) || 0
+    : (tree.childrenOf.get(null) || []).reduce(
+        (sum, id) => sum + (tree.sizeOf.get(id) || 0),
+        0
+      );
+
+  const formatSize = (size: number) =>
+    `${Number.isInteger(size) ? size : size.toFixed(1)} ${spec.unit}`;
+
+  const drillInto = (id: string) => {
+    if (isGroup(id)) setDrilled({ id });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={
+          exampleId
+            ? exampleHash(exampleId, hasSteps ? currentStep : undefined)
+            : undefined
+        }
+      />
+
+      {/* Controls (free exploration treemaps have none) */}
+      {hasSteps && (
+        <StepControls
+          currentStep={currentStep}
+          stepCount={stepCount}
+          onStepChange={goToStep}
+          playback={playback}
+        />
+      )}
+
+      {/* Visualization */}
+      <div className="p-6 bg-white dark:bg-gray-900">
+        {/* Breadcrumb back up the hierarchy */}
+        <nav
+          aria-label={`${title} location`}
+          className="mb-3 flex flex-wrap items-center gap-1 text-sm"
+        >
+          {breadcrumb.map((id, index) => {
+            const isLast = index === breadcrumb.length - 1;
+            return (
+              <span key={id ?? "root"} className="flex items-center gap-1">
+                {index > 0 && (
+                  <ChevronRight
+                    className="w-4 h-4 text-gray-400"
+                    aria-hidden="true"
+                  />
+                )}
+                {isLast ? (
+                  <span
+                    aria-current="location"
+                    className="font-semibold text-gray-900 dark:text-gray-100"
+                  >
+                    {id ? labels.get(id) : "All"}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setDrilled({ id })}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {id ? labels.get(id) : "All"}
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          <span className="ml-auto text-gray-500 dark:text-gray-400">
+            {formatSize(totalSize)}
+          </span>
+        </nav>
+
+        <svg
+          role="group"
+          aria-label={`${title} treemap`}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+        >
+          {tiles.map((tile) => {
+            const colors = GROUP_COLORS[tile.colorIndex];
+            const isHighlighted = highlighted.has(tile.id);
+            const label = labels.get(tile.id) || tile.id;
+            const size = tree.sizeOf.get(tile.id) || 0;
+            const showLabel =
+              tile.rect.width >= MIN_LABEL_WIDTH &&
+              tile.rect.height >= MIN_LABEL_HEIGHT;
+            // Groups at the top level keep their label in the header strip
+            const asHeader = tile.depth === 1 && tile.isGroup;
+            const canDrill = tile.isGroup;
+            const transition = reduced ? { duration: 0 } : { duration: 0.5 };
+
+            return (
+              <motion.g
+                // Keyed by item so moved modules glide into their new chunk
+                key={tile.id}
+                role={canDrill ? "button" : "img"}
+                tabIndex={canDrill ? 0 : undefined}
+                aria-label={`${label}, ${formatSize(size)}${
+                  canDrill ? ", open" : ""
+                }`}
+                onClick={canDrill ? () => drillInto(tile.id) : undefined}
+                onKeyDown={
+                  canDrill
+                    ? (event) => {
+                        if (event.key === "Enter" || event.key === " ") {
+                          event.preventDefault();
+                          drillInto(tile.id);
+                        }
+                      }
+                    : undefined
+                }
+                className={`group outline-none ${
+                  canDrill ? "cursor-pointer" : ""
+                }`}
+              >
+                <title>{`${label}: ${formatSize(size)}`}</title>
+                <motion.rect
+                  initial={false}
+                  animate={{
+                    x: tile.rect.x,
+                    y: tile.rect.y,
+                    width: Math.max(tile.rect.width, 0),
+                    height: Math.max(tile.rect.height, 0),
+                  }}
+                  transition={transition}
+                  rx={3}
+                  strokeWidth={isHighlighted ? 3 : tile.depth === 1 ? 1.5 : 1}
+                  className={
+                    isHighlighted
+                      ? "fill-yellow-200 dark:fill-yellow-700 stroke-yellow-500"
+                      : tile.depth === 1 && tile.isGroup
+                        ? colors.group
+                        : `${colors.leaf} stroke-white dark:stroke-gray-900`
+                  }
+                />
+                {/* Keyboard focus ring */}
+                {canDrill && (
+                  <motion.rect
+                    initial={false}
+                    animate={{
+                      x: tile.rect.x + 2,
+                      y: tile.rect.y + 2,
+                      width: Math.max(tile.rect.width - 4, 0),
+                      height: Math.max(tile.rect.height - 4, 0),
+                    }}
+                    transition={transition}
+                    rx={3}
+                    fill="none"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    strokeDasharray="4 3"
+                    className="opacity-0 group-focus-visible:opacity-100"
+                  />
+                )}
+                {showLabel && (
+                  <motion.text
+                    initial={false}
+                    animate={{
+                      x: tile.rect.x + 6,
+                      y: asHeader
+                        ? tile.rect.y + GROUP_HEADER / 2 + 1
+                        : tile.rect.y + 14,
+                    }}
+                    transition={transition}
+                    dominantBaseline="middle"
+                    className="text-xs font-semibold fill-gray-900 dark:fill-gray-100 pointer-events-none"
+                  >
+                    {truncate(label, tile.rect.width)}
+                    {tile.rect.width >= MIN_LABEL_WIDTH * 2 && (
+                      <tspan className="font-normal fill-gray-600 dark:fill-gray-300">
+                        {` ${formatSize(size)}`}
+                      </tspan>
+                    )}
+                  </motion.text>
+                )}
+              </motion.g>
+            );
+          })}
+        </svg>
+
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Click a group to drill into it.
+        </p>
+
+        {/* Current step explanation */}
+        {currentStepData?.explanation && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+            <p className="text-sm text-blue-900 dark:text-blue-100">
+              {currentStepData.explanation}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <LiveAnnouncer
+        message={
+          drilled || !currentStepData
+            ? `Showing ${focus ? labels.get(focus) : "all"}, ${formatSize(
+                totalSize
+              )}`
+            : `Step ${currentStep + 1} of ${stepCount}: ${
+                currentStepData.label
+              }. ${currentStepData.explanation}`
+        }
+      />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
+
+// Roughly 7 SVG units per character at text-xs
+function truncate(label: string, width: number) {
+  const maxChars = Math.floor((width - 12) / 7);
+  return label.length > maxChars
+    ? `${label.slice(0, Math.max(maxChars - 1, 1))}…`
+    : label;
+}
@@ -0,0 +1,455 @@
+"use client";
+
+import { useCallback, useEffect, useId, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import type { Waterfall2DSpec } from "@/modules/animatedExamples/specSchema";
+import { exampleHash } from "@/lib/exampleLinks";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
+import { ExampleHeader } from "./ExampleHeader";
+import { StepControls } from "./StepControls";
+import { WhatToNotice } from "./WhatToNotice";
+import { clampStep, usePlayback } from "./usePlayback";
+
+interface Waterfall2DExampleProps {
+  exampleId?: string;
+  spec: Waterfall2DSpec;
+  title: string;
+  description: string;
+  whatToNotice: string[];
+  controls?: {
+    mode: "stepper" | "toggle" | "play";
+    // Initially selected scenario
+    initialStep?: number;
+  };
+  onComplete?: () => void;
+}
+
+type Resource = Waterfall2DSpec["scenarios"][number]["resources"][number];
+type PhaseName = keyof Resource["phases"];
+
+// Layout (SVG units)
+const LABEL_WIDTH = 180;
+const CHART_WIDTH = 600;
+const AXIS_HEIGHT = 32;
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 14;
+const TICK_STEPS = [50, 100, 200, 250, 500, 1000, 2000, 2500, 5000, 10000];
+const MAX_TICKS = 8;
+// Bars start drawing in time order over this long (ms)
+const REVEAL_MS = 1200;
+
+const PHASES: Array<{ name: PhaseName; label: string; className: string }> = [
+  { name: "dns", label: "DNS", className: "fill-teal-400 dark:fill-teal-500" },
+  {
+    name: "connect",
+    label: "Connect",
+    className: "fill-orange-400 dark:fill-orange-500",
+  },
+  {
+    name: "ttfb",
+    label: "Waiting (TTFB)",
+    className: "fill-green-400 dark:fill-green-500",
+  },
+  {
+    name: "download",
+    label: "Download",
+    className: "fill-blue-500 dark:fill-blue-400",
+  },
+];
+
+export function Waterfall2DExample({
+  exampleId,
+  spec,
+  title,
+  description,
+  whatToNotice,
+  controls,
+  onComplete,
+}: Waterfall2DExampleProps) {
+  const { reduced } = useMotionPrefs();
+  const markerId = useId();
+  const [activeIndex, setActiveIndex] = useState(() =>
+    clampStep(controls?.initialStep, spec.scenarios.length)
+  );
+  const scenario = spec.scenarios[activeIndex];
+  const [visited, setVisited] = useState<Set<number>>(
+    () => new Set([activeIndex])
+  );
+
+  const selectScenario = useCallback((index: number) => {
+    setActiveIndex(index);
+    setVisited((prev) => (prev.has(index) ? prev : new Set(prev).add(index)));
+  }, []);
+
+  // "play" mode cycles through the scenarios
+  const { containerRef, playback } = usePlayback({
+    enabled: controls?.mode === "play" && spec.scenarios.length > 1,
+    stepCount: spec.scenarios.length,
+    currentStep: activeIndex,
+    onStepChange: selectScenario,
+    durations: spec.scenarios.map((item) => item.durationMs),
+  });
+
+  // Complete once every scenario has been looked at
+  useEffect(() => {
+    if (visited.size === spec.scenarios.length) onComplete?.();
+  }, [visited, spec.scenarios.length, onComplete]);
+
+  const { getItemProps } = useRovingFocus<HTMLButtonElement>({
+    count: spec.scenarios.length,
+    activeIndex,
+    onMove: selectScenario,
+    onTogglePlay: playback?.togglePlaying,
+  });
+  const idPrefix = useId();
+  const hasTabs = spec.scenarios.length > 1;
+
+  // One time axis for every scenario so switching compares like with like
+  const { maxTime, tickStep } = useMemo(() => {
+    const ends = spec.scenarios.flatMap((item) => [
+      ...item.resources.map(resourceEnd),
+      ...(item.milestones || []).map((milestone) => milestone.at),
+    ]);
+    const end = Math.max(...ends, 1);
+    const step =
+      TICK_STEPS.find((candidate) => end / candidate <= MAX_TICKS) ||
+      Math.ceil(end / MAX_TICKS);
+    return { maxTime: Math.ceil(end / step) * step, tickStep: step };
+  }, [spec.scenarios]);
+
+  const timeX = (ms: number) => LABEL_WIDTH + (ms / maxTime) * CHART_WIDTH;
+  const rowY = (index: number) => AXIS_HEIGHT + index * ROW_HEIGHT;
+  const rowIndex = new Map(
+    scenario.resources.map((resource, index) => [resource.id, index])
+  );
+
+  const width = LABEL_WIDTH + CHART_WIDTH + 20;
+  const height = AXIS_HEIGHT + scenario.resources.length * ROW_HEIGHT + 10;
+  const baseline = spec.scenarios[0];
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <ExampleHeader
+        title={title}
+        description={description}
+        linkHash={
+          exampleId
+            ? exampleHash(
+                exampleId,
+                hasTabs ? activeIndex : undefined,
+                "toggle"
+              )
+            : undefined
+        }
+        linkUnit="scenario"
+      />
+
+      {/* Scenario toggles */}
+      {hasTabs && (
+        <div
+          role="tablist"
+          aria-label={`${title} scenarios`}
+          className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex flex-wrap gap-2"
+        >
+          {spec.scenarios.map((item, index) => (
+            <button
+              key={index}
+              {...getItemProps(index)}
+              role="tab"
+              id={`${idPrefix}-tab-${index}`}
+              aria-selected={activeIndex === index}
+              aria-controls={`${idPrefix}-panel`}
+              onClick={() => selectScenario(index)}
+              className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+                activeIndex === index
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {playback && (
+        <StepControls
+          currentStep={activeIndex}
+          stepCount={spec.scenarios.length}
+          onStepChange={selectScenario}
+          unit="Scenario"
+          playback={playback}
+        />
+      )}
+
+      {/* Visualization */}
+      <div
+        role={hasTabs ? "tabpanel" : undefined}
+        id={`${idPrefix}-panel`}
+        aria-labelledby={hasTabs ? `${idPrefix}-tab-${activeIndex}` : undefined}
+        className="p-6 bg-white dark:bg-gray-900 overflow-x-auto"
+      >
+        <svg
+          role="img"
+          aria-label={`${title}: ${scenario.label} request waterfall`}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto min-w-[560px]"
+        >
+          <defs>
+            <marker
+              id={`${markerId}-arrow`}
+              markerWidth="8"
+              markerHeight="8"
+              refX="7"
+              refY="3"
+              orient="auto"
+            >
+              <polygon points="0 0, 8 3, 0 6" fill="#9ca3af" />
+            </marker>
+          </defs>
+
+          {/* Time axis */}
+          {Array.from(
+            { length: maxTime / tickStep + 1 },
+            (_, i) => i * tickStep
+          ).map((tick) => (
+            <g key={tick}>
+              <line
+                x1={timeX(tick)}
+                y1={AXIS_HEIGHT - 6}
+                x2={timeX(tick)}
+                y2={height}
+                className="stroke-gray-200 dark:stroke-gray-800"
+                strokeWidth={1}
+              />
+              <text
+                x={timeX(tick)}
+                y={AXIS_HEIGHT - 12}
+                textAnchor="middle"
+                className="text-[10px] fill-gray-500 dark:fill-gray-400"
+              >
+                {formatMs(tick)}
+              </text>
+            </g>
+          ))}
+
+          {/* Re-mount per scenario so the bars replay their reveal */}
+          <g key={activeIndex}>
+            {/* Dependency arrows: from the end of the dependency to the
+                start of the request it unblocked */}
+            {scenario.resources.flatMap((resource) =>
+              (resource.dependsOn || []).map((dependencyId) => {
+                const dependency = scenario.resources.find(
+                  (item) => item.id === dependencyId
+                );
+                if (!dependency) return null;
+                const x1 = timeX(resourceEnd(dependency));
+                const y1 = rowY(rowIndex.get(dependency.id)!) + ROW_HEIGHT / 2;
+                const y2 = rowY(rowIndex.get(resource.id)!) + ROW_HEIGHT / 2;
+                const x2 = timeX(resource.start);
+
+                return (
+                  <path
+                    key={`${dependency.id}-${resource.id}`}
+                    d={`M ${x1} ${y1} V ${y2} H ${x2 - 2}`}
+                    fill="none"
+                    stroke="#9ca3af"
+                    strokeWidth={1}
+                    strokeDasharray="3 3"
+                    markerEnd={`url(#${markerId}-arrow)`}
+                  />
+                );
+              })
+            )}
+
+            {/* Resource rows */}
+            {scenario.resources.map((resource, index) => {
+              const y = rowY(index);
+              const delay = reduced
+                ? 0
+                : (resource.start / maxTime) * (REVEAL_MS / 1000);
+              let cursor = resource.start;
+
+              return (
+                <g key={resource.id}>
+                  <title>{describeResource(resource)}</title>
+                  {resource.blocking && (
+                    <circle
+                      cx={8}
+                      cy={y + ROW_HEIGHT / 2}
+                      r={4}
+                      className="fill-red-500"
+                    />
+                  )}
+                  <text
+                    x={18}
+                    y={y + ROW_HEIGHT / 2}
+                    dominantBaseline="middle"
+                    className={`text-xs ${
+                      resource.blocking
+                        ? "font-semibold fill-gray-900 dark:fill-gray-100"
+                        : "fill-gray-700 dark:fill-gray-300"
+                    }`}
+                  >
+                    {resource.label}
+                    <tspan className="fill-gray-400 dark:fill-gray-500">
+                      {` ${resource.type}`}
+                    </tspan>
+                  </text>
+
+                  {PHASES.map((phase) => {
+                    const duration = resource.phases[phase.name] || 0;
+                    if (duration === 0) return null;
+                    const x = timeX(cursor);
+                    const barWidth = timeX(cursor + duration) - x;
+                    cursor += duration;
+
+                    return (
+                      <motion.rect
+                        key={phase.name}
+                        x={x}
+                        y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                        height={BAR_HEIGHT}
+                        initial={reduced ? false : { width: 0 }}
+                        animate={{ width: Math.max(barWidth, 1) }}
+                        transition={
+                          reduced ? { duration: 0 } : { duration: 0.3, delay }
+                        }
+                        className={phase.className}
+                      />
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </g>
+
+          {/* Milestones */}
+          {(scenario.milestones || []).map((milestone) => (
+            <g key={milestone.label}>
+              <line
+                x1={timeX(milestone.at)}
+                y1={AXIS_HEIGHT - 4}
+                x2={timeX(milestone.at)}
+                y2={height}
+                className="stroke-purple-500"
+                strokeWidth={2}
+                strokeDasharray="6 3"
+              />
+              <text
+                x={timeX(milestone.at) + 4}
+                y={AXIS_HEIGHT + 2}
+                dominantBaseline="hanging"
+                className="text-[10px] font-semibold fill-purple-700 dark:fill-purple-300"
+              >
+                {milestone.label}
+              </text>
+            </g>
+          ))}
+        </svg>
+
+        {/* Legend */}
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+          {PHASES.map((phase) => (
+            <span key={phase.name} className="flex items-center gap-1.5">
+              <svg width="12" height="12" aria-hidden="true">
+                <rect
+                  width="12"
+                  height="12"
+                  rx="2"
+                  className={phase.className}
+                />
+              </svg>
+              {phase.label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-red-500" />
+            Render-blocking
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 border-t-2 border-dashed border-purple-500" />
+            Milestone
+          </span>
+        </div>
+
+        {/* Milestones compared with the first scenario */}
+        {scenario.milestones && scenario.milestones.length > 0 && (
+          <ul className="mt-4 flex flex-wrap gap-2">
+            {scenario.milestones.map((milestone) => {
+              const reference = baseline.milestones?.find(
+                (item) => item.label === milestone.label
+              );
+              const delta =
+                reference && scenario !== baseline
+                  ? milestone.at - reference.at
+                  : null;
+
+              return (
+                <li
+                  key={milestone.label}
+                  className="px-2 py-1 text-sm rounded border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20 text-purple-900 dark:text-purple-100"
+                >
+                  <span className="font-semibold">{milestone.label}</span>{" "}
+                  {formatMs(milestone.at)}
+                  {delta !== null && delta !== 0 && (
+                    <span
+                      className={
+                        delta < 0
+                          ? "ml-1 text-green-700 dark:text-green-400"
+                          : "ml-1 text-red-700 dark:text-red-400"
+                      }
+                    >
+                      ({delta < 0 ? "−" : "+"}
+                      {formatMs(Math.abs(delta))} vs {baseline.label})
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Scenario explanation */}
+        {scenario.explanation && (
+          <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+            <p className="text-sm text-blue-900 dark:text-blue-100">
+              {scenario.explanation}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <LiveAnnouncer message={`${scenario.label}: ${scenario.explanation}`} />
+
+      {/* What to Notice */}
+      <WhatToNotice items={whatToNotice} />
+    </div>
+  );
+}
+
+function resourceEnd(resource: Resource) {
+  const { dns = 0, connect = 0, ttfb = 0, download } = resource.phases;
+  return resource.start + dns + connect + ttfb + download;
+}
+
+function describeResource(resource: Resource) {
+  const phases = PHASES.filter((phase) => resource.phases[phase.name])
+    .map((phase) => `${phase.label} ${formatMs(resource.phases[phase.name]!)}`)
+    .join(", ");
+  return `${resource.label} (${resource.type}${
+    resource.blocking ? ", render-blocking" : ""
+  }): starts at ${formatMs(resource.start)}, ends at ${formatMs(
+    resourceEnd(resource)
+  )}. ${phases}`;
+}
+
+function formatMs(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,21 @@
+interface WhatToNoticeProps {
+  items: string[];
+}
+
+export function WhatToNotice({ items }: WhatToNoticeProps) {
+  return (
+    <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+      <h4 className="text-sm font-semibold mb-2 text-gray-900 dark:text-gray-100">
+        What to Notice
+      </h4>
+      <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+        {items.map((notice, i) => (
+          <li key={i} className="flex items-start gap-2">
+            <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
+            <span>{notice}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 1.5, 2];
+export const DEFAULT_STEP_DURATION_MS = 2500;
+
+/**
+ * Clamp an authored or deep-linked step index to the example's steps
+ */
+export function clampStep(step: number | null | undefined, stepCount: number) {
+  if (!step || stepCount === 0) return 0;
+  return Math.min(Math.max(Math.floor(step), 0), stepCount - 1);
+}
+
+interface UsePlaybackOptions {
+  // Only examples in "play" mode get a transport
+  enabled: boolean;
+  stepCount: number;
+  currentStep: number;
+  onStepChange: (step: number) => void;
+  // Per-step durations from the spec (ms); missing entries use the default
+  durations?: Array<number | undefined>;
+  // Start playing when first scrolled into view (default), or wait for Play
+  autoStart?: boolean;
+}
+
+export interface PlaybackState {
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  togglePlaying: () => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+/**
+ * Autoplay transport for step-based examples. Starts when the example first
+ * scrolls into view, pauses while it is off screen, and never starts (or
+ * keeps running) on its own when reduced motion is on.
+ */
+export function usePlayback<T extends HTMLElement = HTMLDivElement>({
+  enabled,
+  stepCount,
+  currentStep,
+  onStepChange,
+  durations,
+  autoStart = true,
+}: UsePlaybackOptions) {
+  const { reduced } = useMotionPrefs();
+  const containerRef = useRef<T>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+
+  // Reduced motion: stop as soon as it is switched on, while rendering
+  const [wasReduced, setWasReduced] = useState(reduced);
+  if (reduced !== wasReduced) {
+    setWasReduced(reduced);
+    if (reduced) setPlaying(false);
+  }
+
+  const playingRef = useRef(playing);
+  const reducedRef = useRef(reduced);
+  // Set when playback should (re)start the next time the example is visible
+  const resumeOnVisibleRef = useRef(enabled && autoStart);
+  useEffect(() => {
+    playingRef.current = playing;
+    reducedRef.current = reduced;
+    // ...and don't resume behind the learner's back once it is off again
+    if (reduced) resumeOnVisibleRef.current = false;
+  }, [playing, reduced]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!enabled || !element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) {
+          if (playingRef.current) {
+            setPlaying(false);
+            resumeOnVisibleRef.current = true;
+          }
+          return;
+        }
+        if (resumeOnVisibleRef.current && !reducedRef.current) {
+          resumeOnVisibleRef.current = false;
+          setPlaying(true);
+        }
+      },
+      { threshold: 0.25 }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  const stepDuration = durations?.[currentStep] ?? DEFAULT_STEP_DURATION_MS;
+
+  useEffect(() => {
+    if (!enabled || !playing) return;
+
+    const timer = setTimeout(() => {
+      if (currentStep < stepCount - 1) {
+        onStepChange(currentStep + 1);
+      } else if (loop) {
+        onStepChange(0);
+      } else {
+        setPlaying(false);
+      }
+    }, stepDuration / speed);
+    return () => clearTimeout(timer);
+  }, [
+    enabled,
+    playing,
+    currentStep,
+    stepCount,
+    stepDuration,
+    speed,
+    loop,
+    onStepChange,
+  ]);
+
+  const togglePlaying = useCallback(() => {
+    // An explicit choice overrides any pending auto-resume
+    resumeOnVisibleRef.current = false;
+    if (playingRef.current) {
+      setPlaying(false);
+      return;
+    }
+    // Replay from the start once the end has been reached
+    if (currentStep >= stepCount - 1) onStepChange(0);
+    setPlaying(true);
+  }, [currentStep, stepCount, onStepChange]);
+
+  const playback: PlaybackState = {
+    playing,
+    speed,
+    loop,
+    togglePlaying,
+    setSpeed,
+    setLoop,
+  };
+
+  return { containerRef, playback: enabled ? playback : undefined };
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { BookOpen } from "lucide-react";
+import { BookOpen, Library } from "lucide-react";
 import { ReduceMotionToggle } from "@/components/motion/ReduceMotionToggle";
 import { ThemeToggle } from "./ThemeToggle";
 
@@ -25,6 +25,13 @@ export function Header() {
               <BookOpen className="w-4 h-4" />
               <span className="hidden sm:inline">Topics</span>
             </Link>
+            <Link
+              href="/resources"
+              className="flex items-center gap-2 text-sm hover:opacity-70 transition-opacity px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+            >
+              <Library className="w-4 h-4" />
+              <span className="hidden sm:inline">Resources</span>
+            </Link>
             <ThemeToggle />
             <ReduceMotionToggle />
           </div>
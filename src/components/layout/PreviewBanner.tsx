@@ -0,0 +1,26 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { Eye } from "lucide-react";
+
+export function PreviewBanner() {
+  const pathname = usePathname();
+
+  return (
+    <div className="border-b border-yellow-300 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+      <div className="container mx-auto px-4 py-2 max-w-7xl flex items-center justify-between gap-4 text-sm">
+        <span className="flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          Preview mode: you are viewing unpublished draft content.
+        </span>
+        {/* Plain anchor: the exit route is an API handler, not a page */}
+        <a
+          href={`/api/preview/exit?redirect=${encodeURIComponent(pathname)}`}
+          className="font-medium underline hover:opacity-80"
+        >
+          Exit preview
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { CheckCircle2 } from "lucide-react";
+
+interface ProgressBadgeProps {
+  // Completion between 0 and 1
+  ratio: number;
+}
+
+export function ProgressBadge({ ratio }: ProgressBadgeProps) {
+  if (ratio >= 1) {
+    return (
+      <span className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs font-medium rounded text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20">
+        <CheckCircle2 className="w-3.5 h-3.5" />
+        Completed
+      </span>
+    );
+  }
+
+  if (ratio > 0) {
+    return (
+      <span className="flex-shrink-0 px-2 py-1 text-xs font-medium rounded text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20">
+        {Math.round(ratio * 100)}% done
+      </span>
+    );
+  }
+
+  return null;
+}
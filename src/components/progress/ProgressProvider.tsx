@@ -0,0 +1,322 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import {
+  emptyModuleProgress,
+  mergeProgressState,
+  type ModuleProgress,
+  type ProgressState,
+} from "@/lib/progress";
+
+interface ProgressContextValue {
+  progress: ProgressState;
+  // True when progress is also being saved to the signed-in learner's account
+  synced: boolean;
+  setSectionDone: (
+    moduleId: string,
+    sectionKey: string,
+    done: boolean,
+    sectionKeys: string[]
+  ) => void;
+  recordVisit: (moduleId: string, sectionKey: string) => void;
+  recordQuizScore: (moduleId: string, score: number) => void;
+}
+
+export const ProgressContext = createContext<ProgressContextValue | undefined>(
+  undefined
+);
+
+const STORAGE_KEY = "learning-progress";
+const SYNC_DELAY_MS = 1000;
+
+// Shape of documents returned by the Payload REST API for `progress`
+type RemoteProgressDoc = {
+  id: string;
+  module: string | { id: string };
+  completedSections?: string[] | null;
+  lastSectionKey?: string | null;
+  completedAt?: string | null;
+  quizBestScore?: number | null;
+  updatedAt: string;
+};
+
+function readLocalProgress(): ProgressState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ProgressState) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeLocalProgress(state: ProgressState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage full or disabled: progress lives in memory for this visit
+  }
+}
+
+function sameSections(a: string[], b: string[]) {
+  return a.length === b.length && a.every((key) => b.includes(key));
+}
+
+async function findRemoteId(moduleId: string) {
+  const response = await fetch(
+    `/api/progress?depth=0&limit=1&where[module][equals]=${encodeURIComponent(moduleId)}`,
+    { credentials: "include" }
+  );
+  if (!response.ok) return undefined;
+  const data: { docs: RemoteProgressDoc[] } = await response.json();
+  return data.docs[0]?.id;
+}
+
+function fromRemoteDoc(doc: RemoteProgressDoc): ModuleProgress {
+  return {
+    moduleId: typeof doc.module === "string" ? doc.module : doc.module.id,
+    completedSections: doc.completedSections || [],
+    lastSectionKey: doc.lastSectionKey ?? null,
+    completedAt: doc.completedAt ?? null,
+    quizBestScore: doc.quizBestScore ?? null,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+export function ProgressProvider({ children }: { children: ReactNode }) {
+  const [progress, setProgress] = useState<ProgressState>({});
+  const [synced, setSynced] = useState(false);
+  const progressRef = useRef<ProgressState>({});
+  // Payload document ID per module, once the remote record exists
+  const remoteIdsRef = useRef(new Map<string, string>());
+  const syncTimersRef = useRef(
+    new Map<string, ReturnType<typeof setTimeout>>()
+  );
+  const syncedRef = useRef(false);
+
+  const pushRemote = useCallback(async (moduleProgress: ModuleProgress) => {
+    if (!syncedRef.current) return;
+
+    try {
+      // Grading a quiz can create the record on the server, so look it up
+      // before creating one
+      const docId =
+        remoteIdsRef.current.get(moduleProgress.moduleId) ??
+        (await findRemoteId(moduleProgress.moduleId));
+      const response = await fetch(
+        docId ? `/api/progress/${docId}` : "/api/progress",
+        {
+          method: docId ? "PATCH" : "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            module: moduleProgress.moduleId,
+            completedSections: moduleProgress.completedSections,
+            lastSectionKey: moduleProgress.lastSectionKey,
+            completedAt: moduleProgress.completedAt,
+          }),
+        }
+      );
+      if (!response.ok) return;
+      const data: { doc?: RemoteProgressDoc } = await response.json();
+      if (data.doc) {
+        remoteIdsRef.current.set(moduleProgress.moduleId, data.doc.id);
+      }
+    } catch {
+      // Offline: local storage still has it, next load merges it back
+    }
+  }, []);
+
+  const scheduleSync = useCallback(
+    (moduleProgress: ModuleProgress) => {
+      const timers = syncTimersRef.current;
+      const existing = timers.get(moduleProgress.moduleId);
+      if (existing) clearTimeout(existing);
+      timers.set(
+        moduleProgress.moduleId,
+        setTimeout(() => {
+          timers.delete(moduleProgress.moduleId);
+          pushRemote(
+            progressRef.current[moduleProgress.moduleId] || moduleProgress
+          );
+        }, SYNC_DELAY_MS)
+      );
+    },
+    [pushRemote]
+  );
+
+  const commit = useCallback(
+    (next: ProgressState, changed: ModuleProgress) => {
+      progressRef.current = next;
+      setProgress(next);
+      writeLocalProgress(next);
+      scheduleSync(changed);
+    },
+    [scheduleSync]
+  );
+
+  useEffect(() => {
+    // Shown once the account check below settles, so the first render
+    // matches the server's
+    progressRef.current = readLocalProgress();
+
+    // Signed-in learners: merge account progress with this device's progress
+    const controller = new AbortController();
+    const loadRemote = async () => {
+      try {
+        const response = await fetch("/api/progress?depth=0&limit=100", {
+          credentials: "include",
+          signal: controller.signal,
+        });
+        // 403 means nobody is signed in: stay local-only
+        if (!response.ok) {
+          setProgress(progressRef.current);
+          return;
+        }
+
+        const data: { docs: RemoteProgressDoc[] } = await response.json();
+        const remote: ProgressState = {};
+        for (const doc of data.docs) {
+          const moduleProgress = fromRemoteDoc(doc);
+          remote[moduleProgress.moduleId] = moduleProgress;
+          remoteIdsRef.current.set(moduleProgress.moduleId, doc.id);
+        }
+
+        syncedRef.current = true;
+        setSynced(true);
+
+        const merged = mergeProgressState(remote, progressRef.current);
+        progressRef.current = merged;
+        setProgress(merged);
+        writeLocalProgress(merged);
+
+        // Upload anything this device knew that the account did not
+        for (const moduleProgress of Object.values(merged)) {
+          const remoteCopy = remote[moduleProgress.moduleId];
+          if (
+            !remoteCopy ||
+            !sameSections(
+              remoteCopy.completedSections,
+              moduleProgress.completedSections
+            ) ||
+            remoteCopy.lastSectionKey !== moduleProgress.lastSectionKey ||
+            remoteCopy.completedAt !== moduleProgress.completedAt
+          ) {
+            pushRemote(moduleProgress);
+          }
+        }
+      } catch {
+        // Offline: this device's progress is all there is
+        if (!controller.signal.aborted) setProgress(progressRef.current);
+      }
+    };
+    loadRemote();
+
+    const timers = syncTimersRef.current;
+    return () => {
+      controller.abort();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [pushRemote]);
+
+  const setSectionDone = useCallback(
+    (
+      moduleId: string,
+      sectionKey: string,
+      done: boolean,
+      sectionKeys: string[]
+    ) => {
+      const current =
+        progressRef.current[moduleId] || emptyModuleProgress(moduleId);
+      if (current.completedSections.includes(sectionKey) === done) return;
+
+      const completedSections = done
+        ? [...current.completedSections, sectionKey]
+        : current.completedSections.filter((key) => key !== sectionKey);
+      const isComplete =
+        sectionKeys.length > 0 &&
+        sectionKeys.every((key) => completedSections.includes(key));
+
+      const next: ModuleProgress = {
+        ...current,
+        completedSections,
+        completedAt: isComplete
+          ? current.completedAt || new Date().toISOString()
+          : null,
+        updatedAt: new Date().toISOString(),
+      };
+      commit({ ...progressRef.current, [moduleId]: next }, next);
+    },
+    [commit]
+  );
+
+  const recordVisit = useCallback(
+    (moduleId: string, sectionKey: string) => {
+      const current =
+        progressRef.current[moduleId] || emptyModuleProgress(moduleId);
+      if (current.lastSectionKey === sectionKey) return;
+
+      const next: ModuleProgress = {
+        ...current,
+        lastSectionKey: sectionKey,
+        updatedAt: new Date().toISOString(),
+      };
+      commit({ ...progressRef.current, [moduleId]: next }, next);
+    },
+    [commit]
+  );
+
+  const recordQuizScore = useCallback(
+    (moduleId: string, score: number) => {
+      const current =
+        progressRef.current[moduleId] || emptyModuleProgress(moduleId);
+      if ((current.quizBestScore ?? -1) >= score) return;
+
+      const next: ModuleProgress = {
+        ...current,
+        quizBestScore: score,
+        updatedAt: new Date().toISOString(),
+      };
+      commit({ ...progressRef.current, [moduleId]: next }, next);
+    },
+    [commit]
+  );
+
+  return (
+    <ProgressContext.Provider
+      value={{
+        progress,
+        synced,
+        setSectionDone,
+        recordVisit,
+        recordQuizScore,
+      }}
+    >
+      {children}
+    </ProgressContext.Provider>
+  );
+}
+
+export function useProgress() {
+  const context = useContext(ProgressContext);
+
+  // Outside the provider (e.g. admin or tests): read-only, nothing persisted
+  if (context === undefined) {
+    return {
+      progress: {} as ProgressState,
+      synced: false,
+      setSectionDone: () => {},
+      recordVisit: () => {},
+      recordQuizScore: () => {},
+    };
+  }
+
+  return context;
+}
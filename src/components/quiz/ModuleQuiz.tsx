@@ -0,0 +1,373 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import { useProgress } from "@/components/progress/ProgressProvider";
+import type { QuizAnswer, QuizResult, QuestionResult } from "@/lib/quiz";
+import type { PublicQuiz, PublicQuizQuestion } from "@/lib/types";
+
+interface ModuleQuizProps {
+  quiz: PublicQuiz;
+  moduleId: string;
+}
+
+// Ordering options arrive shuffled, so they start in the presented order
+function initialAnswers(quiz: PublicQuiz): QuizAnswer[] {
+  return quiz.questions.map((question) =>
+    question.type === "ordering"
+      ? question.options.map((_, index) => index)
+      : []
+  );
+}
+
+export function ModuleQuiz({ quiz, moduleId }: ModuleQuizProps) {
+  const { progress, recordQuizScore } = useProgress();
+  const [answers, setAnswers] = useState<QuizAnswer[]>(() =>
+    initialAnswers(quiz)
+  );
+  const [graded, setGraded] = useState<QuizResult | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState(false);
+
+  const bestScore = progress[moduleId]?.quizBestScore ?? null;
+  const passingScore = quiz.passingScore ?? 70;
+  const results = graded?.results ?? null;
+  const score = graded?.score ?? null;
+
+  const isAnswered = useMemo(
+    () =>
+      quiz.questions.every(
+        (question, index) =>
+          question.type === "ordering" || answers[index].length > 0
+      ),
+    [quiz.questions, answers]
+  );
+
+  const updateAnswer = (questionIndex: number, answer: QuizAnswer) => {
+    if (results) return;
+    setAnswers((prev) =>
+      prev.map((current, i) => (i === questionIndex ? answer : current))
+    );
+  };
+
+  // Graded on the server, which holds the answer key
+  const handleSubmit = async () => {
+    setIsGrading(true);
+    setGradeError(false);
+    try {
+      const response = await fetch("/api/quiz/grade", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quizId: quiz.id, answers }),
+      });
+      if (!response.ok) throw new Error(`Grading failed: ${response.status}`);
+      const result: QuizResult = await response.json();
+      setGraded(result);
+      recordQuizScore(moduleId, result.score);
+    } catch {
+      setGradeError(true);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleRetry = () => {
+    setAnswers(initialAnswers(quiz));
+    setGraded(null);
+  };
+
+  return (
+    <section
+      id="module-quiz"
+      className="scroll-mt-24 border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-1">{quiz.title}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {quiz.questions.length} questions · {passingScore}% to pass
+          </p>
+        </div>
+        {bestScore !== null && (
+          <span className="flex-shrink-0 px-2 py-1 text-xs font-medium rounded text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20">
+            Best: {bestScore}%
+          </span>
+        )}
+      </div>
+
+      {/* Questions */}
+      <ol className="divide-y divide-gray-200 dark:divide-gray-800">
+        {quiz.questions.map((question, questionIndex) => (
+          <li key={question.id || questionIndex} className="p-6 space-y-4">
+            <QuestionView
+              question={question}
+              number={questionIndex + 1}
+              answer={answers[questionIndex]}
+              result={results?.[questionIndex] ?? null}
+              onChange={(answer) => updateAnswer(questionIndex, answer)}
+            />
+          </li>
+        ))}
+      </ol>
+
+      {/* Submit / score */}
+      <div className="p-4 border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between gap-4">
+        {score === null ? (
+          <>
+            <span
+              role={gradeError ? "alert" : undefined}
+              className={`text-sm ${
+                gradeError
+                  ? "text-red-700 dark:text-red-300"
+                  : "text-gray-600 dark:text-gray-400"
+              }`}
+            >
+              {gradeError
+                ? "Couldn't check your answers. Please try again."
+                : isAnswered
+                  ? "Ready to check your answers"
+                  : "Answer every question to check your answers"}
+            </span>
+            <button
+              onClick={handleSubmit}
+              disabled={!isAnswered || isGrading}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isGrading ? "Checking…" : "Check answers"}
+            </button>
+          </>
+        ) : (
+          <>
+            <span
+              role="status"
+              className={`font-semibold ${
+                score >= passingScore
+                  ? "text-green-700 dark:text-green-300"
+                  : "text-red-700 dark:text-red-300"
+              }`}
+            >
+              You scored {score}%
+              {score >= passingScore ? " — passed" : " — keep practising"}
+            </span>
+            <button
+              onClick={handleRetry}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors flex items-center gap-1"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Try again
+            </button>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+interface QuestionViewProps {
+  question: PublicQuizQuestion;
+  number: number;
+  answer: QuizAnswer;
+  result: QuestionResult | null;
+  onChange: (answer: QuizAnswer) => void;
+}
+
+function QuestionView({
+  question,
+  number,
+  answer,
+  result,
+  onChange,
+}: QuestionViewProps) {
+  const hint =
+    question.type === "multiple"
+      ? "Select all that apply"
+      : question.type === "ordering"
+        ? "Put these in the correct order"
+        : "Select one answer";
+
+  return (
+    <>
+      <div className="flex items-start gap-2">
+        {result &&
+          (result.correct ? (
+            <CheckCircle2 className="flex-shrink-0 w-5 h-5 mt-0.5 text-green-600 dark:text-green-400" />
+          ) : (
+            <XCircle className="flex-shrink-0 w-5 h-5 mt-0.5 text-red-600 dark:text-red-400" />
+          ))}
+        <div>
+          <p className="font-medium text-gray-900 dark:text-gray-100 whitespace-pre-line">
+            {number}. {question.prompt}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+        </div>
+      </div>
+
+      {question.type === "ordering" ? (
+        <OrderingOptions
+          question={question}
+          answer={answer}
+          result={result}
+          onChange={onChange}
+        />
+      ) : (
+        <ChoiceOptions
+          question={question}
+          answer={answer}
+          result={result}
+          onChange={onChange}
+        />
+      )}
+
+      {result?.explanation && (
+        <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-blue-900 dark:text-blue-100 whitespace-pre-line">
+            {result.explanation}
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
+
+type OptionsProps = Omit<QuestionViewProps, "number">;
+
+function ChoiceOptions({ question, answer, result, onChange }: OptionsProps) {
+  const isMultiple = question.type === "multiple";
+
+  const toggle = (index: number) => {
+    if (!isMultiple) {
+      onChange([index]);
+      return;
+    }
+    onChange(
+      answer.includes(index)
+        ? answer.filter((i) => i !== index)
+        : [...answer, index]
+    );
+  };
+
+  return (
+    <ul className="space-y-2">
+      {question.options.map((option, index) => {
+        const selected = answer.includes(index);
+        const isWrong = result?.wrongOptions.includes(index) ?? false;
+        const showCorrect = result?.answer.includes(index) ?? false;
+        const explanation = result?.optionExplanations[index];
+
+        return (
+          <li key={option.id || index}>
+            <label
+              className={`flex items-start gap-3 p-3 border rounded transition-colors ${
+                result ? "cursor-default" : "cursor-pointer"
+              } ${
+                showCorrect
+                  ? "border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20"
+                  : isWrong
+                    ? "border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20"
+                    : selected
+                      ? "border-blue-400 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                      : "border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"
+              }`}
+            >
+              <input
+                type={isMultiple ? "checkbox" : "radio"}
+                name={`question-${question.id || question.prompt}`}
+                checked={selected}
+                disabled={Boolean(result)}
+                onChange={() => toggle(index)}
+                className="mt-1"
+              />
+              <span className="flex-1 text-sm">
+                <span className="text-gray-900 dark:text-gray-100">
+                  {option.text}
+                </span>
+                {/* Explain why a wrong pick (or a missed answer) was wrong */}
+                {isWrong && explanation && (
+                  <span className="block mt-1 text-gray-600 dark:text-gray-400">
+                    {explanation}
+                  </span>
+                )}
+              </span>
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function OrderingOptions({ question, answer, result, onChange }: OptionsProps) {
+  const move = (position: number, delta: number) => {
+    const target = position + delta;
+    if (target < 0 || target >= answer.length) return;
+    const next = [...answer];
+    [next[position], next[target]] = [next[target], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <ol className="space-y-2">
+      {answer.map((optionIndex, position) => {
+        const option = question.options[optionIndex];
+        const isWrong = result?.wrongOptions.includes(optionIndex) ?? false;
+        const explanation = result?.optionExplanations[optionIndex];
+
+        return (
+          <li
+            key={option.id || optionIndex}
+            className={`flex items-start gap-3 p-3 border rounded ${
+              result
+                ? isWrong
+                  ? "border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20"
+                  : "border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20"
+                : "border-gray-300 dark:border-gray-700"
+            }`}
+          >
+            <span className="w-6 text-sm font-semibold text-gray-500 dark:text-gray-400">
+              {position + 1}.
+            </span>
+            <span className="flex-1 text-sm">
+              <span className="text-gray-900 dark:text-gray-100">
+                {option.text}
+              </span>
+              {isWrong && (
+                <span className="block mt-1 text-gray-600 dark:text-gray-400">
+                  Belongs in position{" "}
+                  {(result?.answer.indexOf(optionIndex) ?? 0) + 1}.
+                  {explanation ? ` ${explanation}` : ""}
+                </span>
+              )}
+            </span>
+            {!result && (
+              <span className="flex gap-1">
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  className="p-1 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`Move "${option.text}" up`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === answer.length - 1}
+                  className="p-1 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`Move "${option.text}" down`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -3,11 +3,14 @@
 import { useState } from "react";
 import { ChevronLeft, ChevronRight, Play, RotateCcw } from "lucide-react";
 import { useMotionPrefs } from "@/components/motion/MotionPrefsProvider";
+import { usePlayback } from "@/components/animated-examples/usePlayback";
 import type { TheoryAnimationBlock } from "@/modules/theoryAnimations/schema";
 import { Timeline2DBlock } from "./blocks/Timeline2DBlock";
 import { Flow2DBlock } from "./blocks/Flow2DBlock";
 import { Diff2DBlock } from "./blocks/Diff2DBlock";
 
+const STEP_DURATION_MS = 1000;
+
 interface AnimatedExplanationBlockProps {
   block: TheoryAnimationBlock;
 }
@@ -17,40 +20,34 @@ export function AnimatedExplanationBlock({
 }: AnimatedExplanationBlockProps) {
   const { reduced } = useMotionPrefs();
   const [currentStep, setCurrentStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const stepCount = block.kind === "timeline2d" ? block.steps.length : 0;
+
+  // Plays one step per second once the learner presses Play
+  const { containerRef, playback } = usePlayback({
+    enabled: stepCount > 1,
+    autoStart: false,
+    stepCount,
+    currentStep,
+    onStepChange: setCurrentStep,
+    durations: Array.from({ length: stepCount }, () => STEP_DURATION_MS),
+  });
+  const isPlaying = playback?.playing ?? false;
 
   const handleNext = () => {
-    if (block.kind === "timeline2d") {
-      setCurrentStep((prev) => Math.min(prev + 1, block.steps.length - 1));
-    }
+    setCurrentStep((prev) => Math.min(prev + 1, stepCount - 1));
   };
 
   const handlePrev = () => {
-    if (block.kind === "timeline2d") {
-      setCurrentStep((prev) => Math.max(prev - 1, 0));
-    }
+    setCurrentStep((prev) => Math.max(prev - 1, 0));
   };
 
   const handlePlay = () => {
-    if (block.kind === "timeline2d") {
-      setIsPlaying(true);
-      let step = 0;
-      const interval = setInterval(() => {
-        step++;
-        if (step >= block.steps.length) {
-          clearInterval(interval);
-          setIsPlaying(false);
-          return;
-        }
-        setCurrentStep(step);
-      }, 1000);
-      return () => clearInterval(interval);
-    }
+    if (!isPlaying) playback?.togglePlaying();
   };
 
   const handleReset = () => {
     setCurrentStep(0);
-    setIsPlaying(false);
+    if (isPlaying) playback?.togglePlaying();
   };
 
   const renderVisualization = () => {
@@ -60,6 +57,8 @@ export function AnimatedExplanationBlock({
           <Timeline2DBlock
             block={block}
             currentStep={currentStep}
+            onStepChange={setCurrentStep}
+            onTogglePlay={playback?.togglePlaying}
             reduced={reduced}
           />
         );
@@ -81,7 +80,10 @@ export function AnimatedExplanationBlock({
   const canToggle = block.kind === "flow2d" || block.kind === "diff2d";
 
   return (
-    <div className="my-8 border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden">
+    <div
+      ref={containerRef}
+      className="my-8 border border-gray-200 dark:border-gray-800 rounded-lg bg-white dark:bg-gray-900 overflow-hidden"
+    >
       {/* Header */}
       <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
         <h3 className="text-lg font-semibold mb-1">{block.title}</h3>
@@ -94,7 +96,11 @@ export function AnimatedExplanationBlock({
 
       {/* Controls */}
       {canStep && (
-        <div className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+        <div
+          role="group"
+          aria-label="Step controls"
+          className="p-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2"
+        >
           <button
             onClick={handlePrev}
             disabled={currentStep === 0}
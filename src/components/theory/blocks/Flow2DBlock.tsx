@@ -3,6 +3,8 @@
 import { useState } from "react";
 import type { Flow2DBlock } from "@/modules/theoryAnimations/schema";
 import { motion, AnimatePresence } from "framer-motion";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
 
 interface Flow2DBlockProps {
   block: Flow2DBlock;
@@ -14,6 +16,15 @@ export function Flow2DBlock({ block, reduced }: Flow2DBlockProps) {
     block.defaultState?.activeNodeId || block.nodes[0]?.id || null
   );
 
+  // Nodes are one tab stop; arrows move focus, Enter / Space select
+  const [focusIndex, setFocusIndex] = useState(0);
+  const { getItemProps } = useRovingFocus<SVGGElement>({
+    count: block.nodes.length,
+    activeIndex: focusIndex,
+    onMove: setFocusIndex,
+  });
+  const activeNode = block.nodes.find((node) => node.id === activeNodeId);
+
   const getNodeTypeStyles = (type?: string) => {
     switch (type) {
       case "source":
@@ -30,6 +41,8 @@ export function Flow2DBlock({ block, reduced }: Flow2DBlockProps) {
   return (
     <div className="w-full">
       <svg
+        role="group"
+        aria-label={`${block.title} diagram`}
         viewBox="0 0 800 400"
         className="w-full h-auto"
         style={{ maxHeight: "400px" }}
@@ -105,9 +118,36 @@ export function Flow2DBlock({ block, reduced }: Flow2DBlockProps) {
           const x = 100 + (index % 4) * 150;
           const y = 100 + Math.floor(index / 4) * 150;
           const isActive = activeNodeId === node.id;
+          const itemProps = getItemProps(index);
 
           return (
-            <g key={node.id}>
+            <g
+              key={node.id}
+              {...itemProps}
+              role="button"
+              aria-label={`${node.label}${node.type ? ` (${node.type})` : ""}`}
+              aria-pressed={isActive}
+              onFocus={() => setFocusIndex(index)}
+              onKeyDown={(event) => {
+                itemProps.onKeyDown(event);
+                if (event.key === "Enter" || event.key === " ") {
+                  event.preventDefault();
+                  setActiveNodeId(node.id);
+                }
+              }}
+              className="group outline-none"
+            >
+              {/* Keyboard focus ring */}
+              <circle
+                cx={x}
+                cy={y}
+                r={(isActive ? 35 : 30) + 7}
+                fill="none"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                className="opacity-0 group-focus-visible:opacity-100"
+              />
               <motion.circle
                 initial={reduced ? {} : false}
                 animate={
@@ -145,6 +185,9 @@ export function Flow2DBlock({ block, reduced }: Flow2DBlockProps) {
           );
         })}
       </svg>
+      <LiveAnnouncer
+        message={activeNode ? `Selected ${activeNode.label}` : ""}
+      />
     </div>
   );
 }
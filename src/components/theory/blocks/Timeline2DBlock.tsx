@@ -2,19 +2,33 @@
 
 import type { Timeline2DBlock } from "@/modules/theoryAnimations/schema";
 import { motion } from "framer-motion";
+import { LiveAnnouncer } from "@/components/a11y/LiveAnnouncer";
+import { useRovingFocus } from "@/components/a11y/useRovingFocus";
 
 interface Timeline2DBlockProps {
   block: Timeline2DBlock;
   currentStep: number;
+  onStepChange: (step: number) => void;
+  // Space on a step toggles playback when set
+  onTogglePlay?: () => void;
   reduced: boolean;
 }
 
 export function Timeline2DBlock({
   block,
   currentStep,
+  onStepChange,
+  onTogglePlay,
   reduced,
 }: Timeline2DBlockProps) {
   const lanes = ["default", "server", "client", "edge"] as const;
+  const { getItemProps } = useRovingFocus<HTMLButtonElement>({
+    count: block.steps.length,
+    activeIndex: currentStep,
+    onMove: onStepChange,
+    onTogglePlay,
+  });
+  const current = block.steps[currentStep];
 
   return (
     <div className="w-full">
@@ -24,7 +38,11 @@ export function Timeline2DBlock({
         <div className="absolute top-1/2 left-0 right-0 h-0.5 bg-gray-300 dark:bg-gray-700" />
 
         {/* Steps */}
-        <div className="relative flex justify-between items-center py-8">
+        <div
+          role="group"
+          aria-label={`${block.title} steps`}
+          className="relative flex justify-between items-center py-8"
+        >
           {block.steps.map((step, index) => {
             const isActive = index === currentStep;
             const isPast = index < currentStep;
@@ -38,7 +56,12 @@ export function Timeline2DBlock({
                 style={{ transform: `translateY(${laneOffset}px)` }}
               >
                 {/* Step circle */}
-                <motion.div
+                <motion.button
+                  type="button"
+                  {...getItemProps(index)}
+                  onClick={() => onStepChange(index)}
+                  aria-label={`Step ${index + 1}: ${step.label}`}
+                  aria-current={isActive ? "step" : undefined}
                   initial={reduced ? {} : false}
                   animate={
                     reduced
@@ -50,7 +73,7 @@ export function Timeline2DBlock({
                   }
                   transition={reduced ? {} : { duration: 0.3 }}
                   className={`
-                    w-12 h-12 rounded-full border-4 flex items-center justify-center text-sm font-semibold
+                    w-12 h-12 rounded-full border-4 flex items-center justify-center text-sm font-semibold focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400 dark:focus-visible:ring-blue-600
                     ${
                       isActive
                         ? "bg-blue-600 border-blue-600 text-white"
@@ -61,7 +84,7 @@ export function Timeline2DBlock({
                   `}
                 >
                   {index + 1}
-                </motion.div>
+                </motion.button>
 
                 {/* Step label */}
                 <div
@@ -89,6 +112,12 @@ export function Timeline2DBlock({
         </div>
       </div>
 
+      <LiveAnnouncer
+        message={`Step ${currentStep + 1} of ${block.steps.length}: ${
+          current?.label
+        }${current?.description ? `. ${current.description}` : ""}`}
+      />
+
       {/* Current step description */}
       {block.steps[currentStep]?.description && (
         <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800">
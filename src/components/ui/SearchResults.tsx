@@ -0,0 +1,69 @@
+"use client";
+
+import Link from "next/link";
+import type { SearchResult, SnippetSegment } from "@/modules/search/ranking";
+
+interface SearchResultsProps {
+  results: SearchResult[];
+}
+
+const ENTRY_TYPE_LABELS: Record<SearchResult["entryType"], string> = {
+  section: "Section",
+  callout: "Callout",
+  example: "Example",
+};
+
+function Highlighted({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.highlight ? (
+          <mark
+            key={i}
+            className="bg-yellow-200 dark:bg-yellow-700/50 text-inherit rounded px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchResults({ results }: SearchResultsProps) {
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {results.map((result) => (
+        <li key={result.id}>
+          <Link
+            href={result.href}
+            className="block p-4 border border-gray-200 dark:border-gray-800 rounded-lg hover:border-blue-300 dark:hover:border-blue-700 transition-colors bg-white dark:bg-gray-900"
+          >
+            <div className="flex items-center gap-2 mb-1 text-xs text-gray-500 dark:text-gray-400">
+              <span className="px-1.5 py-0.5 font-medium bg-gray-100 dark:bg-gray-800 rounded">
+                {ENTRY_TYPE_LABELS[result.entryType]}
+              </span>
+              <span className="truncate">
+                {result.moduleTitle} › {result.sectionHeading}
+              </span>
+            </div>
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100">
+              <Highlighted segments={result.title} />
+            </h4>
+            {result.snippet.length > 0 && (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                <Highlighted segments={result.snippet} />
+              </p>
+            )}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,8 +1,21 @@
 import "server-only";
 import { cache } from "react";
+import type { Where } from "payload";
 import { getPayloadClient } from "./payload";
+import {
+  gradeQuiz,
+  toPublicQuiz,
+  type QuizAnswer,
+  type QuizResult,
+} from "./quiz";
+import type { PublicQuiz } from "./types";
+import { rankEntries, tokenizeQuery } from "@/modules/search/ranking";
+import {
+  highlightCode2DSpec,
+  highlightDiff2DSpec,
+} from "@/modules/animatedExamples/highlight";
 
-export async function getPageBySlug(slug: string) {
+export const getPageBySlug = cache(async (slug: string) => {
   const payload = await getPayloadClient();
   const result = await payload.find({
     collection: "pages",
@@ -24,16 +37,179 @@ export async function getPageBySlug(slug: string) {
   });
 
   return result.docs[0] || null;
+});
+
+export async function listPublishedPages() {
+  const payload = await getPayloadClient();
+  const result = await payload.find({
+    collection: "pages",
+    where: {
+      status: {
+        equals: "published",
+      },
+    },
+    limit: 100,
+    depth: 0,
+  });
+
+  return result.docs;
+}
+
+// Without the answer key, so it can be sent to the client
+export async function getQuizForModule(
+  moduleId: string
+): Promise<PublicQuiz | null> {
+  const payload = await getPayloadClient();
+  const result = await payload.find({
+    collection: "quizzes",
+    where: {
+      module: {
+        equals: moduleId,
+      },
+    },
+    limit: 1,
+    depth: 0,
+  });
+
+  const quiz = result.docs[0];
+  return quiz ? toPublicQuiz(quiz) : null;
+}
+
+// Null when the quiz doesn't exist. For a signed-in learner the best score
+// is saved here, since progress documents don't accept it from the client.
+export async function gradeQuizAnswers(
+  quizId: string,
+  answers: QuizAnswer[],
+  userId?: string
+): Promise<QuizResult | null> {
+  const payload = await getPayloadClient();
+  const quiz = await payload.findByID({
+    collection: "quizzes",
+    id: quizId,
+    depth: 0,
+    disableErrors: true,
+  });
+  if (!quiz) return null;
+
+  const result = gradeQuiz(quiz, answers);
+  if (userId) {
+    const moduleId =
+      typeof quiz.module === "string" ? quiz.module : quiz.module.id;
+    await saveQuizBestScore(userId, moduleId, result.score);
+  }
+  return result;
+}
+
+async function saveQuizBestScore(
+  userId: string,
+  moduleId: string,
+  score: number
+) {
+  const payload = await getPayloadClient();
+  const existing = await payload.find({
+    collection: "progress",
+    where: {
+      and: [{ user: { equals: userId } }, { module: { equals: moduleId } }],
+    },
+    depth: 0,
+    limit: 1,
+  });
+  const doc = existing.docs[0];
+
+  if (!doc) {
+    await payload.create({
+      collection: "progress",
+      data: { user: userId, module: moduleId, quizBestScore: score },
+    });
+  } else if ((doc.quizBestScore ?? -1) < score) {
+    await payload.update({
+      collection: "progress",
+      id: doc.id,
+      data: { quizBestScore: score },
+    });
+  }
+}
+
+// Resources library
+export const listResources = cache(async () => {
+  const payload = await getPayloadClient();
+  const result = await payload.find({
+    collection: "resources",
+    sort: "resourceNumber",
+    limit: 500,
+    depth: 0,
+  });
+
+  return result.docs;
+});
+
+export async function getResourceByNumber(resourceNumber: number) {
+  const payload = await getPayloadClient();
+  const result = await payload.find({
+    collection: "resources",
+    where: {
+      resourceNumber: {
+        equals: resourceNumber,
+      },
+    },
+    limit: 1,
+    depth: 1,
+  });
+
+  return result.docs[0] || null;
+}
+
+// Full-text search over the search_index collection (kept fresh by hooks)
+export async function searchContent(query: string, limit = 20) {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const payload = await getPayloadClient();
+  // Fetch every entry matching any term and rank in memory; capping the
+  // fetch would drop the best matches whenever they fall past the cap
+  const result = await payload.find({
+    collection: "search_index",
+    where: {
+      or: terms.flatMap((term): Where[] => [
+        { title: { like: term } },
+        { body: { like: term } },
+      ]),
+    },
+    depth: 0,
+    pagination: false,
+  });
+
+  return rankEntries(
+    result.docs.map((doc) => ({
+      ...doc,
+      module: typeof doc.module === "string" ? doc.module : doc.module.id,
+      body: doc.body || "",
+    })),
+    query,
+    limit
+  );
 }
 
 // Deprecated functions removed - use curriculum_modules collection instead
 // Use listCurriculumModules, getCurriculumModuleBySlug, and getAdjacentModules
 
+// Only published documents are visible unless draft mode is enabled.
+// Documents created before drafts were enabled have no _status and count
+// as published.
+const publishedOnly = {
+  _status: {
+    not_equals: "draft",
+  },
+} as const;
+
 // Curriculum modules (new schema)
-export const listCurriculumModules = cache(async () => {
+// Pass draft = true (Next.js draft mode) to read the latest unpublished versions
+export const listCurriculumModules = cache(async (draft = false) => {
   const payload = await getPayloadClient();
   const result = await payload.find({
     collection: "curriculum_modules",
+    where: draft ? undefined : publishedOnly,
+    draft,
     sort: "order",
     limit: 100,
     depth: 2, // Required for richText and relationships
@@ -42,15 +218,14 @@ export const listCurriculumModules = cache(async () => {
   return result.docs;
 });
 
-export async function getCurriculumModuleBySlug(slug: string) {
+export async function getCurriculumModuleBySlug(slug: string, draft = false) {
   const payload = await getPayloadClient();
   const result = await payload.find({
     collection: "curriculum_modules",
-    where: {
-      slug: {
-        equals: slug,
-      },
-    },
+    where: draft
+      ? { slug: { equals: slug } }
+      : { and: [{ slug: { equals: slug } }, publishedOnly] },
+    draft,
     limit: 1,
     depth: 3, // Required for richText, relationships, and nested animated examples
   });
@@ -62,7 +237,7 @@ export async function getCurriculumModuleBySlug(slug: string) {
   if (module.sections) {
     for (const section of module.sections) {
       if (section.embeddedExamples) {
-        section.embeddedExamples = await Promise.all(
+        const resolved = await Promise.all(
           section.embeddedExamples.map(async (emb: any) => {
             // If exampleId is a string (ID), fetch the example
             if (typeof emb.exampleId === "string") {
@@ -70,13 +245,27 @@ export async function getCurriculumModuleBySlug(slug: string) {
                 collection: "animated_examples",
                 id: emb.exampleId,
                 depth: 1,
+                draft,
+                disableErrors: true,
               });
-              return { ...emb, exampleId: exampleResult };
+              return {
+                ...emb,
+                exampleId: await withHighlighting(exampleResult),
+              };
             }
             // If it's already a relationship object, use it
-            return emb;
+            return { ...emb, exampleId: await withHighlighting(emb.exampleId) };
           })
         );
+
+        // Examples that have never been published stay hidden outside preview
+        section.embeddedExamples = draft
+          ? resolved
+          : resolved.filter(
+              (emb) =>
+                typeof emb.exampleId !== "object" ||
+                emb.exampleId?._status !== "draft"
+            );
       }
     }
   }
@@ -84,6 +273,39 @@ export async function getCurriculumModuleBySlug(slug: string) {
   return module;
 }
 
+// An embedded example as stored: its ID, or the populated document
+type EmbeddedExample =
+  | { kind?: string | null; spec?: unknown }
+  | string
+  | number
+  | null
+  | undefined;
+
+// Code walkthroughs and text diffs are highlighted here so no grammars
+// ship to the client
+async function withHighlighting<T extends EmbeddedExample>(example: T) {
+  if (!example || typeof example !== "object") return example;
+  const highlight =
+    example.kind === "code2d"
+      ? highlightCode2DSpec
+      : example.kind === "diff2d"
+        ? highlightDiff2DSpec
+        : null;
+  if (!highlight) return example;
+
+  try {
+    return { ...example, highlighted: await highlight(example.spec) };
+  } catch (error) {
+    // Plain text is an acceptable fallback for a broken grammar
+    const payload = await getPayloadClient();
+    payload.logger.error({
+      err: error,
+      msg: `Failed to highlight ${example.kind} example`,
+    });
+    return { ...example, highlighted: null };
+  }
+}
+
 export function getAdjacentModules(
   currentSlug: string,
   modules: Array<{ slug: string; title: string }>
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { exampleHash, parseExampleHash } from "./exampleLinks";
+
+describe("parseExampleHash", () => {
+  it("reads an example and its 1-based step", () => {
+    expect(parseExampleHash("#example-abc123:step-4")).toEqual({
+      exampleId: "abc123",
+      index: 3,
+    });
+    expect(parseExampleHash("example-abc123:toggle-1")).toEqual({
+      exampleId: "abc123",
+      index: 0,
+    });
+  });
+
+  it("links to the example alone without a step", () => {
+    expect(parseExampleHash("#example-abc123")).toEqual({
+      exampleId: "abc123",
+      index: undefined,
+    });
+    expect(parseExampleHash("#example-abc123:step-0")?.index).toBeUndefined();
+  });
+
+  it("decodes escaped ids", () => {
+    expect(parseExampleHash("#example-a%20b")?.exampleId).toBe("a b");
+  });
+
+  it("returns null for other hashes and malformed escapes", () => {
+    expect(parseExampleHash("#caching")).toBeNull();
+    expect(parseExampleHash("")).toBeNull();
+    expect(parseExampleHash("#example-%E0")).toBeNull();
+    expect(parseExampleHash("#example-abc:step-%")).toBeNull();
+  });
+});
+
+describe("exampleHash", () => {
+  it("round-trips through parseExampleHash", () => {
+    expect(parseExampleHash(exampleHash("abc", 2))).toEqual({
+      exampleId: "abc",
+      index: 2,
+    });
+    expect(exampleHash("abc", 1, "toggle")).toBe("#example-abc:toggle-2");
+    expect(exampleHash("abc")).toBe("#example-abc");
+  });
+});
@@ -0,0 +1,45 @@
+// URL fragments addressing an animated example and, optionally, one of its
+// steps (or Diff2D toggles): #example-<exampleId>:step-4 / :toggle-2.
+// Numbers in the URL are 1-based so they match the "Step 4 of 6" counter.
+
+export type ExampleLinkUnit = "step" | "toggle";
+
+export interface ExampleLink {
+  exampleId: string;
+  // 0-based step / toggle index
+  index?: number;
+}
+
+const HASH_PATTERN = /^#?example-([^:]+)(?::(step|toggle)-(\d+))?$/;
+
+export function exampleAnchorId(exampleId: string) {
+  return `example-${exampleId}`;
+}
+
+export function exampleHash(
+  exampleId: string,
+  index?: number,
+  unit: ExampleLinkUnit = "step"
+) {
+  const base = `#${exampleAnchorId(exampleId)}`;
+  return index === undefined ? base : `${base}:${unit}-${index + 1}`;
+}
+
+export function parseExampleHash(hash: string): ExampleLink | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(hash);
+  } catch {
+    // Malformed escapes (e.g. #example-%E0) aren't links to anything
+    return null;
+  }
+  const match = HASH_PATTERN.exec(decoded);
+  if (!match) return null;
+
+  const [, exampleId, , number] = match;
+  const index = number ? Number(number) - 1 : undefined;
+  return {
+    exampleId,
+    index: index !== undefined && index >= 0 ? index : undefined,
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  emptyModuleProgress,
+  getCompletionRatio,
+  getResumeTarget,
+  mergeModuleProgress,
+  mergeProgressState,
+  type ModuleProgress,
+} from "./progress";
+
+function progress(overrides: Partial<ModuleProgress>): ModuleProgress {
+  return { ...emptyModuleProgress("m1"), ...overrides };
+}
+
+describe("mergeModuleProgress", () => {
+  it("keeps a section un-marked on the newer copy un-marked", () => {
+    const older = progress({
+      completedSections: ["intro", "caching"],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const newer = progress({
+      completedSections: ["intro"],
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(mergeModuleProgress(older, newer).completedSections).toEqual([
+      "intro",
+    ]);
+    expect(mergeModuleProgress(newer, older).completedSections).toEqual([
+      "intro",
+    ]);
+  });
+
+  it("takes every field but the quiz score from the newer copy", () => {
+    const older = progress({
+      lastSectionKey: "caching",
+      completedAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const newer = progress({
+      lastSectionKey: "intro",
+      completedAt: null,
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(mergeModuleProgress(older, newer)).toMatchObject({
+      lastSectionKey: "intro",
+      completedAt: null,
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+  });
+
+  it("keeps the best quiz score from either copy", () => {
+    const older = progress({
+      quizBestScore: 90,
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const newer = progress({
+      quizBestScore: 40,
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(mergeModuleProgress(older, newer).quizBestScore).toBe(90);
+    expect(
+      mergeModuleProgress(older, { ...newer, quizBestScore: null })
+        .quizBestScore
+    ).toBe(90);
+    expect(mergeModuleProgress(progress({}), progress({})).quizBestScore).toBe(
+      null
+    );
+  });
+});
+
+describe("mergeProgressState", () => {
+  it("keeps modules only one side knows about", () => {
+    const a = { m1: progress({ completedSections: ["intro"] }) };
+    const b = { m2: { ...emptyModuleProgress("m2"), lastSectionKey: "x" } };
+
+    expect(Object.keys(mergeProgressState(a, b)).sort()).toEqual(["m1", "m2"]);
+  });
+});
+
+describe("getCompletionRatio", () => {
+  it("counts a completed module as done", () => {
+    expect(
+      getCompletionRatio(
+        progress({ completedAt: "2026-01-01T00:00:00.000Z" }),
+        4
+      )
+    ).toBe(1);
+  });
+
+  it("caps the ratio at 1", () => {
+    expect(
+      getCompletionRatio(progress({ completedSections: ["a", "b", "c"] }), 2)
+    ).toBe(1);
+    expect(getCompletionRatio(progress({ completedSections: ["a"] }), 4)).toBe(
+      0.25
+    );
+    expect(getCompletionRatio(undefined, 4)).toBe(0);
+  });
+});
+
+describe("getResumeTarget", () => {
+  it("picks the most recently touched unfinished module", () => {
+    const state = {
+      m1: progress({ updatedAt: "2026-01-03T00:00:00.000Z", completedAt: "x" }),
+      m2: {
+        ...emptyModuleProgress("m2"),
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+      m3: {
+        ...emptyModuleProgress("m3"),
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    };
+
+    expect(getResumeTarget(state)?.moduleId).toBe("m2");
+    expect(getResumeTarget({})).toBeNull();
+  });
+});
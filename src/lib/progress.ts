@@ -0,0 +1,83 @@
+// Learner progress model shared by local storage and the Payload `progress` collection
+
+export type ModuleProgress = {
+  moduleId: string;
+  completedSections: string[];
+  lastSectionKey?: string | null;
+  completedAt?: string | null;
+  // Best quiz score as a percentage (0-100)
+  quizBestScore?: number | null;
+  updatedAt: string;
+};
+
+// Keyed by curriculum module ID
+export type ProgressState = Record<string, ModuleProgress>;
+
+export function emptyModuleProgress(moduleId: string): ModuleProgress {
+  return {
+    moduleId,
+    completedSections: [],
+    lastSectionKey: null,
+    completedAt: null,
+    quizBestScore: null,
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Merge two copies of the same module's progress (e.g. local vs remote).
+ * The most recently updated copy wins as a whole, so un-marking a section
+ * or resetting a module on one device sticks everywhere. The best quiz
+ * score is the higher of the two.
+ */
+export function mergeModuleProgress(
+  a: ModuleProgress,
+  b: ModuleProgress
+): ModuleProgress {
+  const newer = a.updatedAt <= b.updatedAt ? b : a;
+  const scores = [a.quizBestScore, b.quizBestScore].filter(
+    (score): score is number => typeof score === "number"
+  );
+
+  return {
+    ...newer,
+    quizBestScore: scores.length > 0 ? Math.max(...scores) : null,
+  };
+}
+
+export function mergeProgressState(
+  a: ProgressState,
+  b: ProgressState
+): ProgressState {
+  const merged: ProgressState = { ...a };
+  for (const [moduleId, progress] of Object.entries(b)) {
+    merged[moduleId] = merged[moduleId]
+      ? mergeModuleProgress(merged[moduleId], progress)
+      : progress;
+  }
+  return merged;
+}
+
+/**
+ * Fraction of a module's sections completed, between 0 and 1
+ */
+export function getCompletionRatio(
+  progress: ModuleProgress | undefined,
+  sectionCount: number
+) {
+  if (!progress) return 0;
+  if (progress.completedAt) return 1;
+  if (sectionCount <= 0) return 0;
+  return Math.min(progress.completedSections.length / sectionCount, 1);
+}
+
+/**
+ * The most recently touched module that still has unfinished sections
+ */
+export function getResumeTarget(state: ProgressState) {
+  return (
+    Object.values(state)
+      .filter((progress) => !progress.completedAt)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null
+  );
+}
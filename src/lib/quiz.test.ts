@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { gradeQuiz, scoreQuiz, toPublicQuiz } from "./quiz";
+import type { Quiz } from "./types";
+
+const quiz: Pick<Quiz, "id" | "title" | "passingScore" | "questions"> = {
+  id: "quiz-1",
+  title: "Rendering",
+  passingScore: 70,
+  questions: [
+    {
+      id: "q1",
+      type: "single",
+      prompt: "Where does SSR render?",
+      options: [
+        { id: "a", text: "Server", isCorrect: true },
+        { id: "b", text: "Browser", explanation: "That's CSR" },
+      ],
+    },
+    {
+      id: "q2",
+      type: "multiple",
+      prompt: "Which are hydration costs?",
+      options: [
+        { id: "a", text: "Download JS", isCorrect: true },
+        { id: "b", text: "Execute JS", isCorrect: true },
+        { id: "c", text: "DNS lookup" },
+      ],
+    },
+    {
+      id: "q3",
+      type: "ordering",
+      prompt: "Order the steps",
+      options: [
+        { id: "first", text: "Request" },
+        { id: "second", text: "Render" },
+        { id: "third", text: "Hydrate" },
+        { id: "fourth", text: "Interact" },
+      ],
+    },
+  ],
+};
+
+// Presented indices of the ordering options, in their correct order
+function correctOrdering() {
+  const presented = toPublicQuiz(quiz).questions[2].options.map(
+    (option) => option.id
+  );
+  return ["first", "second", "third", "fourth"].map((id) =>
+    presented.indexOf(id)
+  );
+}
+
+describe("toPublicQuiz", () => {
+  it("leaves out the answer key", () => {
+    const publicQuiz = toPublicQuiz(quiz);
+    for (const question of publicQuiz.questions) {
+      expect(question).not.toHaveProperty("explanation");
+      for (const option of question.options) {
+        expect(Object.keys(option).sort()).toEqual(["id", "text"]);
+      }
+    }
+  });
+
+  it("never presents ordering options in their correct order", () => {
+    const ids = toPublicQuiz(quiz).questions[2].options.map((o) => o.id);
+    expect(ids).not.toEqual(["first", "second", "third", "fourth"]);
+    expect([...ids].sort()).toEqual(["first", "fourth", "second", "third"]);
+  });
+
+  it("presents the same order on every request", () => {
+    expect(toPublicQuiz(quiz)).toEqual(toPublicQuiz(quiz));
+  });
+});
+
+describe("gradeQuiz", () => {
+  it("scores a fully correct attempt 100", () => {
+    const result = gradeQuiz(quiz, [[0], [0, 1], correctOrdering()]);
+    expect(result.score).toBe(100);
+    expect(result.results.every((r) => r.correct)).toBe(true);
+  });
+
+  it("marks the wrongly picked single option and reveals the answer", () => {
+    const [single] = gradeQuiz(quiz, [[1]]).results;
+    expect(single).toMatchObject({
+      correct: false,
+      wrongOptions: [0, 1],
+      answer: [0],
+      optionExplanations: [null, "That's CSR"],
+    });
+  });
+
+  it("grades multi-select all-or-nothing", () => {
+    const [, multiple] = gradeQuiz(quiz, [[0], [0]]).results;
+    expect(multiple.correct).toBe(false);
+    expect(multiple.wrongOptions).toEqual([1]);
+    expect(multiple.answer).toEqual([0, 1]);
+  });
+
+  it("rejects the ordering as presented", () => {
+    const [, , ordering] = gradeQuiz(quiz, [[], [], [0, 1, 2, 3]]).results;
+    expect(ordering.correct).toBe(false);
+    expect(ordering.answer).toEqual(correctOrdering());
+  });
+
+  it("treats missing answers as wrong", () => {
+    const result = gradeQuiz(quiz, []);
+    expect(result.score).toBe(0);
+  });
+});
+
+describe("scoreQuiz", () => {
+  it("rounds to a whole percentage", () => {
+    const result = gradeQuiz(quiz, [[0]]);
+    expect(result.score).toBe(33);
+  });
+
+  it("scores an empty quiz 0", () => {
+    expect(scoreQuiz([])).toBe(0);
+  });
+});
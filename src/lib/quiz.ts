@@ -0,0 +1,178 @@
+import type { PublicQuiz, Quiz, QuizQuestion } from "@/lib/types";
+
+// Quizzes are graded on the server: learners get a PublicQuiz without the
+// answer key, and answers are checked against the stored quiz.
+
+// Selected option indices (single/multiple) or the learner's order (ordering),
+// as indices into the options in the order they were presented
+export type QuizAnswer = number[];
+
+export interface QuestionResult {
+  correct: boolean;
+  // Options the learner got wrong (picked wrongly, missed, or misplaced)
+  wrongOptions: number[];
+  // The answer key, revealed once graded: the correct options, or for
+  // ordering questions every option in its correct order
+  answer: number[];
+  explanation?: string | null;
+  // Per option, shown next to the ones the learner got wrong
+  optionExplanations: Array<string | null>;
+}
+
+export interface QuizResult {
+  // Percentage (0-100) of questions answered correctly
+  score: number;
+  results: QuestionResult[];
+}
+
+type GradableQuiz = Pick<Quiz, "id" | "questions">;
+
+/**
+ * Order options are presented in, as indices into the authored options.
+ * Ordering questions are authored in the correct order, so they are
+ * shuffled; the server secret keeps the shuffle from being reproduced in
+ * the browser, and the fixed seed keeps it stable between requests.
+ */
+function presentedOrder(
+  quiz: GradableQuiz,
+  question: QuizQuestion,
+  index: number
+) {
+  if (question.type !== "ordering") {
+    return question.options.map((_, optionIndex) => optionIndex);
+  }
+  return shuffledOrder(
+    question.options.length,
+    `${process.env.PAYLOAD_SECRET || ""}-${quiz.id}-${question.id || index}`
+  );
+}
+
+/**
+ * The quiz without its answer key: no correct flags or explanations, and
+ * ordering options shuffled
+ */
+export function toPublicQuiz(
+  quiz: GradableQuiz & Pick<Quiz, "title" | "passingScore">
+): PublicQuiz {
+  return {
+    id: quiz.id,
+    title: quiz.title,
+    passingScore: quiz.passingScore,
+    questions: quiz.questions.map((question, index) => ({
+      id: question.id,
+      type: question.type,
+      prompt: question.prompt,
+      options: presentedOrder(quiz, question, index).map((optionIndex) => ({
+        id: question.options[optionIndex].id,
+        text: question.options[optionIndex].text,
+      })),
+    })),
+  };
+}
+
+/**
+ * Grade one question. `order` maps presented option indices to authored
+ * ones. Multi-select and ordering are all-or-nothing.
+ */
+function gradeQuestion(
+  question: QuizQuestion,
+  answer: QuizAnswer,
+  order: number[]
+): QuestionResult {
+  const reveal = {
+    explanation: question.explanation,
+    optionExplanations: order.map(
+      (optionIndex) => question.options[optionIndex].explanation ?? null
+    ),
+  };
+
+  if (question.type === "ordering") {
+    // Authored option i belongs at position i
+    const wrongOptions = answer.filter(
+      (presented, position) => order[presented] !== position
+    );
+    return {
+      correct: answer.length === order.length && wrongOptions.length === 0,
+      wrongOptions,
+      answer: question.options.map((_, optionIndex) =>
+        order.indexOf(optionIndex)
+      ),
+      ...reveal,
+    };
+  }
+
+  const options = order.map((optionIndex, presented) => ({
+    presented,
+    selected: answer.includes(presented),
+    correct: Boolean(question.options[optionIndex].isCorrect),
+  }));
+  const wrongOptions = options
+    .filter(({ selected, correct }) => selected !== correct)
+    .map(({ presented }) => presented);
+
+  return {
+    correct: wrongOptions.length === 0,
+    wrongOptions,
+    answer: options
+      .filter(({ correct }) => correct)
+      .map(({ presented }) => presented),
+    ...reveal,
+  };
+}
+
+/**
+ * Percentage (0-100) of questions answered correctly
+ */
+export function scoreQuiz(results: QuestionResult[]) {
+  if (results.length === 0) return 0;
+  const correct = results.filter((result) => result.correct).length;
+  return Math.round((correct / results.length) * 100);
+}
+
+/**
+ * Grade a learner's answers (one per question, against the presented order)
+ */
+export function gradeQuiz(
+  quiz: GradableQuiz,
+  answers: QuizAnswer[]
+): QuizResult {
+  const results = quiz.questions.map((question, index) =>
+    gradeQuestion(
+      question,
+      answers[index] || [],
+      presentedOrder(quiz, question, index)
+    )
+  );
+  return { score: scoreQuiz(results), results };
+}
+
+function hashString(value: string) {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic shuffle of option indices for a seed.
+ * Never returns the already-correct order when it can be avoided.
+ */
+function shuffledOrder(length: number, seed: string): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  let state = hashString(seed) || 1;
+
+  for (let i = length - 1; i > 0; i--) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    const j = (state >>> 0) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  if (length > 1 && order.every((value, index) => value === index)) {
+    order.reverse();
+  }
+  return order;
+}
@@ -0,0 +1,36 @@
+import type { ResourceCategory } from "@/lib/types";
+
+export const RESOURCE_CATEGORY_LABELS: Record<ResourceCategory, string> = {
+  article: "Article",
+  talk: "Talk",
+  spec: "Spec",
+  book: "Book",
+  other: "Other",
+};
+
+export function getCategoryColor(category: ResourceCategory) {
+  switch (category) {
+    case "article":
+      return "text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20";
+    case "talk":
+      return "text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20";
+    case "spec":
+      return "text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20";
+    case "book":
+      return "text-yellow-600 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-900/20";
+    default:
+      return "text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/20";
+  }
+}
+
+// References link out to arbitrary sites; only http(s) URLs are safe to
+// render as links (a javascript: URL would run on click)
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
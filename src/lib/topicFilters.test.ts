@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_TOPIC_FILTERS,
+  matchesTopicFilters,
+  parseTopicFilters,
+  serializeTopicFilters,
+} from "./topicFilters";
+import type { TopicListItem } from "./types";
+
+const parse = (query: string) => parseTopicFilters(new URLSearchParams(query));
+
+describe("parseTopicFilters", () => {
+  it("reads every facet", () => {
+    expect(
+      parse(
+        "q=cache&difficulty=beginner,advanced&tags=a,b&time=short&examples=1"
+      )
+    ).toEqual({
+      query: "cache",
+      difficulty: ["beginner", "advanced"],
+      tags: ["a", "b"],
+      readingTime: "short",
+      hasExamples: true,
+    });
+  });
+
+  it("drops unknown difficulties and reading times", () => {
+    const filters = parse("difficulty=expert,beginner&time=forever");
+    expect(filters.difficulty).toEqual(["beginner"]);
+    expect(filters.readingTime).toBeNull();
+  });
+
+  it("ignores keys inherited from Object.prototype", () => {
+    expect(parse("time=toString").readingTime).toBeNull();
+    expect(parse("time=constructor").readingTime).toBeNull();
+  });
+
+  it("defaults to no filters", () => {
+    expect(parse("")).toEqual(EMPTY_TOPIC_FILTERS);
+  });
+});
+
+describe("serializeTopicFilters", () => {
+  it("round-trips through parseTopicFilters", () => {
+    const query = "q=cache&difficulty=beginner&tags=a%2Cb&time=long&examples=1";
+    expect(serializeTopicFilters(parse(query))).toBe(query);
+  });
+
+  it("omits empty facets", () => {
+    expect(serializeTopicFilters({ ...EMPTY_TOPIC_FILTERS, query: "  " })).toBe(
+      ""
+    );
+  });
+});
+
+describe("matchesTopicFilters", () => {
+  const topic: TopicListItem = {
+    id: "1",
+    title: "Caching",
+    slug: "caching",
+    order: 1,
+    difficulty: "intermediate",
+    readingTimeMins: 45,
+    tags: [{ slug: "network", label: "Network" }],
+    exampleCount: 0,
+  };
+
+  it("ORs values within a facet and ANDs across facets", () => {
+    expect(
+      matchesTopicFilters(topic, {
+        ...EMPTY_TOPIC_FILTERS,
+        difficulty: ["beginner", "intermediate"],
+        tags: ["network"],
+      })
+    ).toBe(true);
+    expect(
+      matchesTopicFilters(topic, {
+        ...EMPTY_TOPIC_FILTERS,
+        difficulty: ["intermediate"],
+        hasExamples: true,
+      })
+    ).toBe(false);
+  });
+
+  it("puts bucket boundaries in the upper bucket", () => {
+    const filters = (readingTime: "short" | "medium") => ({
+      ...EMPTY_TOPIC_FILTERS,
+      readingTime,
+    });
+    expect(matchesTopicFilters(topic, filters("short"))).toBe(false);
+    expect(matchesTopicFilters(topic, filters("medium"))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import type { Difficulty, TopicListItem } from "@/lib/types";
+
+export type ReadingTimeBucket = "short" | "medium" | "long";
+
+// Facet state for /topics, mirrored in the URL query string
+export interface TopicFilters {
+  query: string;
+  difficulty: Difficulty[];
+  tags: string[];
+  readingTime: ReadingTimeBucket | null;
+  hasExamples: boolean;
+}
+
+export const DIFFICULTIES: Difficulty[] = [
+  "beginner",
+  "intermediate",
+  "advanced",
+];
+
+// Minutes, min inclusive / max exclusive
+export const READING_TIME_BUCKETS: Record<
+  ReadingTimeBucket,
+  { label: string; min: number; max: number }
+> = {
+  short: { label: "Under 45 min", min: 0, max: 45 },
+  medium: { label: "45–60 min", min: 45, max: 61 },
+  long: { label: "Over 60 min", min: 61, max: Infinity },
+};
+
+export const EMPTY_TOPIC_FILTERS: TopicFilters = {
+  query: "",
+  difficulty: [],
+  tags: [],
+  readingTime: null,
+  hasExamples: false,
+};
+
+type SearchParamsLike = {
+  get(name: string): string | null;
+};
+
+function parseList(value: string | null) {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+/**
+ * Read filters from URL search params, dropping unknown values
+ */
+export function parseTopicFilters(params: SearchParamsLike): TopicFilters {
+  const readingTime = params.get("time");
+
+  return {
+    query: params.get("q") || "",
+    difficulty: parseList(params.get("difficulty")).filter(
+      (value): value is Difficulty => DIFFICULTIES.includes(value as Difficulty)
+    ),
+    tags: parseList(params.get("tags")),
+    readingTime:
+      readingTime && Object.hasOwn(READING_TIME_BUCKETS, readingTime)
+        ? (readingTime as ReadingTimeBucket)
+        : null,
+    hasExamples: params.get("examples") === "1",
+  };
+}
+
+/**
+ * Serialize filters to a query string (without the leading "?").
+ * Empty facets are omitted so an unfiltered page has a clean URL.
+ */
+export function serializeTopicFilters(filters: TopicFilters): string {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.difficulty.length > 0) {
+    params.set("difficulty", filters.difficulty.join(","));
+  }
+  if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+  if (filters.readingTime) params.set("time", filters.readingTime);
+  if (filters.hasExamples) params.set("examples", "1");
+  return params.toString();
+}
+
+export function hasActiveFacets(filters: TopicFilters) {
+  return (
+    filters.difficulty.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.readingTime !== null ||
+    filters.hasExamples
+  );
+}
+
+/**
+ * Whether a topic passes every active facet. Within a facet values are ORed
+ * (any selected difficulty / tag); across facets they are ANDed.
+ * The text query is matched separately.
+ */
+export function matchesTopicFilters(
+  topic: TopicListItem,
+  filters: TopicFilters
+): boolean {
+  if (
+    filters.difficulty.length > 0 &&
+    (!topic.difficulty || !filters.difficulty.includes(topic.difficulty))
+  ) {
+    return false;
+  }
+
+  if (
+    filters.tags.length > 0 &&
+    !topic.tags?.some((tag) => filters.tags.includes(tag.slug))
+  ) {
+    return false;
+  }
+
+  if (filters.readingTime) {
+    const bucket = READING_TIME_BUCKETS[filters.readingTime];
+    const mins = topic.readingTimeMins;
+    if (typeof mins !== "number" || mins < bucket.min || mins >= bucket.max) {
+      return false;
+    }
+  }
+
+  if (filters.hasExamples && !topic.exampleCount) return false;
+
+  return true;
+}
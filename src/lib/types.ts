@@ -1,6 +1,7 @@
 // Note: CurriculumModule and AnimatedExample types will be available after running payload generate:types
 // For now, we define them manually below
 import type { SerializedEditorState } from "lexical";
+import type { HighlightedFile } from "@/modules/animatedExamples/highlight";
 
 /**
  * @deprecated This type is deprecated. Use CurriculumModule instead.
@@ -24,6 +25,15 @@ export type Topic = {
   }> | null;
 };
 
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+
+// Taxonomy term used to filter curriculum modules
+export type Tag = {
+  id: string;
+  label: string;
+  slug: string;
+};
+
 // Curriculum Module type (new system)
 export type CurriculumModule = {
   id: string;
@@ -32,6 +42,10 @@ export type CurriculumModule = {
   title: string;
   summary: string;
   readingTimeMins?: number | null;
+  difficulty?: Difficulty | null;
+  tags?: Array<string | Tag> | null;
+  prerequisites?: Array<string | CurriculumModule> | null;
+  _status?: "draft" | "published" | null;
   sections: Array<{
     id?: string | null;
     key: string;
@@ -73,7 +87,16 @@ export type AnimatedExample = {
     | "tradeoffs"
     | "caseStudy"
     | null;
-  kind: "timeline2d" | "flow2d" | "diff2d";
+  kind:
+    | "timeline2d"
+    | "flow2d"
+    | "diff2d"
+    | "sequence2d"
+    | "statechart"
+    | "waterfall2d"
+    | "tree2d"
+    | "treemap2d"
+    | "code2d";
   description: string;
   controls?: {
     mode: "stepper" | "toggle" | "play";
@@ -88,6 +111,9 @@ export type AnimatedExample = {
     item: string;
   }> | null;
   spec: unknown; // JSON field - validated by Zod schema
+  // Added by lib/content for code2d and text diff2d examples
+  highlighted?: HighlightedFile[] | null;
+  _status?: "draft" | "published" | null;
 };
 
 /**
@@ -99,7 +125,58 @@ export type TopicListItem = {
   slug: string;
   order: number;
   summary?: string | null;
-  difficulty?: "beginner" | "intermediate" | "advanced" | null;
+  difficulty?: Difficulty | null;
+  sectionCount?: number;
+  readingTimeMins?: number | null;
+  tags?: Array<{ slug: string; label: string }>;
+  exampleCount?: number;
+};
+
+// Quiz attached to a curriculum module
+export type QuizQuestion = {
+  id?: string | null;
+  type: "single" | "multiple" | "ordering";
+  prompt: string;
+  // Ordering questions list options in their correct order
+  options: Array<{
+    id?: string | null;
+    text: string;
+    isCorrect?: boolean | null;
+    explanation?: string | null;
+  }>;
+  explanation?: string | null;
+};
+
+export type Quiz = {
+  id: string;
+  title: string;
+  module: string | CurriculumModule;
+  passingScore?: number | null;
+  questions: QuizQuestion[];
+};
+
+// What learners get: no correct flags or explanations (see lib/quiz)
+export type PublicQuizQuestion = Pick<
+  QuizQuestion,
+  "id" | "type" | "prompt"
+> & {
+  options: Array<Pick<QuizQuestion["options"][number], "id" | "text">>;
+};
+
+export type PublicQuiz = Pick<Quiz, "id" | "title" | "passingScore"> & {
+  questions: PublicQuizQuestion[];
+};
+
+// Resource library types. "other" stands in for resources without a
+// category.
+export type ResourceCategory = "article" | "talk" | "spec" | "book" | "other";
+
+export type ResourceListItem = {
+  id: string;
+  title: string;
+  resourceNumber: number;
+  category: ResourceCategory;
+  summary?: string | null;
 };
 
 // Server-side topic type removed - use CurriculumModule instead
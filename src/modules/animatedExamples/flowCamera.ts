@@ -0,0 +1,110 @@
+import type { FlowPoint } from "./flowLayout";
+
+// Camera maths for zoomable flow diagrams. The camera is an SVG viewBox
+// inside the "world" box that fits the whole diagram; it keeps the world's
+// aspect ratio and never zooms out past it.
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Furthest the camera zooms in, relative to the fitted view
+export const MAX_ZOOM = 4;
+
+export function viewBoxString(box: ViewBox) {
+  return `${box.x} ${box.y} ${box.width} ${box.height}`;
+}
+
+export function zoomLevel(box: ViewBox, world: ViewBox) {
+  return world.width / box.width;
+}
+
+// Keep the camera inside the world
+function clamp(box: ViewBox, world: ViewBox): ViewBox {
+  return {
+    ...box,
+    x: Math.min(Math.max(box.x, world.x), world.x + world.width - box.width),
+    y: Math.min(Math.max(box.y, world.y), world.y + world.height - box.height),
+  };
+}
+
+/**
+ * Zoom by `factor` (above 1 zooms in) keeping `anchor` (defaults to the
+ * centre) at the same place on screen
+ */
+export function zoomViewBox(
+  box: ViewBox,
+  world: ViewBox,
+  factor: number,
+  anchor: FlowPoint = {
+    x: box.x + box.width / 2,
+    y: box.y + box.height / 2,
+  }
+): ViewBox {
+  const zoom = Math.min(Math.max(zoomLevel(box, world) * factor, 1), MAX_ZOOM);
+  const width = world.width / zoom;
+  const height = world.height / zoom;
+  const scale = width / box.width;
+  return clamp(
+    {
+      x: anchor.x - (anchor.x - box.x) * scale,
+      y: anchor.y - (anchor.y - box.y) * scale,
+      width,
+      height,
+    },
+    world
+  );
+}
+
+export function panViewBox(
+  box: ViewBox,
+  world: ViewBox,
+  dx: number,
+  dy: number
+): ViewBox {
+  return clamp({ ...box, x: box.x + dx, y: box.y + dy }, world);
+}
+
+// Same zoom, centred on `point` as far as the world allows
+export function centerViewBox(
+  box: ViewBox,
+  world: ViewBox,
+  point: FlowPoint
+): ViewBox {
+  return clamp(
+    { ...box, x: point.x - box.width / 2, y: point.y - box.height / 2 },
+    world
+  );
+}
+
+/**
+ * The closest view that shows every point with `padding` around it, or the
+ * whole world when that is (nearly) as close
+ */
+export function focusViewBox(
+  points: FlowPoint[],
+  world: ViewBox,
+  padding: number
+): ViewBox {
+  if (points.length === 0) return world;
+  const minX = Math.min(...points.map((p) => p.x)) - padding;
+  const minY = Math.min(...points.map((p) => p.y)) - padding;
+  const maxX = Math.max(...points.map((p) => p.x)) + padding;
+  const maxY = Math.max(...points.map((p) => p.y)) + padding;
+
+  const zoom = Math.min(
+    world.width / (maxX - minX),
+    world.height / (maxY - minY),
+    MAX_ZOOM
+  );
+  // Small gains aren't worth moving the camera for
+  if (zoom < 1.25) return world;
+  return centerViewBox(
+    { ...world, width: world.width / zoom, height: world.height / zoom },
+    world,
+    { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }
+  );
+}
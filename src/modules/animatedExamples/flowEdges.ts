@@ -0,0 +1,116 @@
+import type { FlowPoint } from "./flowLayout";
+
+// Edge geometry for flow diagrams: paths start and end on the node circles
+// rather than at their centres, so arrowheads stay visible.
+
+export type EdgeRouting = "straight" | "curved" | "orthogonal";
+
+export interface EdgeGeometry {
+  // SVG path data
+  d: string;
+  // Point a fraction `t` (0–1) of the way along the path
+  pointAt: (t: number) => FlowPoint;
+}
+
+// How far a curved edge bows out, relative to its length
+const CURVATURE = 0.2;
+
+export function edgeGeometry(
+  from: FlowPoint,
+  to: FlowPoint,
+  routing: EdgeRouting,
+  fromRadius: number,
+  toRadius: number
+): EdgeGeometry {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  if (routing === "curved") {
+    // Bow to the left of the direction of travel, so A→B and B→A separate
+    const control = {
+      x: (from.x + to.x) / 2 + dy * CURVATURE,
+      y: (from.y + to.y) / 2 - dx * CURVATURE,
+    };
+    const start = towards(from, control, fromRadius);
+    const end = towards(to, control, toRadius);
+    return {
+      d: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+      pointAt: (t) => ({
+        x:
+          (1 - t) ** 2 * start.x + 2 * (1 - t) * t * control.x + t ** 2 * end.x,
+        y:
+          (1 - t) ** 2 * start.y + 2 * (1 - t) * t * control.y + t ** 2 * end.y,
+      }),
+    };
+  }
+
+  if (routing === "orthogonal") {
+    // Leave along the dominant axis and turn once, halfway
+    let points: FlowPoint[];
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      const sign = Math.sign(dx) || 1;
+      const midX = (from.x + to.x) / 2;
+      points = [
+        { x: from.x + sign * fromRadius, y: from.y },
+        { x: midX, y: from.y },
+        { x: midX, y: to.y },
+        { x: to.x - sign * toRadius, y: to.y },
+      ];
+    } else {
+      const sign = Math.sign(dy) || 1;
+      const midY = (from.y + to.y) / 2;
+      points = [
+        { x: from.x, y: from.y + sign * fromRadius },
+        { x: from.x, y: midY },
+        { x: to.x, y: midY },
+        { x: to.x, y: to.y - sign * toRadius },
+      ];
+    }
+    return {
+      d: points
+        .map(
+          (point, index) => `${index === 0 ? "M" : "L"} ${point.x} ${point.y}`
+        )
+        .join(" "),
+      pointAt: (t) => alongPolyline(points, t),
+    };
+  }
+
+  const start = towards(from, to, fromRadius);
+  const end = towards(to, from, toRadius);
+  return {
+    d: `M ${start.x} ${start.y} L ${end.x} ${end.y}`,
+    pointAt: (t) => alongPolyline([start, end], t),
+  };
+}
+
+// The point `distance` along the way from `point` towards `target`
+function towards(point: FlowPoint, target: FlowPoint, distance: number) {
+  const dx = target.x - point.x;
+  const dy = target.y - point.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return {
+    x: point.x + (dx / length) * distance,
+    y: point.y + (dy / length) * distance,
+  };
+}
+
+function alongPolyline(points: FlowPoint[], t: number): FlowPoint {
+  const lengths = points
+    .slice(1)
+    .map((point, index) =>
+      Math.hypot(point.x - points[index].x, point.y - points[index].y)
+    );
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) * t;
+  for (let index = 0; index < lengths.length; index++) {
+    if (remaining <= lengths[index] || index === lengths.length - 1) {
+      const ratio =
+        lengths[index] > 0 ? Math.min(remaining / lengths[index], 1) : 0;
+      const a = points[index];
+      const b = points[index + 1];
+      return { x: a.x + (b.x - a.x) * ratio, y: a.y + (b.y - a.y) * ratio };
+    }
+    remaining -= lengths[index];
+  }
+  return points[0];
+}
@@ -0,0 +1,143 @@
+import type { FlowPoint } from "./flowLayout";
+
+// Group regions for flow diagrams: labelled boxes drawn around the nodes of
+// each group (and around nested groups), e.g. Browser / CDN / Origin.
+
+export interface FlowGroup {
+  id: string;
+  label: string;
+  parent?: string;
+}
+
+export interface FlowGroupRegion {
+  id: string;
+  label: string;
+  // 0 for top-level groups
+  depth: number;
+  // Position in the resolved group list, for a stable color
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Space between a member node's centre and the region edge
+const NODE_PADDING = 52;
+// Space between a nested region and its parent's edge
+const GROUP_PADDING = 12;
+// Room for the label above the contents
+const LABEL_HEIGHT = 22;
+
+/**
+ * Declared groups plus any group a node names without declaring it (labelled
+ * with its id). Parents that don't exist, or that would form a cycle, are
+ * dropped so every group resolves to a finite chain.
+ */
+export function resolveFlowGroups(
+  groups: FlowGroup[] | undefined,
+  nodes: { group?: string }[]
+): FlowGroup[] {
+  const resolved = new Map<string, FlowGroup>();
+  (groups || []).forEach((group) => resolved.set(group.id, { ...group }));
+  nodes.forEach((node) => {
+    if (node.group && !resolved.has(node.group)) {
+      resolved.set(node.group, { id: node.group, label: node.group });
+    }
+  });
+
+  resolved.forEach((group) => {
+    const seen = new Set([group.id]);
+    let parent = group.parent;
+    while (parent) {
+      if (seen.has(parent) || !resolved.has(parent)) {
+        group.parent = undefined;
+        break;
+      }
+      seen.add(parent);
+      parent = resolved.get(parent)!.parent;
+    }
+  });
+
+  return Array.from(resolved.values());
+}
+
+// The group and its ancestors, innermost first
+export function groupChain(groups: FlowGroup[], id?: string): string[] {
+  const chain: string[] = [];
+  let current = groups.find((group) => group.id === id);
+  while (current) {
+    chain.push(current.id);
+    current = groups.find((group) => group.id === current!.parent);
+  }
+  return chain;
+}
+
+/**
+ * Bounding regions for resolved groups, outermost first so they can be drawn
+ * in order. Groups with no placed nodes (directly or nested) are left out.
+ */
+export function layoutGroupRegions(
+  groups: FlowGroup[],
+  nodes: { id: string; group?: string }[],
+  positions: Map<string, FlowPoint>
+): FlowGroupRegion[] {
+  const regions = new Map<string, FlowGroupRegion | null>();
+
+  const regionOf = (
+    group: FlowGroup,
+    index: number
+  ): FlowGroupRegion | null => {
+    if (regions.has(group.id)) return regions.get(group.id)!;
+
+    const boxes: { minX: number; minY: number; maxX: number; maxY: number }[] =
+      [];
+    nodes.forEach((node) => {
+      const point = positions.get(node.id);
+      if (node.group !== group.id || !point) return;
+      boxes.push({
+        minX: point.x - NODE_PADDING,
+        minY: point.y - NODE_PADDING,
+        maxX: point.x + NODE_PADDING,
+        maxY: point.y + NODE_PADDING,
+      });
+    });
+    groups.forEach((child, childIndex) => {
+      if (child.parent !== group.id) return;
+      const region = regionOf(child, childIndex);
+      if (!region) return;
+      boxes.push({
+        minX: region.x - GROUP_PADDING,
+        minY: region.y - GROUP_PADDING,
+        maxX: region.x + region.width + GROUP_PADDING,
+        maxY: region.y + region.height + GROUP_PADDING,
+      });
+    });
+
+    if (boxes.length === 0) {
+      regions.set(group.id, null);
+      return null;
+    }
+    const minX = Math.min(...boxes.map((box) => box.minX));
+    const minY = Math.min(...boxes.map((box) => box.minY)) - LABEL_HEIGHT;
+    const maxX = Math.max(...boxes.map((box) => box.maxX));
+    const maxY = Math.max(...boxes.map((box) => box.maxY));
+    const region = {
+      id: group.id,
+      label: group.label,
+      depth: groupChain(groups, group.id).length - 1,
+      index,
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+    regions.set(group.id, region);
+    return region;
+  };
+
+  return groups
+    .map((group, index) => regionOf(group, index))
+    .filter((region): region is FlowGroupRegion => region !== null)
+    .sort((a, b) => a.depth - b.depth);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { layoutFlow } from "./flowLayout";
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+describe("layoutFlow", () => {
+  it("keeps authored coordinates when every node has them", () => {
+    const positions = layoutFlow(
+      [
+        { id: "a", x: 10, y: 20 },
+        { id: "b", x: 30, y: 40 },
+      ],
+      [{ from: "a", to: "b" }]
+    );
+    expect(positions.get("a")).toEqual({ x: 10, y: 20 });
+    expect(positions.get("b")).toEqual({ x: 30, y: 40 });
+  });
+
+  it("ranks nodes along the flow by longest path", () => {
+    const positions = layoutFlow(
+      [{ id: "a" }, { id: "b" }, { id: "c" }],
+      [
+        { from: "a", to: "b" },
+        { from: "b", to: "c" },
+        { from: "a", to: "c" },
+      ]
+    );
+    const [a, b, c] = ["a", "b", "c"].map((id) => positions.get(id)!);
+    expect(a.x).toBeLessThan(b.x);
+    expect(b.x).toBeLessThan(c.x);
+    expect(a.y).toBe(c.y);
+  });
+
+  it("lays out top to bottom", () => {
+    const positions = layoutFlow(
+      [{ id: "a" }, { id: "b" }],
+      [{ from: "a", to: "b" }],
+      "TB"
+    );
+    expect(positions.get("a")!.y).toBeLessThan(positions.get("b")!.y);
+    expect(positions.get("a")!.x).toBe(positions.get("b")!.x);
+  });
+
+  it("places every node of a cyclic graph", () => {
+    const positions = layoutFlow(
+      [{ id: "a" }, { id: "b" }, { id: "c" }],
+      [
+        { from: "a", to: "b" },
+        { from: "b", to: "c" },
+        { from: "c", to: "a" },
+      ]
+    );
+    expect(positions.size).toBe(3);
+    expect(positions.get("a")!.x).toBeLessThan(positions.get("c")!.x);
+  });
+
+  it("keeps pinned nodes and moves auto-placed ones out of their way", () => {
+    const positions = layoutFlow(
+      [{ id: "pinned", x: 260, y: 80 }, { id: "a" }, { id: "b" }],
+      [{ from: "a", to: "b" }]
+    );
+    expect(positions.get("pinned")).toEqual({ x: 260, y: 80 });
+    expect(
+      distance(positions.get("b")!, positions.get("pinned")!)
+    ).toBeGreaterThanOrEqual(90);
+  });
+
+  it("keeps cluster members next to each other within a rank", () => {
+    const positions = layoutFlow(
+      [
+        { id: "root" },
+        { id: "a1", cluster: "a" },
+        { id: "b1", cluster: "b" },
+        { id: "a2", cluster: "a" },
+      ],
+      [
+        { from: "root", to: "a1" },
+        { from: "root", to: "b1" },
+        { from: "root", to: "a2" },
+      ]
+    );
+    const order = ["a1", "b1", "a2"].sort(
+      (left, right) => positions.get(left)!.y - positions.get(right)!.y
+    );
+    expect(order.indexOf("b1")).not.toBe(1);
+  });
+});
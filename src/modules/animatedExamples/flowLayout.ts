@@ -0,0 +1,230 @@
+// Layered (Sugiyama-style) auto-layout for flow diagrams: nodes are ranked
+// by edge topology, ordered within each rank to reduce crossings, then
+// spaced out. Coordinates given in the spec are kept as they are.
+
+export type FlowDirection = "LR" | "TB";
+
+export interface FlowLayoutNode {
+  id: string;
+  x?: number;
+  y?: number;
+  // Nodes sharing a cluster (e.g. a top-level group) are kept together
+  // within each rank
+  cluster?: string;
+}
+
+export interface FlowLayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface FlowPoint {
+  x: number;
+  y: number;
+}
+
+// Distance between ranks and between neighbours in a rank (SVG units)
+const RANK_GAP = 180;
+const NODE_GAP = 110;
+// Auto-placed nodes keep at least this far from any other node
+const MIN_DISTANCE = 90;
+const MARGIN = 80;
+const ORDERING_SWEEPS = 4;
+
+export function layoutFlow(
+  nodes: FlowLayoutNode[],
+  edges: FlowLayoutEdge[],
+  direction: FlowDirection = "LR"
+): Map<string, FlowPoint> {
+  const positions = new Map<string, FlowPoint>();
+  if (nodes.every((node) => node.x !== undefined && node.y !== undefined)) {
+    nodes.forEach((node) => positions.set(node.id, { x: node.x!, y: node.y! }));
+    return positions;
+  }
+
+  const ids = new Set(nodes.map((node) => node.id));
+  const forward = acyclicEdges(
+    nodes,
+    edges.filter(
+      (edge) => ids.has(edge.from) && ids.has(edge.to) && edge.from !== edge.to
+    )
+  );
+  const ranks = rankNodes(nodes, forward);
+  const layers = orderLayers(nodes, forward, ranks).map((layer) =>
+    clusterLayer(layer, nodes)
+  );
+
+  // Rank along the flow direction, position within the rank across it,
+  // with every rank centered on the widest one
+  const widest = Math.max(...layers.map((layer) => layer.length));
+  layers.forEach((layer, rank) => {
+    const offset = ((widest - layer.length) * NODE_GAP) / 2;
+    layer.forEach((id, index) => {
+      const along = MARGIN + rank * RANK_GAP;
+      const across = MARGIN + offset + index * NODE_GAP;
+      positions.set(
+        id,
+        direction === "LR" ? { x: along, y: across } : { x: across, y: along }
+      );
+    });
+  });
+
+  // Pinned coordinates win; auto-placed nodes then step aside across the
+  // flow until they clear everything already settled
+  const settled: FlowPoint[] = [];
+  const pinned = nodes.filter(
+    (node) => node.x !== undefined && node.y !== undefined
+  );
+  for (const node of pinned) {
+    const point = { x: node.x!, y: node.y! };
+    positions.set(node.id, point);
+    settled.push(point);
+  }
+  for (const node of nodes) {
+    if (node.x !== undefined && node.y !== undefined) continue;
+    const auto = positions.get(node.id)!;
+    const point = { x: node.x ?? auto.x, y: node.y ?? auto.y };
+    const axis = direction === "LR" ? "y" : "x";
+    // Only the axis the author left open may move
+    const movable =
+      (axis === "y" && node.y === undefined) ||
+      (axis === "x" && node.x === undefined);
+    while (
+      movable &&
+      settled.some(
+        (other) =>
+          Math.hypot(other.x - point.x, other.y - point.y) < MIN_DISTANCE
+      )
+    ) {
+      point[axis] += MIN_DISTANCE / 2;
+    }
+    positions.set(node.id, point);
+    settled.push(point);
+  }
+
+  return positions;
+}
+
+// Drop edges that close a cycle (found by DFS in spec order) so ranking
+// terminates; they are still drawn, just pointing backwards
+function acyclicEdges(nodes: FlowLayoutNode[], edges: FlowLayoutEdge[]) {
+  const outgoing = new Map<string, FlowLayoutEdge[]>();
+  edges.forEach((edge) =>
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge])
+  );
+
+  const state = new Map<string, "visiting" | "done">();
+  const result: FlowLayoutEdge[] = [];
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const edge of outgoing.get(id) || []) {
+      const target = state.get(edge.to);
+      if (target === "visiting") continue;
+      result.push(edge);
+      if (!target) visit(edge.to);
+    }
+    state.set(id, "done");
+  };
+  nodes.forEach((node) => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+  return result;
+}
+
+// Longest path from any source
+function rankNodes(nodes: FlowLayoutNode[], edges: FlowLayoutEdge[]) {
+  const incoming = new Map<string, string[]>();
+  edges.forEach((edge) =>
+    incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge.from])
+  );
+
+  const ranks = new Map<string, number>();
+  const rankOf = (id: string): number => {
+    const known = ranks.get(id);
+    if (known !== undefined) return known;
+    const rank = Math.max(
+      0,
+      ...(incoming.get(id) || []).map((from) => rankOf(from) + 1)
+    );
+    ranks.set(id, rank);
+    return rank;
+  };
+  nodes.forEach((node) => rankOf(node.id));
+  return ranks;
+}
+
+// Barycenter ordering, alternating downward and upward sweeps
+function orderLayers(
+  nodes: FlowLayoutNode[],
+  edges: FlowLayoutEdge[],
+  ranks: Map<string, number>
+) {
+  const layers: string[][] = [];
+  nodes.forEach((node) => {
+    const rank = ranks.get(node.id)!;
+    while (layers.length <= rank) layers.push([]);
+    layers[rank].push(node.id);
+  });
+
+  const neighbours = (id: string, predecessors: boolean) =>
+    edges
+      .filter((edge) => (predecessors ? edge.to === id : edge.from === id))
+      .map((edge) => (predecessors ? edge.from : edge.to));
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const order = layers.map((_, index) => index);
+    if (!downward) order.reverse();
+
+    for (const rank of order.slice(1)) {
+      const reference = layers[downward ? rank - 1 : rank + 1] || [];
+      const position = new Map(reference.map((id, index) => [id, index]));
+      const current = layers[rank];
+      const barycenter = new Map(
+        current.map((id, index) => {
+          const linked = neighbours(id, downward)
+            .map((other) => position.get(other))
+            .filter((value): value is number => value !== undefined);
+          return [
+            id,
+            linked.length > 0
+              ? linked.reduce((sum, value) => sum + value, 0) / linked.length
+              : index,
+          ];
+        })
+      );
+      // Stable: ties keep their current order
+      layers[rank] = current
+        .map((id, index) => ({ id, index }))
+        .sort(
+          (a, b) =>
+            barycenter.get(a.id)! - barycenter.get(b.id)! || a.index - b.index
+        )
+        .map((item) => item.id);
+    }
+  }
+
+  return layers;
+}
+
+// Pull each cluster together around the mean position of its members,
+// keeping the barycenter order otherwise
+function clusterLayer(layer: string[], nodes: FlowLayoutNode[]) {
+  const clusterOf = (id: string) =>
+    nodes.find((node) => node.id === id)?.cluster ?? `node:${id}`;
+  const members = new Map<string, number[]>();
+  layer.forEach((id, index) =>
+    members.set(clusterOf(id), [...(members.get(clusterOf(id)) || []), index])
+  );
+  const mean = (indexes: number[]) =>
+    indexes.reduce((sum, value) => sum + value, 0) / indexes.length;
+
+  // Ties between clusters go to the one that appears first
+  return layer
+    .map((id, index) => {
+      const indexes = members.get(clusterOf(id))!;
+      return { id, index, mean: mean(indexes), first: indexes[0] };
+    })
+    .sort((a, b) => a.mean - b.mean || a.first - b.first || a.index - b.index)
+    .map((item) => item.id);
+}
@@ -0,0 +1,73 @@
+import {
+  bundledLanguages,
+  codeToTokensWithThemes,
+  type BundledLanguage,
+} from "shiki";
+import { code2DSpecSchema, diff2DSpecSchema } from "./specSchema";
+
+// Server-side syntax highlighting for code2d and text diff2d examples.
+// Tokens carry a color per theme so the client can switch with dark mode
+// without any grammars.
+
+export interface HighlightedToken {
+  content: string;
+  light?: string;
+  dark?: string;
+}
+
+// One entry per line
+export type HighlightedFile = HighlightedToken[][];
+
+const THEMES = { light: "github-light", dark: "github-dark" } as const;
+
+export async function highlightCode(
+  code: string,
+  language: string
+): Promise<HighlightedFile> {
+  const lang = Object.hasOwn(bundledLanguages, language)
+    ? (language as BundledLanguage)
+    : "text";
+  // A trailing newline would otherwise render as an empty last line
+  const lines = await codeToTokensWithThemes(code.replace(/\n$/, ""), {
+    lang,
+    themes: THEMES,
+  });
+  return lines.map((line) =>
+    line.map((token) => ({
+      content: token.content,
+      light: token.variants.light?.color,
+      dark: token.variants.dark?.color,
+    }))
+  );
+}
+
+/**
+ * Highlight every file of a code2d spec, in spec order. Invalid specs return
+ * null and are reported by the renderer instead; highlighting errors are
+ * thrown.
+ */
+export async function highlightCode2DSpec(
+  spec: unknown
+): Promise<HighlightedFile[] | null> {
+  const result = code2DSpecSchema.safeParse(spec);
+  if (!result.success) return null;
+  return Promise.all(
+    result.data.files.map((file) => highlightCode(file.code, file.language))
+  );
+}
+
+/**
+ * Highlight both sides of a text diff2d spec, as [before, after]. Specs
+ * without text (or invalid ones) return null.
+ */
+export async function highlightDiff2DSpec(
+  spec: unknown
+): Promise<HighlightedFile[] | null> {
+  const result = diff2DSpecSchema.safeParse(spec);
+  if (!result.success || !result.data.text) return null;
+  const { before, after, language } = result.data.text;
+  return Promise.all([
+    highlightCode(before, language),
+    highlightCode(after, language),
+  ]);
+}
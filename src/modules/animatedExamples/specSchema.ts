@@ -1,20 +1,33 @@
 import { z } from "zod";
 
 // Timeline2D spec schema
+// Marks a step (by id) and tints its lane
 const timeline2DHighlightSchema = z.object({
   lane: z.string(),
   nodeId: z.string(),
 });
 
+// A token handed over when the step activates; `from` and `to` are step ids
+// or lane names (a lane means that lane, at the current step)
 const timeline2DTokenPathSchema = z.object({
   from: z.string(),
   to: z.string(),
-  lane: z.string(),
+  lane: z.string().optional(),
+  label: z.string().optional(),
 });
 
+// How long a step stays on screen in "play" mode (ms)
+const stepDurationSchema = z.number().positive().optional();
+
 const timeline2DStepSchema = z.object({
+  // Defaults to the label, slugified
+  id: z.string().optional(),
   label: z.string(),
+  // Lane the step sits in; defaults to a highlight naming the step, then
+  // the first lane
+  lane: z.string().optional(),
   explanation: z.string(),
+  durationMs: stepDurationSchema,
   highlights: z.array(timeline2DHighlightSchema).optional(),
   tokenPath: timeline2DTokenPathSchema.optional(),
 });
@@ -24,88 +37,485 @@ export const timeline2DSpecSchema = z.object({
   steps: z.array(timeline2DStepSchema).min(2),
 });
 
+// Step ids default to the slugified label
+export function timelineStepId(step: z.infer<typeof timeline2DStepSchema>) {
+  return step.id ?? step.label.toLowerCase().replace(/\s+/g, "-");
+}
+
 // Flow2D spec schema
 const flow2DNodeSchema = z.object({
   id: z.string(),
   label: z.string(),
-  x: z.number(),
-  y: z.number(),
+  // Optional pinned position; nodes without one are placed by auto-layout
+  x: z.number().optional(),
+  y: z.number().optional(),
+  // Group id; an id that isn't declared in `groups` becomes a group of its own
   group: z.string().optional(),
 });
 
+// A labelled boundary drawn around its nodes, e.g. Browser, CDN, Origin
+const flow2DGroupSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  // Enclosing group, for nested boundaries
+  parent: z.string().optional(),
+});
+
+const flow2DEdgeRoutingSchema = z.enum(["straight", "curved", "orthogonal"]);
+
 const flow2DEdgeSchema = z.object({
   id: z.string(),
   from: z.string(),
   to: z.string(),
+  label: z.string().optional(),
+  // Falls back to the layout's routing, then straight
+  routing: flow2DEdgeRoutingSchema.optional(),
+  // Arrowheads at both ends
+  bidirectional: z.boolean().optional(),
+  // Dashed edges show asynchronous hand-offs (queues, events)
+  style: z.enum(["solid", "dashed"]).optional(),
+});
+
+// A token travelling along an edge during a step
+const flow2DPacketSchema = z.object({
+  edge: z.string(),
+  // Travel from `to` back to `from`, e.g. a response
+  reverse: z.boolean().optional(),
+  label: z.string().optional(),
 });
 
 const flow2DStepSchema = z.object({
   label: z.string(),
   explanation: z.string(),
+  durationMs: stepDurationSchema,
   activeNodes: z.array(z.string()).optional(),
   activeEdges: z.array(z.string()).optional(),
+  packets: z.array(flow2DPacketSchema).optional(),
+  activeGroups: z.array(z.string()).optional(),
+});
+
+const flow2DLayoutSchema = z.object({
+  // Direction edges flow in when nodes are auto-placed
+  direction: z.enum(["LR", "TB"]).default("LR"),
+  // Default routing for edges that don't set their own
+  routing: flow2DEdgeRoutingSchema.optional(),
 });
 
 export const flow2DSpecSchema = z.object({
   nodes: z.array(flow2DNodeSchema).min(2),
   edges: z.array(flow2DEdgeSchema),
   steps: z.array(flow2DStepSchema).optional(),
+  groups: z.array(flow2DGroupSchema).optional(),
+  layout: flow2DLayoutSchema.optional(),
 });
 
 // Diff2D spec schema
-const diff2DHighlightSchema = z.object({
+// A named area of a pane's content, in canvas units
+const diff2DRegionSchema = z.object({
+  id: z.string(),
   x: z.number(),
   y: z.number(),
   width: z.number(),
   height: z.number(),
 });
 
+const diff2DTreeNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  parent: z.string().optional(),
+  detail: z.string().optional(),
+});
+
+// What a pane shows. Images and SVGs are stretched over the canvas, so
+// regions line up when the canvas has the same aspect ratio.
+const diff2DPaneSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("image"),
+    // e.g. an uploaded mockup's media URL
+    src: z.string(),
+    alt: z.string(),
+    regions: z.array(diff2DRegionSchema).optional(),
+  }),
+  z.object({
+    type: z.literal("svg"),
+    // Rendered as an image, so scripts and handlers never run
+    markup: z.string(),
+    alt: z.string(),
+    regions: z.array(diff2DRegionSchema).optional(),
+  }),
+  // A list or markup tree; every node id doubles as a region
+  z.object({
+    type: z.literal("tree"),
+    nodes: z.array(diff2DTreeNodeSchema).min(1),
+  }),
+]);
+
+const diff2DHighlightSchema = z.union([
+  z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+    label: z.string().optional(),
+  }),
+  // Anchored to a named region of the pane's content
+  z.object({
+    region: z.string(),
+    label: z.string().optional(),
+  }),
+]);
+
+// Two versions of a text; the component computes the diff
+const diff2DTextSchema = z.object({
+  before: z.string(),
+  after: z.string(),
+  // Shiki language id, e.g. "ts", "json", "html"
+  language: z.string().default("text"),
+  view: z.enum(["split", "unified"]).default("split"),
+});
+
 const diff2DToggleSchema = z.object({
   label: z.string(),
+  // Text diffs: 1-based hunks this variant focuses on
+  hunks: z.array(z.number().int().positive()).optional(),
   leftHighlights: z.array(diff2DHighlightSchema).optional(),
   rightHighlights: z.array(diff2DHighlightSchema).optional(),
   explanation: z.string(),
+  durationMs: stepDurationSchema,
 });
 
 export const diff2DSpecSchema = z.object({
   leftTitle: z.string(),
   rightTitle: z.string(),
+  // Coordinate space of highlights and regions
+  canvas: z
+    .object({
+      width: z.number().positive(),
+      height: z.number().positive(),
+    })
+    .default({ width: 800, height: 400 }),
+  left: diff2DPaneSchema.optional(),
+  right: diff2DPaneSchema.optional(),
+  // Replaces the panes with a computed diff of the two texts
+  text: diff2DTextSchema.optional(),
   toggles: z.array(diff2DToggleSchema).min(1),
 });
 
+// Sequence2D spec schema
+const sequence2DActorSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  kind: z.enum(["person", "client", "server", "database", "queue"]).optional(),
+});
+
+const sequence2DMessageSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  label: z.string(),
+  // sync: solid line, filled head; async: solid line, open head;
+  // return: dashed line, open head
+  style: z.enum(["sync", "async", "return"]).default("sync"),
+});
+
+const sequence2DActivationSchema = z.object({
+  actor: z.string(),
+  // Bar spans from this message's row to the `to` message's row
+  from: z.string(),
+  to: z.string(),
+});
+
+const sequence2DNoteSchema = z.object({
+  // One actor, or two to span the note across both lifelines
+  actors: z.array(z.string()).min(1).max(2),
+  afterMessage: z.string(),
+  text: z.string(),
+});
+
+const sequence2DStepSchema = z.object({
+  label: z.string(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  // Messages highlighted in this step; everything up to the last of them
+  // is drawn, later messages are faded
+  messages: z.array(z.string()).min(1),
+});
+
+export const sequence2DSpecSchema = z.object({
+  actors: z.array(sequence2DActorSchema).min(2),
+  messages: z.array(sequence2DMessageSchema).min(1),
+  activations: z.array(sequence2DActivationSchema).optional(),
+  notes: z.array(sequence2DNoteSchema).optional(),
+  // Defaults to one step per message
+  steps: z.array(sequence2DStepSchema).optional(),
+});
+
+// Statechart spec schema (states are a flat list linked by `parent`)
+const statechartStateSchema = z.object({
+  id: z.string(),
+  label: z.string().optional(),
+  parent: z.string().optional(),
+  // States with children are compound unless marked parallel
+  type: z.enum(["atomic", "compound", "parallel", "final"]).default("atomic"),
+  // Initial child of its parent (defaults to the first child)
+  initial: z.boolean().optional(),
+});
+
+const statechartTransitionSchema = z.object({
+  id: z.string().optional(),
+  from: z.string(),
+  to: z.string(),
+  event: z.string(),
+  // Name of a boolean guard; the transition is only taken while it is true
+  guard: z.string().optional(),
+});
+
+const statechartScriptStepSchema = z.object({
+  event: z.string(),
+  label: z.string().optional(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  // Guard values from this step on, e.g. { "isValid": false }
+  guards: z.record(z.string(), z.boolean()).optional(),
+});
+
+export const statechartSpecSchema = z.object({
+  states: z.array(statechartStateSchema).min(1),
+  transitions: z.array(statechartTransitionSchema),
+  // Initial guard values (guards not listed are true)
+  guards: z.record(z.string(), z.boolean()).optional(),
+  initialExplanation: z.string().optional(),
+  // Events fired one per step, after the initial configuration
+  script: z.array(statechartScriptStepSchema).default([]),
+});
+
+// Waterfall2D spec schema (all times in ms from navigation start)
+const waterfall2DPhasesSchema = z.object({
+  dns: z.number().nonnegative().optional(),
+  connect: z.number().nonnegative().optional(),
+  ttfb: z.number().nonnegative().optional(),
+  download: z.number().nonnegative(),
+});
+
+const waterfall2DResourceSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: z
+    .enum([
+      "document",
+      "stylesheet",
+      "script",
+      "font",
+      "image",
+      "fetch",
+      "other",
+    ])
+    .default("other"),
+  start: z.number().nonnegative(),
+  phases: waterfall2DPhasesSchema,
+  // Resources that had to finish (or be parsed) before this one was requested
+  dependsOn: z.array(z.string()).optional(),
+  // Render-blocking resources hold back first paint
+  blocking: z.boolean().optional(),
+});
+
+const waterfall2DMilestoneSchema = z.object({
+  // e.g. FCP, LCP, TTI; matched by label when comparing scenarios
+  label: z.string(),
+  at: z.number().nonnegative(),
+});
+
+const waterfall2DScenarioSchema = z.object({
+  label: z.string(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  resources: z.array(waterfall2DResourceSchema).min(1),
+  milestones: z.array(waterfall2DMilestoneSchema).optional(),
+});
+
+export const waterfall2DSpecSchema = z.object({
+  // One scenario per toggle, e.g. "No preload" vs "Preload font"
+  scenarios: z.array(waterfall2DScenarioSchema).min(1),
+});
+
+// Tree2D spec schema (nodes are a flat list linked by `parent`)
+const tree2DNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  parent: z.string().optional(),
+  // Secondary line, e.g. props or a DOM tag
+  detail: z.string().optional(),
+});
+
+const tree2DNodeStateSchema = z.enum([
+  "rendered",
+  "skipped",
+  "updated",
+  "unmounted",
+]);
+
+const tree2DStepSchema = z.object({
+  label: z.string(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  // Node id -> what happened to it in this step; unlisted nodes are idle
+  nodeStates: z.record(z.string(), tree2DNodeStateSchema).optional(),
+  // Child node ids whose edge to their parent is highlighted
+  edges: z.array(z.string()).optional(),
+});
+
+export const tree2DSpecSchema = z.object({
+  nodes: z.array(tree2DNodeSchema).min(1),
+  steps: z.array(tree2DStepSchema).min(1),
+});
+
+// Treemap2D spec schema (items are a flat list linked by `parent`)
+const treemap2DItemSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  parent: z.string().optional(),
+  // Leaves only; groups are sized by the sum of their children
+  size: z.number().nonnegative().optional(),
+});
+
+const treemap2DMoveSchema = z.object({
+  item: z.string(),
+  // New parent, e.g. the chunk a module is split into
+  to: z.string(),
+});
+
+const treemap2DStepSchema = z.object({
+  label: z.string(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  // Re-parenting applied from this step on (moves accumulate)
+  moves: z.array(treemap2DMoveSchema).optional(),
+  highlight: z.array(z.string()).optional(),
+  // Group to drill into for this step (defaults to the top level)
+  focus: z.string().optional(),
+});
+
+export const treemap2DSpecSchema = z.object({
+  items: z.array(treemap2DItemSchema).min(1),
+  // Size unit shown in labels
+  unit: z.string().default("KB"),
+  steps: z.array(treemap2DStepSchema).optional(),
+});
+
+// Code2D spec schema (line numbers are 1-based)
+const code2DFileSchema = z.object({
+  name: z.string(),
+  // Any language shiki knows, e.g. "tsx"; unknown ones render as plain text
+  language: z.string().default("text"),
+  code: z.string(),
+});
+
+const code2DLineRangeSchema = z.object({
+  from: z.number().int().positive(),
+  // Defaults to a single line
+  to: z.number().int().positive().optional(),
+});
+
+const code2DAnnotationSchema = z.object({
+  line: z.number().int().positive(),
+  text: z.string(),
+});
+
+const code2DWatchSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+});
+
+const code2DStepSchema = z.object({
+  label: z.string(),
+  explanation: z.string(),
+  durationMs: stepDurationSchema,
+  // File shown in this step, by name (defaults to the previous step's file)
+  file: z.string().optional(),
+  highlight: z.array(code2DLineRangeSchema).optional(),
+  // Notes shown under the given lines of this step's file
+  annotations: z.array(code2DAnnotationSchema).optional(),
+  // Variable values at this point; values that changed are marked
+  watch: z.array(code2DWatchSchema).optional(),
+});
+
+export const code2DSpecSchema = z.object({
+  files: z.array(code2DFileSchema).min(1),
+  steps: z.array(code2DStepSchema).min(1),
+});
+
 // Union schema for any spec type
 export const animatedExampleSpecSchema = z.union([
   timeline2DSpecSchema,
   flow2DSpecSchema,
   diff2DSpecSchema,
+  sequence2DSpecSchema,
+  statechartSpecSchema,
+  waterfall2DSpecSchema,
+  tree2DSpecSchema,
+  treemap2DSpecSchema,
+  code2DSpecSchema,
 ]);
 
 // Type exports
 export type Timeline2DSpec = z.infer<typeof timeline2DSpecSchema>;
 export type Flow2DSpec = z.infer<typeof flow2DSpecSchema>;
 export type Diff2DSpec = z.infer<typeof diff2DSpecSchema>;
+export type Sequence2DSpec = z.infer<typeof sequence2DSpecSchema>;
+export type StatechartSpec = z.infer<typeof statechartSpecSchema>;
+export type Waterfall2DSpec = z.infer<typeof waterfall2DSpecSchema>;
+export type Tree2DSpec = z.infer<typeof tree2DSpecSchema>;
+export type Treemap2DSpec = z.infer<typeof treemap2DSpecSchema>;
+export type Code2DSpec = z.infer<typeof code2DSpecSchema>;
 export type AnimatedExampleSpec = z.infer<typeof animatedExampleSpecSchema>;
 
-// Validation helper
-export function validateSpec(
-  kind: "timeline2d" | "flow2d" | "diff2d",
-  spec: unknown
-):
-  | { success: true; data: AnimatedExampleSpec }
-  | { success: false; error: string } {
-  let schema;
+export type AnimatedExampleKind =
+  | "timeline2d"
+  | "flow2d"
+  | "diff2d"
+  | "sequence2d"
+  | "statechart"
+  | "waterfall2d"
+  | "tree2d"
+  | "treemap2d"
+  | "code2d";
+
+// Shape schema for a kind, or null for unknown kinds
+export function specSchemaFor(kind: AnimatedExampleKind) {
   switch (kind) {
     case "timeline2d":
-      schema = timeline2DSpecSchema;
-      break;
+      return timeline2DSpecSchema;
     case "flow2d":
-      schema = flow2DSpecSchema;
-      break;
+      return flow2DSpecSchema;
     case "diff2d":
-      schema = diff2DSpecSchema;
-      break;
+      return diff2DSpecSchema;
+    case "sequence2d":
+      return sequence2DSpecSchema;
+    case "statechart":
+      return statechartSpecSchema;
+    case "waterfall2d":
+      return waterfall2DSpecSchema;
+    case "tree2d":
+      return tree2DSpecSchema;
+    case "treemap2d":
+      return treemap2DSpecSchema;
+    case "code2d":
+      return code2DSpecSchema;
     default:
-      return { success: false, error: `Unknown kind: ${kind}` };
+      return null;
+  }
+}
+
+// Validation helper (shape only; see specValidation.ts for references)
+export function validateSpec(
+  kind: AnimatedExampleKind,
+  spec: unknown
+):
+  | { success: true; data: AnimatedExampleSpec }
+  | { success: false; error: string } {
+  const schema = specSchemaFor(kind);
+  if (!schema) {
+    return { success: false, error: `Unknown kind: ${kind}` };
   }
 
   const result = schema.safeParse(spec);
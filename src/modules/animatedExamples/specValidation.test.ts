@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkSpec,
+  formatSpecIssues,
+  logSpecWarnings,
+  validateAnimatedExampleSpec,
+} from "./specValidation";
+
+const flow = {
+  nodes: [
+    { id: "browser", label: "Browser" },
+    { id: "cdn", label: "CDN" },
+  ],
+  edges: [{ id: "request", from: "browser", to: "cdn" }],
+  steps: [
+    { label: "Request", explanation: "Ask the CDN", activeEdges: ["request"] },
+    { label: "Response", explanation: "Cached copy" },
+  ],
+};
+
+// Renders, but with a warning
+const loopSpec = {
+  ...flow,
+  edges: [...flow.edges, { id: "loop", from: "cdn", to: "cdn" }],
+};
+const loopWarning = 'edges.1: Edge "loop" loops back to its own node';
+
+describe("checkSpec", () => {
+  it("accepts a consistent spec", () => {
+    const result = checkSpec("flow2d", flow);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toBeDefined();
+  });
+
+  it("reports shape errors without running semantic checks", () => {
+    const result = checkSpec("flow2d", { nodes: [] });
+    expect(result.data).toBeUndefined();
+    expect(result.errors.map((issue) => issue.path)).toContain("nodes");
+  });
+
+  it("reports unknown references and duplicate ids by path", () => {
+    const result = checkSpec("flow2d", {
+      ...flow,
+      nodes: [...flow.nodes, { id: "cdn", label: "Again" }],
+      edges: [{ id: "request", from: "browser", to: "origin" }],
+    });
+    expect(result.errors).toEqual([
+      { path: "nodes.2.id", message: 'Duplicate node "cdn"' },
+      { path: "edges.0.to", message: 'Unknown node "origin"' },
+    ]);
+  });
+
+  it("warns about specs that render, but oddly", () => {
+    const result = checkSpec("flow2d", loopSpec);
+    expect(result.errors).toEqual([]);
+    expect(formatSpecIssues(result.warnings)).toBe(loopWarning);
+  });
+
+  it("checks the initial step against the step count", () => {
+    expect(checkSpec("flow2d", flow, { initialStep: 1 }).errors).toEqual([]);
+    expect(checkSpec("flow2d", flow, { initialStep: 2 }).errors).toEqual([
+      {
+        path: "controls.initialStep",
+        message: "Must be a whole number from 0 to 1",
+      },
+    ]);
+  });
+
+  it("rejects unknown kinds", () => {
+    expect(checkSpec("nope" as never, flow).errors).toEqual([
+      { path: "", message: "Unknown kind: nope" },
+    ]);
+  });
+});
+
+describe("formatSpecIssues", () => {
+  it("joins issues with their paths", () => {
+    expect(
+      formatSpecIssues([
+        { path: "edges.0.to", message: "Unknown node" },
+        { path: "", message: "Unknown kind" },
+      ])
+    ).toBe("edges.0.to: Unknown node; Unknown kind");
+  });
+});
+
+describe("validateAnimatedExampleSpec", () => {
+  // No `payload` on the request, so validation must not log
+  const options = (siblingData: object) =>
+    ({
+      siblingData,
+      required: true,
+      req: { t: (key: string) => key },
+    }) as never;
+  // Payload types the stored JSON loosely
+  const validate = (spec: object, siblingData: object) =>
+    validateAnimatedExampleSpec(spec as never, options(siblingData));
+
+  it("passes specs with only warnings", () => {
+    expect(validate(loopSpec, { kind: "flow2d" })).toBe(true);
+  });
+
+  it("rejects specs with errors", () => {
+    const spec = {
+      ...flow,
+      edges: [{ id: "request", from: "browser", to: "x" }],
+    };
+    expect(validate(spec, { kind: "flow2d" })).toBe(
+      'Invalid flow2d spec: edges.0.to: Unknown node "x"'
+    );
+  });
+});
+
+describe("logSpecWarnings", () => {
+  const run = (data: object, originalDoc?: object) => {
+    const warn = vi.fn();
+    const result = logSpecWarnings({
+      data,
+      originalDoc,
+      req: { payload: { logger: { warn } } },
+    } as never);
+    return { result, warn };
+  };
+
+  it("logs the warnings of the spec being saved", () => {
+    const { result, warn } = run({ kind: "flow2d", spec: loopSpec });
+    expect(result).toEqual({ kind: "flow2d", spec: loopSpec });
+    expect(warn).toHaveBeenCalledWith(
+      `Animated example spec (flow2d): ${loopWarning}`
+    );
+  });
+
+  it("fills in fields a partial update leaves out", () => {
+    const { warn } = run(
+      { title: "Renamed" },
+      {
+        kind: "flow2d",
+        spec: loopSpec,
+      }
+    );
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("stays quiet for clean specs", () => {
+    expect(run({ kind: "flow2d", spec: flow }).warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,808 @@
+import type { CollectionBeforeChangeHook, JSONFieldValidation } from "payload";
+import { json } from "payload/shared";
+import {
+  specSchemaFor,
+  timelineStepId,
+  type AnimatedExampleKind,
+  type AnimatedExampleSpec,
+  type Code2DSpec,
+  type Diff2DSpec,
+  type Flow2DSpec,
+  type Sequence2DSpec,
+  type StatechartSpec,
+  type Timeline2DSpec,
+  type Tree2DSpec,
+  type Treemap2DSpec,
+  type Waterfall2DSpec,
+} from "./specSchema";
+import { diffText } from "./textDiff";
+
+// Semantic checks on top of the shape schemas: references between parts of
+// a spec (edges to nodes, steps to lanes, ...) and the example's controls.
+// Errors would render a broken or empty example; warnings render, but
+// probably not as the author meant.
+
+type IssuePath = (string | number)[];
+
+export interface SpecIssue {
+  // Dotted path from the spec root, e.g. "edges.2.to"; control issues
+  // start with "controls"
+  path: string;
+  message: string;
+}
+
+export interface SpecCheckResult {
+  // Parsed spec, when it has the right shape
+  data?: AnimatedExampleSpec;
+  errors: SpecIssue[];
+  warnings: SpecIssue[];
+}
+
+// The example's `controls` group, as stored
+export interface SpecControls {
+  initialStep?: number | null;
+  toggleLabels?: Array<{ label: string }> | null;
+}
+
+interface Report {
+  error: (path: IssuePath, message: string) => void;
+  warn: (path: IssuePath, message: string) => void;
+}
+
+function formatPath(path: IssuePath) {
+  return path.join(".");
+}
+
+// Report repeated ids; later duplicates are the ones flagged
+function checkUnique(
+  report: Report,
+  ids: string[],
+  path: (index: number) => IssuePath,
+  what: string
+) {
+  const seen = new Set<string>();
+  ids.forEach((id, index) => {
+    if (seen.has(id)) report.error(path(index), `Duplicate ${what} "${id}"`);
+    seen.add(id);
+  });
+}
+
+function checkRef(
+  report: Report,
+  known: Set<string>,
+  id: string,
+  path: IssuePath,
+  what: string
+) {
+  if (!known.has(id)) report.error(path, `Unknown ${what} "${id}"`);
+}
+
+// Flat lists linked by `parent`: parents must exist and never loop
+function checkParents(
+  report: Report,
+  items: Array<{ id: string; parent?: string }>,
+  listPath: string,
+  what: string
+) {
+  const parents = new Map(items.map((item) => [item.id, item.parent]));
+  items.forEach((item, index) => {
+    if (item.parent === undefined) return;
+    if (!parents.has(item.parent)) {
+      report.error(
+        [listPath, index, "parent"],
+        `Unknown parent ${what} "${item.parent}"`
+      );
+      return;
+    }
+    const trail = new Set([item.id]);
+    let current: string | undefined = item.parent;
+    while (current !== undefined && !trail.has(current)) {
+      trail.add(current);
+      current = parents.get(current);
+    }
+    if (current === item.id) {
+      report.error(
+        [listPath, index, "parent"],
+        `"${item.id}" is its own ancestor`
+      );
+    }
+  });
+}
+
+function checkTimeline2D(spec: Timeline2DSpec, report: Report) {
+  const lanes = new Set(spec.lanes);
+  const stepIds = spec.steps.map(timelineStepId);
+  const steps = new Set(stepIds);
+
+  checkUnique(report, spec.lanes, (i) => ["lanes", i], "lane");
+  spec.steps.forEach((step, index) => {
+    if (stepIds.indexOf(stepIds[index]) === index) return;
+    // A derived id only clashes when two labels slugify the same way
+    if (step.id === undefined) {
+      report.warn(
+        ["steps", index, "label"],
+        `Step id "${stepIds[index]}" (from the label) is already used; set an explicit id`
+      );
+    } else {
+      report.error(["steps", index, "id"], `Duplicate step "${step.id}"`);
+    }
+  });
+
+  spec.steps.forEach((step, index) => {
+    if (step.lane !== undefined) {
+      checkRef(report, lanes, step.lane, ["steps", index, "lane"], "lane");
+    }
+    step.highlights?.forEach((highlight, i) => {
+      const path = ["steps", index, "highlights", i];
+      checkRef(report, lanes, highlight.lane, [...path, "lane"], "lane");
+      checkRef(report, steps, highlight.nodeId, [...path, "nodeId"], "step");
+    });
+    if (step.tokenPath) {
+      const path = ["steps", index, "tokenPath"];
+      for (const end of ["from", "to"] as const) {
+        const ref = step.tokenPath[end];
+        if (!steps.has(ref) && !lanes.has(ref)) {
+          report.error([...path, end], `Unknown step or lane "${ref}"`);
+        }
+      }
+      if (step.tokenPath.lane !== undefined) {
+        checkRef(report, lanes, step.tokenPath.lane, [...path, "lane"], "lane");
+      }
+    }
+  });
+
+  if (spec.lanes.length === 0) {
+    report.warn(["lanes"], "No lanes; every step is drawn in one row");
+  }
+}
+
+function checkFlow2D(spec: Flow2DSpec, report: Report) {
+  const nodes = new Set(spec.nodes.map((node) => node.id));
+  const edges = new Set(spec.edges.map((edge) => edge.id));
+  const groups = spec.groups || [];
+  const declaredGroups = new Set(groups.map((group) => group.id));
+  const allGroups = new Set([
+    ...declaredGroups,
+    ...spec.nodes.flatMap((node) => (node.group ? [node.group] : [])),
+  ]);
+
+  checkUnique(
+    report,
+    spec.nodes.map((node) => node.id),
+    (i) => ["nodes", i, "id"],
+    "node"
+  );
+  checkUnique(
+    report,
+    spec.edges.map((edge) => edge.id),
+    (i) => ["edges", i, "id"],
+    "edge"
+  );
+  checkUnique(
+    report,
+    groups.map((group) => group.id),
+    (i) => ["groups", i, "id"],
+    "group"
+  );
+  checkParents(report, groups, "groups", "group");
+
+  spec.edges.forEach((edge, index) => {
+    checkRef(report, nodes, edge.from, ["edges", index, "from"], "node");
+    checkRef(report, nodes, edge.to, ["edges", index, "to"], "node");
+    if (edge.from === edge.to) {
+      report.warn(
+        ["edges", index],
+        `Edge "${edge.id}" loops back to its own node`
+      );
+    }
+  });
+
+  if (groups.length > 0) {
+    spec.nodes.forEach((node, index) => {
+      if (node.group && !declaredGroups.has(node.group)) {
+        report.warn(
+          ["nodes", index, "group"],
+          `Group "${node.group}" isn't declared in groups; it is labelled with its id`
+        );
+      }
+    });
+  }
+
+  spec.steps?.forEach((step, index) => {
+    const path = ["steps", index];
+    step.activeNodes?.forEach((id, i) =>
+      checkRef(report, nodes, id, [...path, "activeNodes", i], "node")
+    );
+    step.activeEdges?.forEach((id, i) =>
+      checkRef(report, edges, id, [...path, "activeEdges", i], "edge")
+    );
+    step.activeGroups?.forEach((id, i) =>
+      checkRef(report, allGroups, id, [...path, "activeGroups", i], "group")
+    );
+    step.packets?.forEach((packet, i) =>
+      checkRef(
+        report,
+        edges,
+        packet.edge,
+        [...path, "packets", i, "edge"],
+        "edge"
+      )
+    );
+  });
+}
+
+function checkDiff2D(spec: Diff2DSpec, report: Report) {
+  const regionIds = (pane: Diff2DSpec["left"]) =>
+    pane?.type === "tree"
+      ? pane.nodes.map((node) => node.id)
+      : pane?.regions?.map((region) => region.id) || [];
+
+  for (const side of ["left", "right"] as const) {
+    const pane = spec[side];
+    if (pane?.type === "tree") {
+      checkUnique(
+        report,
+        regionIds(pane),
+        (i) => [side, "nodes", i, "id"],
+        "node"
+      );
+      checkParents(report, pane.nodes, `${side}.nodes`, "node");
+    } else if (pane) {
+      checkUnique(
+        report,
+        regionIds(pane),
+        (i) => [side, "regions", i, "id"],
+        "region"
+      );
+    }
+  }
+
+  const hunkCount = spec.text
+    ? diffText(spec.text.before, spec.text.after).hunkCount
+    : 0;
+  if (spec.text && hunkCount === 0) {
+    report.warn(
+      ["text"],
+      "Before and after are identical; there is nothing to compare"
+    );
+  }
+
+  spec.toggles.forEach((toggle, index) => {
+    const path = ["toggles", index];
+    toggle.hunks?.forEach((hunk, i) => {
+      if (!spec.text) {
+        report.warn([...path, "hunks", i], "Hunks only apply to text diffs");
+      } else if (hunk > hunkCount) {
+        report.error(
+          [...path, "hunks", i],
+          `Hunk ${hunk} doesn't exist; the diff has ${hunkCount}`
+        );
+      }
+    });
+
+    for (const side of ["left", "right"] as const) {
+      const key = side === "left" ? "leftHighlights" : "rightHighlights";
+      const highlights = toggle[key];
+      if (!highlights?.length) continue;
+      if (spec.text) {
+        report.warn([...path, key], "Highlights are ignored for text diffs");
+        continue;
+      }
+      const regions = new Set(regionIds(spec[side]));
+      highlights.forEach((highlight, i) => {
+        if ("region" in highlight) {
+          checkRef(
+            report,
+            regions,
+            highlight.region,
+            [...path, key, i, "region"],
+            "region"
+          );
+        } else if (
+          highlight.x < 0 ||
+          highlight.y < 0 ||
+          highlight.x + highlight.width > spec.canvas.width ||
+          highlight.y + highlight.height > spec.canvas.height
+        ) {
+          report.warn(
+            [...path, key, i],
+            `Highlight extends past the ${spec.canvas.width}×${spec.canvas.height} canvas`
+          );
+        }
+      });
+    }
+  });
+}
+
+function checkSequence2D(spec: Sequence2DSpec, report: Report) {
+  const actors = new Set(spec.actors.map((actor) => actor.id));
+  const messageIds = spec.messages.map((message) => message.id);
+  const messages = new Set(messageIds);
+
+  checkUnique(
+    report,
+    spec.actors.map((actor) => actor.id),
+    (i) => ["actors", i, "id"],
+    "actor"
+  );
+  checkUnique(report, messageIds, (i) => ["messages", i, "id"], "message");
+
+  spec.messages.forEach((message, index) => {
+    checkRef(
+      report,
+      actors,
+      message.from,
+      ["messages", index, "from"],
+      "actor"
+    );
+    checkRef(report, actors, message.to, ["messages", index, "to"], "actor");
+  });
+
+  spec.activations?.forEach((activation, index) => {
+    const path = ["activations", index];
+    checkRef(report, actors, activation.actor, [...path, "actor"], "actor");
+    checkRef(report, messages, activation.from, [...path, "from"], "message");
+    checkRef(report, messages, activation.to, [...path, "to"], "message");
+    if (
+      messageIds.indexOf(activation.to) < messageIds.indexOf(activation.from)
+    ) {
+      report.warn(
+        path,
+        `Activation ends ("${activation.to}") before it starts ("${activation.from}")`
+      );
+    }
+  });
+
+  spec.notes?.forEach((note, index) => {
+    note.actors.forEach((actor, i) =>
+      checkRef(report, actors, actor, ["notes", index, "actors", i], "actor")
+    );
+    checkRef(
+      report,
+      messages,
+      note.afterMessage,
+      ["notes", index, "afterMessage"],
+      "message"
+    );
+  });
+
+  spec.steps?.forEach((step, index) =>
+    step.messages.forEach((id, i) =>
+      checkRef(report, messages, id, ["steps", index, "messages", i], "message")
+    )
+  );
+}
+
+function checkStatechart(spec: StatechartSpec, report: Report) {
+  const states = new Set(spec.states.map((state) => state.id));
+
+  checkUnique(
+    report,
+    spec.states.map((state) => state.id),
+    (i) => ["states", i, "id"],
+    "state"
+  );
+  checkParents(report, spec.states, "states", "state");
+
+  // More than one initial child under the same parent
+  const initialParents = new Set<string | undefined>();
+  spec.states.forEach((state, index) => {
+    if (!state.initial) return;
+    if (initialParents.has(state.parent)) {
+      report.warn(
+        ["states", index, "initial"],
+        `Another state under ${state.parent ? `"${state.parent}"` : "the root"} is already initial`
+      );
+    }
+    initialParents.add(state.parent);
+  });
+
+  spec.transitions.forEach((transition, index) => {
+    checkRef(
+      report,
+      states,
+      transition.from,
+      ["transitions", index, "from"],
+      "state"
+    );
+    checkRef(
+      report,
+      states,
+      transition.to,
+      ["transitions", index, "to"],
+      "state"
+    );
+  });
+
+  // Unmatched events and guards aren't wrong, but do nothing
+  const events = new Set(
+    spec.transitions.map((transition) => transition.event)
+  );
+  const guards = new Set(
+    spec.transitions.flatMap((transition) =>
+      transition.guard ? [transition.guard] : []
+    )
+  );
+  const checkGuards = (
+    values: Record<string, boolean> | undefined,
+    path: IssuePath
+  ) =>
+    Object.keys(values || {}).forEach((guard) => {
+      if (!guards.has(guard)) {
+        report.warn([...path, guard], `No transition uses guard "${guard}"`);
+      }
+    });
+
+  checkGuards(spec.guards, ["guards"]);
+  spec.script.forEach((step, index) => {
+    if (!events.has(step.event)) {
+      report.warn(
+        ["script", index, "event"],
+        `No transition handles event "${step.event}"`
+      );
+    }
+    checkGuards(step.guards, ["script", index, "guards"]);
+  });
+}
+
+function checkWaterfall2D(spec: Waterfall2DSpec, report: Report) {
+  spec.scenarios.forEach((scenario, s) => {
+    const path = ["scenarios", s];
+    const ids = scenario.resources.map((resource) => resource.id);
+    const resources = new Set(ids);
+
+    checkUnique(
+      report,
+      ids,
+      (i) => [...path, "resources", i, "id"],
+      "resource"
+    );
+    scenario.resources.forEach((resource, index) =>
+      resource.dependsOn?.forEach((id, i) => {
+        const depPath = [...path, "resources", index, "dependsOn", i];
+        if (id === resource.id) {
+          report.error(depPath, `"${id}" can't depend on itself`);
+        } else {
+          checkRef(report, resources, id, depPath, "resource");
+        }
+      })
+    );
+
+    // Milestones are matched across scenarios by label
+    const labels = (scenario.milestones || []).map(
+      (milestone) => milestone.label
+    );
+    labels.forEach((label, index) => {
+      if (labels.indexOf(label) !== index) {
+        report.warn(
+          [...path, "milestones", index, "label"],
+          `Milestone "${label}" appears twice`
+        );
+      }
+    });
+  });
+}
+
+function checkTree2D(spec: Tree2DSpec, report: Report) {
+  const nodes = new Set(spec.nodes.map((node) => node.id));
+  const parents = new Map(spec.nodes.map((node) => [node.id, node.parent]));
+
+  checkUnique(
+    report,
+    spec.nodes.map((node) => node.id),
+    (i) => ["nodes", i, "id"],
+    "node"
+  );
+  checkParents(report, spec.nodes, "nodes", "node");
+
+  spec.steps.forEach((step, index) => {
+    const path = ["steps", index];
+    Object.keys(step.nodeStates || {}).forEach((id) =>
+      checkRef(report, nodes, id, [...path, "nodeStates", id], "node")
+    );
+    step.edges?.forEach((id, i) => {
+      if (!nodes.has(id)) {
+        report.error([...path, "edges", i], `Unknown node "${id}"`);
+      } else if (parents.get(id) === undefined) {
+        report.warn(
+          [...path, "edges", i],
+          `"${id}" is a root and has no edge to highlight`
+        );
+      }
+    });
+  });
+}
+
+function checkTreemap2D(spec: Treemap2DSpec, report: Report) {
+  const items = new Set(spec.items.map((item) => item.id));
+  const parents = new Set(
+    spec.items.flatMap((item) => (item.parent ? [item.parent] : []))
+  );
+
+  checkUnique(
+    report,
+    spec.items.map((item) => item.id),
+    (i) => ["items", i, "id"],
+    "item"
+  );
+  checkParents(report, spec.items, "items", "item");
+
+  spec.items.forEach((item, index) => {
+    if (!parents.has(item.id) && !item.size) {
+      report.warn(
+        ["items", index, "size"],
+        `Leaf "${item.id}" has no size and won't be visible`
+      );
+    }
+  });
+
+  spec.steps?.forEach((step, index) => {
+    const path = ["steps", index];
+    step.moves?.forEach((move, i) => {
+      checkRef(report, items, move.item, [...path, "moves", i, "item"], "item");
+      checkRef(report, items, move.to, [...path, "moves", i, "to"], "item");
+      if (move.item === move.to) {
+        report.error(
+          [...path, "moves", i, "to"],
+          `"${move.item}" can't move into itself`
+        );
+      }
+    });
+    step.highlight?.forEach((id, i) =>
+      checkRef(report, items, id, [...path, "highlight", i], "item")
+    );
+    if (step.focus !== undefined) {
+      checkRef(report, items, step.focus, [...path, "focus"], "item");
+    }
+  });
+}
+
+function checkCode2D(spec: Code2DSpec, report: Report) {
+  const lineCounts = new Map(
+    spec.files.map((file) => [
+      file.name,
+      file.code.replace(/\n$/, "").split("\n").length,
+    ])
+  );
+
+  checkUnique(
+    report,
+    spec.files.map((file) => file.name),
+    (i) => ["files", i, "name"],
+    "file"
+  );
+
+  // Steps without a file keep the previous step's (the first file to start)
+  let fileName = spec.files[0].name;
+  spec.steps.forEach((step, index) => {
+    const path = ["steps", index];
+    if (step.file !== undefined) {
+      checkRef(
+        report,
+        new Set(lineCounts.keys()),
+        step.file,
+        [...path, "file"],
+        "file"
+      );
+      fileName = step.file;
+    }
+    const lineCount = lineCounts.get(fileName);
+    if (lineCount === undefined) return;
+
+    const checkLine = (line: number, linePath: IssuePath) => {
+      if (line > lineCount) {
+        report.error(
+          linePath,
+          `Line ${line} is past the end of ${fileName} (${lineCount} lines)`
+        );
+      }
+    };
+    step.highlight?.forEach((range, i) => {
+      checkLine(range.from, [...path, "highlight", i, "from"]);
+      if (range.to === undefined) return;
+      checkLine(range.to, [...path, "highlight", i, "to"]);
+      if (range.to < range.from) {
+        report.error(
+          [...path, "highlight", i, "to"],
+          `Range ends (${range.to}) before it starts (${range.from})`
+        );
+      }
+    });
+    step.annotations?.forEach((annotation, i) =>
+      checkLine(annotation.line, [...path, "annotations", i, "line"])
+    );
+  });
+}
+
+// Steps (or toggles / scenarios) the renderer steps through
+function stepCountOf(kind: AnimatedExampleKind, spec: AnimatedExampleSpec) {
+  switch (kind) {
+    case "timeline2d":
+    case "tree2d":
+    case "code2d":
+      return (spec as Timeline2DSpec | Tree2DSpec | Code2DSpec).steps.length;
+    case "flow2d":
+    case "treemap2d":
+      return (spec as Flow2DSpec | Treemap2DSpec).steps?.length || 0;
+    case "diff2d":
+      return (spec as Diff2DSpec).toggles.length;
+    case "sequence2d": {
+      const { steps, messages } = spec as Sequence2DSpec;
+      return steps?.length || messages.length;
+    }
+    case "statechart":
+      // The initial configuration, then one step per event
+      return (spec as StatechartSpec).script.length + 1;
+    case "waterfall2d":
+      return (spec as Waterfall2DSpec).scenarios.length;
+  }
+}
+
+function checkControls(
+  kind: AnimatedExampleKind,
+  spec: AnimatedExampleSpec,
+  controls: SpecControls,
+  report: Report
+) {
+  const stepCount = stepCountOf(kind, spec);
+  const { initialStep, toggleLabels } = controls;
+  if (
+    typeof initialStep === "number" &&
+    initialStep !== 0 &&
+    (initialStep < 0 ||
+      initialStep >= stepCount ||
+      !Number.isInteger(initialStep))
+  ) {
+    report.error(
+      ["controls", "initialStep"],
+      stepCount === 0
+        ? "This example has no steps; leave it at 0"
+        : `Must be a whole number from 0 to ${stepCount - 1}`
+    );
+  }
+
+  if (toggleLabels?.length) {
+    if (kind !== "diff2d") {
+      report.warn(
+        ["controls", "toggleLabels"],
+        "Toggle labels only apply to diff2d examples"
+      );
+    } else if (toggleLabels.length !== stepCount) {
+      // Each label becomes a toggle button
+      report.error(
+        ["controls", "toggleLabels"],
+        `Expected one label per toggle (${stepCount}), got ${toggleLabels.length}`
+      );
+    }
+  }
+}
+
+/**
+ * Check a spec's shape, then its references and the example's controls.
+ * Semantic checks only run once the shape is valid.
+ */
+export function checkSpec(
+  kind: AnimatedExampleKind,
+  spec: unknown,
+  controls?: SpecControls | null
+): SpecCheckResult {
+  const schema = specSchemaFor(kind);
+  if (!schema) {
+    return {
+      errors: [{ path: "", message: `Unknown kind: ${kind}` }],
+      warnings: [],
+    };
+  }
+
+  const parsed = schema.safeParse(spec);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) => ({
+        path: formatPath(issue.path as IssuePath),
+        message: issue.message,
+      })),
+      warnings: [],
+    };
+  }
+
+  const errors: SpecIssue[] = [];
+  const warnings: SpecIssue[] = [];
+  const report: Report = {
+    error: (path, message) => errors.push({ path: formatPath(path), message }),
+    warn: (path, message) => warnings.push({ path: formatPath(path), message }),
+  };
+
+  const data = parsed.data;
+  switch (kind) {
+    case "timeline2d":
+      checkTimeline2D(data as Timeline2DSpec, report);
+      break;
+    case "flow2d":
+      checkFlow2D(data as Flow2DSpec, report);
+      break;
+    case "diff2d":
+      checkDiff2D(data as Diff2DSpec, report);
+      break;
+    case "sequence2d":
+      checkSequence2D(data as Sequence2DSpec, report);
+      break;
+    case "statechart":
+      checkStatechart(data as StatechartSpec, report);
+      break;
+    case "waterfall2d":
+      checkWaterfall2D(data as Waterfall2DSpec, report);
+      break;
+    case "tree2d":
+      checkTree2D(data as Tree2DSpec, report);
+      break;
+    case "treemap2d":
+      checkTreemap2D(data as Treemap2DSpec, report);
+      break;
+    case "code2d":
+      checkCode2D(data as Code2DSpec, report);
+      break;
+  }
+  if (controls) checkControls(kind, data, controls, report);
+
+  return { data, errors, warnings };
+}
+
+export function formatSpecIssues(issues: SpecIssue[]) {
+  return issues
+    .map((issue) =>
+      issue.path ? `${issue.path}: ${issue.message}` : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * Payload field validation for `animated_examples.spec`: reject specs the
+ * renderer can't draw. Warnings are left to `logSpecWarnings`, since
+ * validation also runs while the spec is being edited.
+ */
+export const validateAnimatedExampleSpec: JSONFieldValidation = (
+  value,
+  options
+) => {
+  // Payload's own checks first (required, malformed JSON)
+  const builtIn = json(value, options);
+  if (builtIn !== true) return builtIn;
+
+  const { siblingData } = options;
+  const { kind, controls } = (siblingData || {}) as {
+    kind?: AnimatedExampleKind;
+    controls?: SpecControls | null;
+  };
+  // `kind` is required; its own validation reports it missing
+  if (!kind || value === null || value === undefined) return true;
+
+  const { errors } = checkSpec(kind, value, controls);
+  if (errors.length === 0) return true;
+  return `Invalid ${kind} spec: ${formatSpecIssues(errors)}`;
+};
+
+/**
+ * `animated_examples` beforeChange hook: log the warnings of a spec that is
+ * about to be saved
+ */
+export const logSpecWarnings: CollectionBeforeChangeHook = ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  // Partial updates only carry the changed fields
+  const { kind, spec, controls } = { ...originalDoc, ...data } as {
+    kind?: AnimatedExampleKind;
+    spec?: unknown;
+    controls?: SpecControls | null;
+  };
+  if (!kind || spec === null || spec === undefined) return data;
+
+  const { warnings } = checkSpec(kind, spec, controls);
+  if (warnings.length > 0) {
+    req.payload.logger.warn(
+      `Animated example spec (${kind}): ${formatSpecIssues(warnings)}`
+    );
+  }
+  return data;
+};
@@ -0,0 +1,233 @@
+import type { StatechartSpec } from "./specSchema";
+
+// Simplified statechart semantics for teaching: compound states enter their
+// initial child, parallel states enter every region, and each active leaf
+// takes at most one transition per event (innermost state first).
+
+export type StatechartState = StatechartSpec["states"][number];
+
+export type StatechartTransition = StatechartSpec["transitions"][number] & {
+  id: string;
+};
+
+export type GuardValues = Record<string, boolean>;
+
+export interface StatechartModel {
+  states: Map<string, StatechartState>;
+  children: Map<string | null, StatechartState[]>;
+  transitions: StatechartTransition[];
+}
+
+export interface StepResult {
+  // Active states, including every ancestor of an active leaf
+  configuration: Set<string>;
+  // Transitions taken to reach this configuration
+  taken: string[];
+}
+
+export function buildStatechartModel(spec: StatechartSpec): StatechartModel {
+  const states = new Map(spec.states.map((state) => [state.id, state]));
+  const children = new Map<string | null, StatechartState[]>();
+  for (const state of spec.states) {
+    const parent =
+      state.parent && states.has(state.parent) ? state.parent : null;
+    children.set(parent, [...(children.get(parent) || []), state]);
+  }
+
+  return {
+    states,
+    children,
+    transitions: spec.transitions.map((transition, index) => ({
+      ...transition,
+      id:
+        transition.id ||
+        `${transition.from}-${transition.event}-${transition.to}-${index}`,
+    })),
+  };
+}
+
+export function getStateKind(
+  model: StatechartModel,
+  stateId: string
+): "atomic" | "compound" | "parallel" | "final" {
+  const state = model.states.get(stateId);
+  if (!state) return "atomic";
+  if (state.type === "parallel" || state.type === "final") return state.type;
+  return (model.children.get(stateId) || []).length > 0 ? "compound" : "atomic";
+}
+
+function parentOf(model: StatechartModel, stateId: string): string | null {
+  const parent = model.states.get(stateId)?.parent;
+  return parent && model.states.has(parent) ? parent : null;
+}
+
+// Proper ancestors, innermost first
+function ancestorsOf(model: StatechartModel, stateId: string): string[] {
+  const result: string[] = [];
+  let current = parentOf(model, stateId);
+  while (current) {
+    result.push(current);
+    current = parentOf(model, current);
+  }
+  return result;
+}
+
+function descendantsOf(model: StatechartModel, stateId: string): string[] {
+  return (model.children.get(stateId) || []).flatMap((child) => [
+    child.id,
+    ...descendantsOf(model, child.id),
+  ]);
+}
+
+function initialChild(model: StatechartModel, parent: string | null) {
+  const children = model.children.get(parent) || [];
+  return children.find((child) => child.initial) || children[0];
+}
+
+// Enter a state's default sub-configuration (initial child / all regions)
+function enterDefault(
+  model: StatechartModel,
+  stateId: string,
+  configuration: Set<string>
+) {
+  configuration.add(stateId);
+  const kind = getStateKind(model, stateId);
+  if (kind === "parallel") {
+    for (const region of model.children.get(stateId) || []) {
+      enterDefault(model, region.id, configuration);
+    }
+  } else if (kind === "compound") {
+    const child = initialChild(model, stateId);
+    if (child) enterDefault(model, child.id, configuration);
+  }
+}
+
+export function initialConfiguration(model: StatechartModel): Set<string> {
+  const configuration = new Set<string>();
+  const root = initialChild(model, null);
+  if (root) enterDefault(model, root.id, configuration);
+  return configuration;
+}
+
+function isLeaf(model: StatechartModel, stateId: string) {
+  return (model.children.get(stateId) || []).length === 0;
+}
+
+function guardAllows(transition: StatechartTransition, guards: GuardValues) {
+  return !transition.guard || guards[transition.guard] !== false;
+}
+
+/**
+ * Transitions that would fire for `event`: for each active leaf, the first
+ * matching transition on it or its nearest ancestor whose guard holds
+ */
+export function selectTransitions(
+  model: StatechartModel,
+  configuration: Set<string>,
+  event: string,
+  guards: GuardValues
+): StatechartTransition[] {
+  const selected: StatechartTransition[] = [];
+  const leaves = Array.from(configuration).filter((id) => isLeaf(model, id));
+
+  for (const leaf of leaves) {
+    for (const stateId of [leaf, ...ancestorsOf(model, leaf)]) {
+      const transition = model.transitions.find(
+        (t) => t.from === stateId && t.event === event && guardAllows(t, guards)
+      );
+      if (transition) {
+        if (!selected.includes(transition)) selected.push(transition);
+        break;
+      }
+    }
+  }
+  return selected;
+}
+
+/**
+ * Events with at least one transition out of the active configuration, and
+ * whether a guard currently blocks them
+ */
+export function availableEvents(
+  model: StatechartModel,
+  configuration: Set<string>,
+  guards: GuardValues
+): Array<{ event: string; enabled: boolean }> {
+  const events = new Map<string, boolean>();
+  for (const transition of model.transitions) {
+    if (!configuration.has(transition.from)) continue;
+    const enabled = selectTransitions(
+      model,
+      configuration,
+      transition.event,
+      guards
+    ).length;
+    events.set(transition.event, enabled > 0);
+  }
+  return Array.from(events, ([event, enabled]) => ({ event, enabled }));
+}
+
+// Least common proper ancestor of both states (null = root)
+function transitionDomain(
+  model: StatechartModel,
+  from: string,
+  to: string
+): string | null {
+  const targetAncestors = new Set(ancestorsOf(model, to));
+  return ancestorsOf(model, from).find((id) => targetAncestors.has(id)) ?? null;
+}
+
+export function fireEvent(
+  model: StatechartModel,
+  configuration: Set<string>,
+  event: string,
+  guards: GuardValues
+): StepResult {
+  const transitions = selectTransitions(model, configuration, event, guards);
+  const next = new Set(configuration);
+  const taken: string[] = [];
+  const exited = new Set<string>();
+
+  for (const transition of transitions) {
+    // A previous transition in this step already left this region
+    if (exited.has(transition.from) || !next.has(transition.from)) continue;
+    if (!model.states.has(transition.to)) continue;
+
+    const domain = transitionDomain(model, transition.from, transition.to);
+    // The domain's child containing the source is exited wholesale
+    const exitRoot =
+      [transition.from, ...ancestorsOf(model, transition.from)].find(
+        (id) => parentOf(model, id) === domain
+      ) ?? transition.from;
+    for (const id of [exitRoot, ...descendantsOf(model, exitRoot)]) {
+      if (next.delete(id)) exited.add(id);
+    }
+
+    // Enter from just below the domain down to the target, outermost first
+    const targetAncestors = ancestorsOf(model, transition.to);
+    const domainIndex =
+      domain === null
+        ? targetAncestors.length
+        : targetAncestors.indexOf(domain);
+    const entryPath = [
+      transition.to,
+      ...targetAncestors.slice(0, domainIndex),
+    ].reverse();
+    for (const id of entryPath.slice(0, -1)) {
+      next.add(id);
+      // Entering a parallel state on the way activates its other regions too
+      if (getStateKind(model, id) === "parallel") {
+        for (const region of model.children.get(id) || []) {
+          if (!entryPath.includes(region.id)) {
+            enterDefault(model, region.id, next);
+          }
+        }
+      }
+    }
+    enterDefault(model, transition.to, next);
+
+    taken.push(transition.id);
+  }
+
+  return { configuration: next, taken };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffText, type DiffLine } from "./textDiff";
+
+const summary = (lines: DiffLine[]) =>
+  lines.map((line) => [
+    line.kind,
+    line.before ?? null,
+    line.after ?? null,
+    line.segments.map((segment) => segment.text).join(""),
+  ]);
+
+describe("diffText", () => {
+  it("keeps identical text as unchanged lines", () => {
+    const diff = diffText("a\nb\n", "a\nb");
+    expect(diff.hunkCount).toBe(0);
+    expect(summary(diff.lines)).toEqual([
+      ["same", 1, 1, "a"],
+      ["same", 2, 2, "b"],
+    ]);
+  });
+
+  it("numbers each side and lists removals before additions", () => {
+    const diff = diffText("a\nb\nc", "a\nx\nc\nd");
+    expect(summary(diff.lines)).toEqual([
+      ["same", 1, 1, "a"],
+      ["removed", 2, null, "b"],
+      ["added", null, 2, "x"],
+      ["same", 3, 3, "c"],
+      ["added", null, 4, "d"],
+    ]);
+  });
+
+  it("groups each run of changes into a hunk", () => {
+    const diff = diffText("a\nb\nc", "a\nx\nc\nd");
+    expect(diff.hunkCount).toBe(2);
+    expect(diff.lines.map((line) => line.hunk)).toEqual([
+      undefined,
+      1,
+      1,
+      undefined,
+      2,
+    ]);
+  });
+
+  it("marks the changed words of a modified line", () => {
+    const [removed, added] = diffText(
+      "const ttl = 60;",
+      "const ttl = 300;"
+    ).lines;
+    expect(removed.segments).toEqual([
+      { text: "const ttl = ", changed: false },
+      { text: "60", changed: true },
+      { text: ";", changed: false },
+    ]);
+    expect(added.segments).toEqual([
+      { text: "const ttl = ", changed: false },
+      { text: "300", changed: true },
+      { text: ";", changed: false },
+    ]);
+  });
+
+  it("leaves unpaired lines without word-level changes", () => {
+    const diff = diffText("a", "b\nc");
+    expect(diff.lines[2].segments).toEqual([{ text: "c", changed: false }]);
+  });
+});
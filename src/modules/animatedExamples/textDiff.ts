@@ -0,0 +1,164 @@
+// Line- and word-level text diffs for diff2d examples. Inputs are short
+// (code snippets, config files), so a plain LCS table is fast enough.
+
+export type DiffLineKind = "same" | "removed" | "added";
+
+export interface DiffSegment {
+  text: string;
+  // Part of a word-level change within a modified line
+  changed: boolean;
+}
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  // 1-based line numbers on each side; removed lines have no `after`,
+  // added lines no `before`
+  before?: number;
+  after?: number;
+  // Concatenated, the segments are the line's text
+  segments: DiffSegment[];
+  // 1-based hunk this changed line belongs to
+  hunk?: number;
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  hunkCount: number;
+}
+
+type Operation<T> = { kind: DiffLineKind; item: T };
+
+// Longest-common-subsequence edit script, removals before additions
+function diffSequences<T>(a: T[], b: T[]): Operation<T>[] {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: Operation<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      operations.push({ kind: "same", item: a[i] });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      operations.push({ kind: "removed", item: a[i] });
+      i++;
+    } else {
+      operations.push({ kind: "added", item: b[j] });
+      j++;
+    }
+  }
+  return operations;
+}
+
+// Words, runs of whitespace and runs of punctuation
+function tokenize(line: string) {
+  return line.match(/\w+|\s+|[^\w\s]+/g) || [];
+}
+
+function mergeSegments(segments: DiffSegment[]) {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.changed === segment.changed) last.text += segment.text;
+    else merged.push({ ...segment });
+  }
+  return merged;
+}
+
+// Word-level segments for a removed line and the added line replacing it
+function diffWords(before: string, after: string) {
+  const operations = diffSequences(tokenize(before), tokenize(after));
+  return {
+    before: mergeSegments(
+      operations
+        .filter((operation) => operation.kind !== "added")
+        .map((operation) => ({
+          text: operation.item,
+          changed: operation.kind === "removed",
+        }))
+    ),
+    after: mergeSegments(
+      operations
+        .filter((operation) => operation.kind !== "removed")
+        .map((operation) => ({
+          text: operation.item,
+          changed: operation.kind === "added",
+        }))
+    ),
+  };
+}
+
+export function diffText(before: string, after: string): TextDiff {
+  // A trailing newline would otherwise show up as an empty last line
+  const split = (text: string) => text.replace(/\n$/, "").split("\n");
+  const operations = diffSequences(split(before), split(after));
+
+  const lines: DiffLine[] = [];
+  let beforeLine = 0;
+  let afterLine = 0;
+  let hunkCount = 0;
+  let index = 0;
+  while (index < operations.length) {
+    if (operations[index].kind === "same") {
+      beforeLine++;
+      afterLine++;
+      const text = operations[index].item;
+      lines.push({
+        kind: "same",
+        before: beforeLine,
+        after: afterLine,
+        segments: [{ text, changed: false }],
+      });
+      index++;
+      continue;
+    }
+
+    // A run of changes is one hunk; removed and added lines are paired up
+    // in order for the word-level diff
+    hunkCount++;
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].kind !== "same") {
+      const operation = operations[index];
+      (operation.kind === "removed" ? removed : added).push(operation.item);
+      index++;
+    }
+    const pairs = removed.map((text, i) =>
+      i < added.length ? diffWords(text, added[i]) : null
+    );
+    removed.forEach((text, i) => {
+      beforeLine++;
+      lines.push({
+        kind: "removed",
+        before: beforeLine,
+        segments: pairs[i]?.before || [{ text, changed: false }],
+        hunk: hunkCount,
+      });
+    });
+    added.forEach((text, i) => {
+      afterLine++;
+      lines.push({
+        kind: "added",
+        after: afterLine,
+        segments: pairs[i]?.after || [{ text, changed: false }],
+        hunk: hunkCount,
+      });
+    });
+  }
+
+  return { lines, hunkCount };
+}
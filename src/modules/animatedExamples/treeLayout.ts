@@ -0,0 +1,120 @@
+// Tidy tree layout: parents centered over their children, sibling subtrees
+// packed as closely as their contours allow (a simplified Reingold–Tilford).
+
+export interface TreeLayoutNode {
+  id: string;
+  parent?: string;
+}
+
+export interface TreeLayoutPosition {
+  // Horizontal position in units of `separation` (leftmost node at 0)
+  x: number;
+  depth: number;
+}
+
+interface Subtree {
+  id: string;
+  children: Subtree[];
+  // Child offsets relative to this node
+  offsets: number[];
+  // Leftmost / rightmost x per depth, relative to this node
+  left: number[];
+  right: number[];
+}
+
+/**
+ * Lay out a forest given as a flat parent-linked list. Nodes whose parent is
+ * missing become roots, placed side by side. Sibling order follows the input.
+ */
+export function layoutTree(
+  nodes: TreeLayoutNode[],
+  separation = 1
+): Map<string, TreeLayoutPosition> {
+  const ids = new Set(nodes.map((node) => node.id));
+  const childrenOf = new Map<string | null, string[]>();
+  for (const node of nodes) {
+    const parent = node.parent && ids.has(node.parent) ? node.parent : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), node.id]);
+  }
+
+  const visited = new Set<string>();
+  const build = (id: string): Subtree => {
+    // Guard against parent cycles in authored specs
+    visited.add(id);
+    const children = (childrenOf.get(id) || [])
+      .filter((child) => !visited.has(child))
+      .map(build);
+    return placeChildren(id, children, separation);
+  };
+
+  // A virtual root keeps multiple roots from overlapping
+  const roots = (childrenOf.get(null) || []).map(build);
+  const forest = placeChildren("", roots, separation);
+
+  const positions = new Map<string, TreeLayoutPosition>();
+  const assign = (subtree: Subtree, x: number, depth: number) => {
+    subtree.children.forEach((child, index) =>
+      assign(child, x + subtree.offsets[index], depth + 1)
+    );
+    if (depth >= 0) positions.set(subtree.id, { x, depth });
+  };
+  assign(forest, 0, -1);
+
+  // Shift so the leftmost node sits at 0
+  const minX = Math.min(...Array.from(positions.values(), (p) => p.x));
+  positions.forEach((position) => {
+    position.x -= minX;
+  });
+  return positions;
+}
+
+function placeChildren(
+  id: string,
+  children: Subtree[],
+  separation: number
+): Subtree {
+  const positions: number[] = [];
+  let left: number[] = [];
+  let right: number[] = [];
+
+  children.forEach((child, index) => {
+    let x = 0;
+    if (index > 0) {
+      // Closest placement that keeps every shared depth `separation` apart
+      const shared = Math.min(right.length, child.left.length);
+      for (let depth = 0; depth < shared; depth++) {
+        x = Math.max(x, right[depth] - child.left[depth] + separation);
+      }
+    }
+    positions.push(x);
+
+    // Earlier siblings keep the left edge; the newest one owns the right
+    const childLeft = child.left.map((value) => value + x);
+    const childRight = child.right.map((value) => value + x);
+    left = overlayContour(left, childLeft);
+    right = overlayContour(childRight, right);
+  });
+
+  // Center the parent over its first and last child
+  const center =
+    positions.length > 0
+      ? (positions[0] + positions[positions.length - 1]) / 2
+      : 0;
+
+  return {
+    id,
+    children,
+    offsets: positions.map((x) => x - center),
+    left: [0, ...left.map((value) => value - center)],
+    right: [0, ...right.map((value) => value - center)],
+  };
+}
+
+// `preferred` where it reaches, `fallback` at the depths below it
+function overlayContour(preferred: number[], fallback: number[]) {
+  return Array.from(
+    { length: Math.max(preferred.length, fallback.length) },
+    (_, depth) =>
+      depth < preferred.length ? preferred[depth] : fallback[depth]
+  );
+}
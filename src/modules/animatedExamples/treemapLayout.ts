@@ -0,0 +1,156 @@
+// Squarified treemap layout (Bruls, Huizing & van Wijk): items are placed in
+// rows along the shorter side, a row closing once adding another item would
+// make its worst aspect ratio worse.
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapNode {
+  id: string;
+  parent?: string;
+  size?: number;
+}
+
+export interface TreemapTree {
+  parentOf: Map<string, string | null>;
+  childrenOf: Map<string | null, string[]>;
+  // Leaf sizes as authored, internal nodes summed from their leaves
+  sizeOf: Map<string, number>;
+}
+
+/**
+ * Build the hierarchy after re-parenting nodes (`moves` maps an item id to its
+ * new parent id, applied in order). Moves that would create a cycle are ignored.
+ */
+export function buildTreemapTree(
+  nodes: TreemapNode[],
+  moves: Array<{ item: string; to: string }> = []
+): TreemapTree {
+  const ids = new Set(nodes.map((node) => node.id));
+  const parentOf = new Map<string, string | null>(
+    nodes.map((node) => [
+      node.id,
+      node.parent && ids.has(node.parent) ? node.parent : null,
+    ])
+  );
+
+  for (const move of moves) {
+    if (!ids.has(move.item) || !ids.has(move.to)) continue;
+    let ancestor: string | null = move.to;
+    while (ancestor && ancestor !== move.item) {
+      ancestor = parentOf.get(ancestor) ?? null;
+    }
+    if (ancestor === null) parentOf.set(move.item, move.to);
+  }
+
+  const childrenOf = new Map<string | null, string[]>();
+  for (const node of nodes) {
+    const parent = parentOf.get(node.id) ?? null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), node.id]);
+  }
+
+  const authored = new Map(nodes.map((node) => [node.id, node.size || 0]));
+  const sizeOf = new Map<string, number>();
+  const measure = (id: string): number => {
+    const children = childrenOf.get(id) || [];
+    const size =
+      children.length > 0
+        ? children.reduce((sum, child) => sum + measure(child), 0)
+        : authored.get(id) || 0;
+    sizeOf.set(id, size);
+    return size;
+  };
+  (childrenOf.get(null) || []).forEach(measure);
+
+  return { parentOf, childrenOf, sizeOf };
+}
+
+/**
+ * Squarify `items` into `rect`. Items with no size get no rectangle.
+ */
+export function squarify(
+  items: Array<{ id: string; value: number }>,
+  rect: TreemapRect
+): Map<string, TreemapRect> {
+  const result = new Map<string, TreemapRect>();
+  const sorted = items
+    .filter((item) => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, item) => sum + item.value, 0);
+  if (total === 0 || rect.width <= 0 || rect.height <= 0) return result;
+
+  const scale = (rect.width * rect.height) / total;
+  const areas = sorted.map((item) => ({
+    id: item.id,
+    area: item.value * scale,
+  }));
+  let remaining = { ...rect };
+  let row: typeof areas = [];
+
+  const layoutRow = () => {
+    const rowArea = row.reduce((sum, item) => sum + item.area, 0);
+    if (remaining.width >= remaining.height) {
+      // Column on the left
+      const columnWidth = rowArea / remaining.height;
+      let y = remaining.y;
+      for (const item of row) {
+        const height = item.area / columnWidth;
+        result.set(item.id, { x: remaining.x, y, width: columnWidth, height });
+        y += height;
+      }
+      remaining = {
+        ...remaining,
+        x: remaining.x + columnWidth,
+        width: remaining.width - columnWidth,
+      };
+    } else {
+      // Row along the top
+      const rowHeight = rowArea / remaining.width;
+      let x = remaining.x;
+      for (const item of row) {
+        const width = item.area / rowHeight;
+        result.set(item.id, { x, y: remaining.y, width, height: rowHeight });
+        x += width;
+      }
+      remaining = {
+        ...remaining,
+        y: remaining.y + rowHeight,
+        height: remaining.height - rowHeight,
+      };
+    }
+    row = [];
+  };
+
+  for (const item of areas) {
+    const side = Math.min(remaining.width, remaining.height);
+    if (
+      row.length === 0 ||
+      worstRatio([...row, item], side) <= worstRatio(row, side)
+    ) {
+      row.push(item);
+    } else {
+      layoutRow();
+      row.push(item);
+    }
+  }
+  if (row.length > 0) layoutRow();
+
+  return result;
+}
+
+function worstRatio(row: Array<{ area: number }>, side: number) {
+  const sum = row.reduce((total, item) => total + item.area, 0);
+  const sideSquared = side * side;
+  return Math.max(
+    ...row.map((item) =>
+      Math.max(
+        (sideSquared * item.area) / (sum * sum),
+        (sum * sum) / (sideSquared * item.area)
+      )
+    )
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPrerequisiteGraph,
+  computePrerequisiteLevels,
+  findPrerequisiteCycle,
+  toRelationIds,
+  type PrerequisiteGraph,
+} from "./prerequisites";
+
+const graph = (edges: Record<string, string[]>): PrerequisiteGraph =>
+  new Map(Object.entries(edges));
+
+describe("toRelationIds", () => {
+  it("reads stored, populated and polymorphic values", () => {
+    expect(toRelationIds(["a", 2, { id: "c" }, { value: "d" }, null])).toEqual([
+      "a",
+      "2",
+      "c",
+      "d",
+    ]);
+    expect(toRelationIds(undefined)).toEqual([]);
+  });
+});
+
+describe("buildPrerequisiteGraph", () => {
+  it("maps each module to its prerequisite IDs", () => {
+    expect(
+      buildPrerequisiteGraph([
+        { id: "a", prerequisites: [{ id: "b" }] },
+        { id: "b", prerequisites: null },
+      ])
+    ).toEqual(graph({ a: ["b"], b: [] }));
+  });
+});
+
+describe("findPrerequisiteCycle", () => {
+  it("returns the cycle through the module", () => {
+    const edges = graph({ a: ["b"], b: ["c"], c: ["a"] });
+    expect(findPrerequisiteCycle(edges, "a")).toEqual(["a", "b", "c", "a"]);
+  });
+
+  it("returns null for an acyclic graph with shared prerequisites", () => {
+    const edges = graph({ a: ["b", "c"], b: ["d"], c: ["d"], d: [] });
+    expect(findPrerequisiteCycle(edges, "a")).toBeNull();
+  });
+
+  it("ignores cycles that don't pass through the module", () => {
+    const edges = graph({ a: ["b"], b: ["c"], c: ["b"] });
+    expect(findPrerequisiteCycle(edges, "a")).toBeNull();
+    expect(findPrerequisiteCycle(edges, "b")).toEqual(["b", "c", "b"]);
+  });
+});
+
+describe("computePrerequisiteLevels", () => {
+  it("puts each module one below its deepest prerequisite", () => {
+    const levels = computePrerequisiteLevels(
+      graph({ a: [], b: ["a"], c: ["a", "b"], d: ["missing"] })
+    );
+    expect(Object.fromEntries(levels)).toEqual({ a: 0, b: 1, c: 2, d: 0 });
+  });
+
+  it("terminates on cyclic data", () => {
+    const levels = computePrerequisiteLevels(graph({ a: ["b"], b: ["a"] }));
+    expect(levels.size).toBe(2);
+  });
+});
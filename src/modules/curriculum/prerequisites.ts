@@ -0,0 +1,133 @@
+import type { RelationshipFieldManyValidation } from "payload";
+
+// Module ID -> IDs of the modules it requires
+export type PrerequisiteGraph = Map<string, string[]>;
+
+// A relationship value as stored (ID) or populated (document)
+type RelationValue = string | number | { id: string | number };
+
+function toRelationId(item: unknown): string | null {
+  if (typeof item === "string" || typeof item === "number") {
+    return String(item);
+  }
+  if (item && typeof item === "object") {
+    // Populated documents carry `id`; polymorphic values wrap it in `value`
+    const { id, value } = item as { id?: unknown; value?: unknown };
+    return toRelationId(id ?? value);
+  }
+  return null;
+}
+
+export function toRelationIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(toRelationId).filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Build a graph from modules whose prerequisites may or may not be populated
+ */
+export function buildPrerequisiteGraph(
+  modules: Array<{ id: string; prerequisites?: RelationValue[] | null }>
+): PrerequisiteGraph {
+  return new Map(
+    modules.map((module) => [module.id, toRelationIds(module.prerequisites)])
+  );
+}
+
+/**
+ * Return the first cycle that passes through `moduleId` (as a list of IDs
+ * starting and ending at it), or null when its prerequisites are acyclic
+ */
+export function findPrerequisiteCycle(
+  graph: PrerequisiteGraph,
+  moduleId: string
+): string[] | null {
+  const visited = new Set<string>();
+
+  const walk = (id: string, path: string[]): string[] | null => {
+    for (const next of graph.get(id) || []) {
+      if (next === moduleId) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const cycle = walk(next, [...path, next]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(moduleId, [moduleId]);
+}
+
+/**
+ * Depth of each module in the graph: 0 for modules with no prerequisites,
+ * otherwise one more than its deepest prerequisite. Unknown IDs are ignored.
+ */
+export function computePrerequisiteLevels(
+  graph: PrerequisiteGraph
+): Map<string, number> {
+  const levels = new Map<string, number>();
+
+  const levelOf = (id: string, trail: Set<string>): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    // Cycles are rejected on save, but never recurse forever on bad data
+    if (trail.has(id)) return 0;
+    trail.add(id);
+
+    const parents = (graph.get(id) || []).filter((parent) => graph.has(parent));
+    const level =
+      parents.length === 0
+        ? 0
+        : Math.max(...parents.map((parent) => levelOf(parent, trail))) + 1;
+
+    trail.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+
+  graph.forEach((_, id) => levelOf(id, new Set()));
+  return levels;
+}
+
+/**
+ * Payload field validation: reject prerequisites that would create a cycle
+ */
+export const validatePrerequisites: RelationshipFieldManyValidation = async (
+  value,
+  { req, id }
+) => {
+  const prerequisites = toRelationIds(value);
+  if (!id || prerequisites.length === 0) return true;
+
+  const moduleId = String(id);
+  if (prerequisites.includes(moduleId)) {
+    return "A module cannot be its own prerequisite";
+  }
+
+  const { docs } = await req.payload.find({
+    collection: "curriculum_modules",
+    depth: 0,
+    draft: true,
+    pagination: false,
+    select: { title: true, prerequisites: true },
+    req,
+  });
+
+  const graph = buildPrerequisiteGraph(
+    docs.map((doc) => ({
+      id: String(doc.id),
+      prerequisites: doc.prerequisites as RelationValue[] | null | undefined,
+    }))
+  );
+  graph.set(moduleId, prerequisites);
+
+  const cycle = findPrerequisiteCycle(graph, moduleId);
+  if (!cycle) return true;
+
+  const titles = new Map(
+    docs.map((doc) => [String(doc.id), String(doc.title)])
+  );
+  return `Prerequisites would create a cycle: ${cycle
+    .map((step) => titles.get(step) || step)
+    .join(" → ")}`;
+};
@@ -0,0 +1,268 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  Payload,
+  PayloadRequest,
+} from "payload";
+import type { LexicalNode } from "@/lib/types";
+import { exampleHash } from "@/lib/exampleLinks";
+
+// Entry kinds stored in the search_index collection
+export type SearchEntryType = "section" | "callout" | "example";
+
+export interface SearchIndexEntry {
+  entryType: SearchEntryType;
+  module: string;
+  moduleSlug: string;
+  moduleTitle: string;
+  sectionKey: string;
+  sectionHeading: string;
+  title: string;
+  body: string;
+  href: string;
+}
+
+// Lexical block nodes are joined with spaces so words don't run together
+function collectText(node: LexicalNode, parts: string[]) {
+  if (node.type === "text" && node.text) {
+    parts.push(node.text);
+    return;
+  }
+  if (node.children) {
+    node.children.forEach((child) => collectText(child, parts));
+    parts.push(" ");
+  }
+}
+
+/**
+ * Flatten Lexical rich text into plain, whitespace-normalised text
+ */
+export function extractPlainText(content: unknown): string {
+  if (!content || typeof content !== "object") return "";
+
+  const root = (content as { root?: LexicalNode }).root;
+  if (!root || !Array.isArray(root.children)) return "";
+
+  const parts: string[] = [];
+  collectText(root, parts);
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+// Structural subset of a curriculum module needed for indexing
+type ModuleDoc = {
+  id: string;
+  slug: string;
+  title: string;
+  _status?: "draft" | "published" | null;
+  sections?: Array<{
+    key: string;
+    heading: string;
+    body?: unknown;
+    callouts?: Array<{ title: string; body: string }> | null;
+    embeddedExamples?: Array<{
+      exampleId: string | { id: string };
+    }> | null;
+  }>;
+};
+
+/**
+ * Build index entries for a published module, including the animated
+ * examples embedded in its sections.
+ */
+async function buildModuleEntries(
+  payload: Payload,
+  module: ModuleDoc,
+  req?: PayloadRequest
+): Promise<SearchIndexEntry[]> {
+  const entries: SearchIndexEntry[] = [];
+  const base = {
+    module: module.id,
+    moduleSlug: module.slug,
+    moduleTitle: module.title,
+  };
+
+  for (const section of module.sections || []) {
+    const href = `/topics/${module.slug}#section-${section.key}`;
+    const sectionBase = {
+      ...base,
+      sectionKey: section.key,
+      sectionHeading: section.heading,
+      href,
+    };
+
+    entries.push({
+      ...sectionBase,
+      entryType: "section",
+      title: section.heading,
+      body: extractPlainText(section.body),
+    });
+
+    for (const callout of section.callouts || []) {
+      entries.push({
+        ...sectionBase,
+        entryType: "callout",
+        title: callout.title,
+        body: callout.body,
+      });
+    }
+
+    const exampleIds = (section.embeddedExamples || []).map((emb) =>
+      typeof emb.exampleId === "string" ? emb.exampleId : emb.exampleId.id
+    );
+    if (exampleIds.length === 0) continue;
+
+    const examples = await payload.find({
+      collection: "animated_examples",
+      where: {
+        and: [{ id: { in: exampleIds } }, { _status: { not_equals: "draft" } }],
+      },
+      limit: exampleIds.length,
+      depth: 0,
+      req,
+    });
+
+    for (const example of examples.docs) {
+      entries.push({
+        ...sectionBase,
+        entryType: "example",
+        href: `/topics/${module.slug}${exampleHash(example.exampleId)}`,
+        title: example.title,
+        body: [
+          example.description,
+          ...(example.whatToNotice || []).map((n) => n.item),
+        ].join(" "),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Replace all index entries for a module with freshly built ones.
+ * Reads the stored (published) document, so draft saves never leak
+ * unpublished text into search results. The old entries are only removed
+ * once every new one is stored, so a failure leaves the previous index in
+ * place (and is logged rather than failing the save that triggered it).
+ */
+export async function reindexModule(
+  payload: Payload,
+  moduleId: string,
+  req?: PayloadRequest
+) {
+  const stale = await payload.find({
+    collection: "search_index",
+    where: { module: { equals: moduleId } },
+    depth: 0,
+    pagination: false,
+    req,
+  });
+  const staleIds = stale.docs.map((doc) => doc.id);
+
+  const moduleDoc: ModuleDoc | null = await payload.findByID({
+    collection: "curriculum_modules",
+    id: moduleId,
+    depth: 0,
+    disableErrors: true,
+    req,
+  });
+
+  // Documents from before drafts were enabled have no _status: published
+  const entries =
+    !moduleDoc || moduleDoc._status === "draft"
+      ? []
+      : await buildModuleEntries(payload, moduleDoc, req);
+
+  const createdIds: string[] = [];
+  try {
+    for (const entry of entries) {
+      const created = await payload.create({
+        collection: "search_index",
+        data: entry,
+        req,
+      });
+      createdIds.push(created.id);
+    }
+  } catch (error) {
+    payload.logger.error({
+      err: error,
+      msg: `Failed to reindex module ${moduleId}; keeping its previous search entries`,
+    });
+    if (createdIds.length > 0) {
+      await payload.delete({
+        collection: "search_index",
+        where: { id: { in: createdIds } },
+        req,
+      });
+    }
+    return 0;
+  }
+
+  if (staleIds.length > 0) {
+    await payload.delete({
+      collection: "search_index",
+      where: { id: { in: staleIds } },
+      req,
+    });
+  }
+
+  return entries.length;
+}
+
+export const indexModuleAfterChange: CollectionAfterChangeHook = async ({
+  doc,
+  req,
+}) => {
+  await reindexModule(req.payload, doc.id, req);
+  return doc;
+};
+
+export const removeModuleFromIndex: CollectionAfterDeleteHook = async ({
+  id,
+  req,
+}) => {
+  await req.payload.delete({
+    collection: "search_index",
+    where: { module: { equals: id } },
+    req,
+  });
+};
+
+/**
+ * Examples are indexed as part of every module that embeds them,
+ * so any change re-indexes those modules.
+ */
+async function reindexModulesEmbedding(
+  payload: Payload,
+  exampleId: string,
+  req?: PayloadRequest
+) {
+  const modules = await payload.find({
+    collection: "curriculum_modules",
+    where: {
+      "sections.embeddedExamples.exampleId": { equals: exampleId },
+    },
+    limit: 100,
+    depth: 0,
+    req,
+  });
+
+  for (const moduleDoc of modules.docs) {
+    await reindexModule(payload, moduleDoc.id, req);
+  }
+}
+
+export const indexExampleAfterChange: CollectionAfterChangeHook = async ({
+  doc,
+  req,
+}) => {
+  await reindexModulesEmbedding(req.payload, doc.id, req);
+  return doc;
+};
+
+export const removeExampleFromIndex: CollectionAfterDeleteHook = async ({
+  id,
+  req,
+}) => {
+  await reindexModulesEmbedding(req.payload, String(id), req);
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { SearchIndexEntry } from "./indexer";
+import {
+  buildSnippet,
+  highlightTerms,
+  rankEntries,
+  scoreEntry,
+  tokenizeQuery,
+} from "./ranking";
+
+function entry(
+  id: string,
+  overrides: Partial<SearchIndexEntry>
+): SearchIndexEntry & { id: string } {
+  return {
+    id,
+    entryType: "section",
+    module: "m1",
+    moduleSlug: "caching",
+    moduleTitle: "Caching",
+    sectionKey: id,
+    sectionHeading: "Heading",
+    title: "Untitled",
+    body: "",
+    href: `/topics/caching#${id}`,
+    ...overrides,
+  };
+}
+
+describe("tokenizeQuery", () => {
+  it("lower-cases, dedupes and drops single characters", () => {
+    expect(tokenizeQuery("HTTP cache, a cache-control")).toEqual([
+      "http",
+      "cache",
+      "control",
+    ]);
+  });
+});
+
+describe("scoreEntry", () => {
+  it("ranks title hits above body hits", () => {
+    const terms = ["cache"];
+    expect(
+      scoreEntry(entry("a", { title: "Cache keys" }), terms)
+    ).toBeGreaterThan(
+      scoreEntry(entry("b", { body: "cache cache cache" }), terms)
+    );
+  });
+
+  it("rewards matching every term", () => {
+    const terms = ["cache", "stale"];
+    const both = scoreEntry(entry("a", { body: "stale cache" }), terms);
+    const one = scoreEntry(entry("b", { body: "cache cache" }), terms);
+    expect(both).toBeGreaterThan(one);
+  });
+
+  it("weights sections above callouts", () => {
+    const terms = ["cache"];
+    expect(scoreEntry(entry("a", { title: "Cache" }), terms)).toBeGreaterThan(
+      scoreEntry(entry("b", { title: "Cache", entryType: "callout" }), terms)
+    );
+  });
+
+  it("scores entries without a match 0", () => {
+    expect(scoreEntry(entry("a", { title: "Routing" }), ["cache"])).toBe(0);
+  });
+});
+
+describe("rankEntries", () => {
+  it("returns the best matches first, however many entries there are", () => {
+    const filler = Array.from({ length: 300 }, (_, index) =>
+      entry(`filler-${index}`, { body: "mentions cache once" })
+    );
+    const best = entry("best", { title: "Cache invalidation" });
+
+    const results = rankEntries([...filler, best], "cache", 5);
+    expect(results).toHaveLength(5);
+    expect(results[0].id).toBe("best");
+  });
+
+  it("drops entries that don't match and empty queries", () => {
+    const entries = [entry("a", { title: "Routing" })];
+    expect(rankEntries(entries, "cache", 10)).toEqual([]);
+    expect(rankEntries(entries, "a", 10)).toEqual([]);
+  });
+});
+
+describe("highlightTerms", () => {
+  it("marks every occurrence regardless of case", () => {
+    expect(highlightTerms("Cache the cache", ["cache"])).toEqual([
+      { text: "Cache", highlight: true },
+      { text: " the ", highlight: false },
+      { text: "cache", highlight: true },
+    ]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("cuts a window around the first match", () => {
+    const body = `${"lorem ipsum ".repeat(30)}stale data ${"dolor ".repeat(30)}`;
+    const snippet = buildSnippet(body, ["stale"]);
+    const text = snippet.map((segment) => segment.text).join("");
+
+    expect(text.startsWith("…")).toBe(true);
+    expect(text.endsWith("…")).toBe(true);
+    expect(snippet).toContainEqual({ text: "stale", highlight: true });
+  });
+});
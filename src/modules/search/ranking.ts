@@ -0,0 +1,161 @@
+import type { SearchEntryType, SearchIndexEntry } from "./indexer";
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  entryType: SearchEntryType;
+  moduleSlug: string;
+  moduleTitle: string;
+  sectionHeading: string;
+  href: string;
+  score: number;
+  title: SnippetSegment[];
+  snippet: SnippetSegment[];
+}
+
+const SNIPPET_LENGTH = 160;
+
+// Sections carry the core teaching text, so they outrank callouts/examples
+const ENTRY_TYPE_WEIGHTS: Record<SearchEntryType, number> = {
+  section: 1.2,
+  example: 1.1,
+  callout: 1,
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Split a query into unique, lower-cased terms (single characters are dropped)
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1);
+  return Array.from(new Set(terms));
+}
+
+function countOccurrences(haystack: string, term: string) {
+  let count = 0;
+  let index = haystack.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Score an entry against query terms. Title hits dominate, word-start hits
+ * beat mid-word hits, and entries matching every term get a bonus.
+ */
+export function scoreEntry(
+  entry: Pick<SearchIndexEntry, "entryType" | "title" | "body">,
+  terms: string[]
+): number {
+  const title = entry.title.toLowerCase();
+  const body = entry.body.toLowerCase();
+  let score = 0;
+  let matchedTerms = 0;
+
+  for (const term of terms) {
+    const wordStart = new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}`);
+    const titleHit = title.includes(term);
+    const bodyHits = Math.min(countOccurrences(body, term), 5);
+
+    if (titleHit) score += wordStart.test(title) ? 15 : 10;
+    if (bodyHits > 0) score += bodyHits * (wordStart.test(body) ? 1.5 : 1);
+    if (titleHit || bodyHits > 0) matchedTerms++;
+  }
+
+  if (matchedTerms === 0) return 0;
+  if (matchedTerms === terms.length && terms.length > 1) score *= 1.5;
+
+  return score * ENTRY_TYPE_WEIGHTS[entry.entryType];
+}
+
+/**
+ * Split text into highlighted / plain segments for every term occurrence
+ */
+export function highlightTerms(
+  text: string,
+  terms: string[]
+): SnippetSegment[] {
+  if (terms.length === 0 || !text) return [{ text, highlight: false }];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({
+      text: part,
+      highlight: terms.includes(part.toLowerCase()),
+    }));
+}
+
+/**
+ * Cut a window of body text around the first match and highlight it
+ */
+export function buildSnippet(body: string, terms: string[]): SnippetSegment[] {
+  const lower = body.toLowerCase();
+  const firstMatch = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index !== -1)
+    .sort((a, b) => a - b)[0];
+
+  if (firstMatch === undefined || body.length <= SNIPPET_LENGTH) {
+    const text =
+      body.length > SNIPPET_LENGTH
+        ? `${body.slice(0, SNIPPET_LENGTH).trimEnd()}…`
+        : body;
+    return highlightTerms(text, terms);
+  }
+
+  // Start a little before the match, snapping to a word boundary
+  let start = Math.max(0, firstMatch - Math.floor(SNIPPET_LENGTH / 3));
+  if (start > 0) {
+    const space = body.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  const end = Math.min(body.length, start + SNIPPET_LENGTH);
+
+  const text = `${start > 0 ? "…" : ""}${body.slice(start, end).trim()}${
+    end < body.length ? "…" : ""
+  }`;
+  return highlightTerms(text, terms);
+}
+
+/**
+ * Rank index entries for a query and build their display snippets
+ */
+export function rankEntries(
+  entries: Array<SearchIndexEntry & { id: string }>,
+  query: string,
+  limit: number
+): SearchResult[] {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  return entries
+    .map((entry) => ({ entry, score: scoreEntry(entry, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({
+      id: entry.id,
+      entryType: entry.entryType,
+      moduleSlug: entry.moduleSlug,
+      moduleTitle: entry.moduleTitle,
+      sectionHeading: entry.sectionHeading,
+      href: entry.href,
+      score: Math.round(score * 100) / 100,
+      title: highlightTerms(entry.title, terms),
+      snippet: buildSnippet(entry.body, terms),
+    }));
+}